@@ -1,10 +1,49 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { TranscriptView } from './components/TranscriptView';
-import { AudioPlayer } from './components/AudioPlayer';
+import { AudioPlayer, AudioPlayerHandle } from './components/AudioPlayer';
 import { ShadowingView } from './components/ShadowingView';
-import { transcribeAudio } from './services/geminiService';
-import { AppState, TranscriptionResponse, AudioFileMetadata } from './types';
+import { LibraryView } from './components/LibraryView';
+import { NotesView } from './components/NotesView';
+import { ReviewView } from './components/ReviewView';
+import { DictationView } from './components/DictationView';
+import { ExportDialog } from './components/ExportDialog';
+import { AnkiExportDialog } from './components/AnkiExportDialog';
+import { LanguageSettingsPicker } from './components/LanguageSettingsPicker';
+import { ProgressView } from './components/ProgressView';
+import { VocabularyView } from './components/VocabularyView';
+import { PodcastView } from './components/PodcastView';
+import { VoiceSettingsPanel } from './components/VoiceSettingsPanel';
+import { transcribeAudio, enrichTranscript, pregenerateSpeech } from './services/geminiService';
+import { parseSubtitleFile, buildSubtitleTranscript } from './services/subtitles';
+import { alignTranscriptWords, needsWordTimings } from './services/wordAlignment';
+import { getMediaDuration, isVideoFile, extractAudioTrack } from './services/audioUtils';
+import { createLibraryItem, openLibraryItem, updateLibraryItem } from './services/libraryService';
+import { addSegmentCard, removeSegmentCard, addWordCard, listDueCards, syncCardsWithSegments } from './services/reviewDeck';
+import { recordAttempt, addListeningTime, moveAttemptsToSegments } from './services/practiceHistory';
+import { saveLookup } from './services/vocabulary';
+import { mapSegmentStarts, reanchorNotes } from './services/transcriptEdits';
+import { loadPreferredLanguageSettings, savePreferredLanguageSettings, getTranscriptLanguageSettings } from './services/languages';
+import { AiError, toAiError } from './services/errors';
+import { useToast } from './components/ErrorFeedback';
+import { loadDefaultVoiceSettings, saveDefaultVoiceSettings, getTranscriptVoiceSettings } from './services/voices';
+import { AppState, TranscriptionResponse, TranscriptionSegment, TranscriptionProgress, AudioFileMetadata, PracticeState, PracticeMode, SegmentNote, WordDefinition, LanguageSettings, VoiceSettings, SentenceExplanation, PlaybackState, SpeechOptions } from './types';
+
+// Larger jumps between time updates are seeks, not listening
+const MAX_PLAYBACK_STEP_SECONDS = 2;
+
+/**
+ * Keeps favorites and notes the user added to a partial transcript when the next chunk arrives.
+ */
+const carryOverAnnotations = (previous: TranscriptionResponse | null, next: TranscriptionResponse): TranscriptionResponse => {
+  if (!previous) return next;
+  const favoriteStarts = new Set(previous.segments.filter(s => s.isFavorite).map(s => s.start));
+  return {
+    ...next,
+    segments: next.segments.map(s => favoriteStarts.has(s.start) ? { ...s, isFavorite: true } : s),
+    notes: previous.notes,
+  };
+};
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -12,54 +51,272 @@ const App: React.FC = () => {
   const [transcription, setTranscription] = useState<TranscriptionResponse | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [activeTab, setActiveTab] = useState<'original' | 'notes' | 'favorites'>('original');
-  const [errorDetails, setErrorDetails] = useState<string | null>(null);
+  const [error, setError] = useState<AiError | null>(null);
+  const [libraryItemId, setLibraryItemId] = useState<string | null>(null);
+  const [shadowingIndex, setShadowingIndex] = useState(0);
+  const [sequenceSegment, setSequenceSegment] = useState<TranscriptionSegment | null>(null);
+  const [dueCardCount, setDueCardCount] = useState(0);
+  const [progress, setProgress] = useState<TranscriptionProgress | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showAnkiExport, setShowAnkiExport] = useState(false);
+  const [languageSettings, setLanguageSettings] = useState<LanguageSettings>(loadPreferredLanguageSettings);
+  const [defaultVoiceSettings, setDefaultVoiceSettings] = useState<VoiceSettings>(loadDefaultVoiceSettings);
+  const [showVoiceSettings, setShowVoiceSettings] = useState(false);
+  const transcribeAbortRef = useRef<AbortController | null>(null);
+  // Last upload, so a retryable failure can be retried without picking the files again
+  const lastUploadRef = useRef<{ file: File; subtitleFile?: File } | null>(null);
+  const playerRef = useRef<AudioPlayerHandle>(null);
+  const listeningRef = useRef({ lastTime: 0, pendingSeconds: 0 });
+  const transcriptionRef = useRef(transcription);
+  transcriptionRef.current = transcription;
+  // Card and attempt moves run one edit at a time so quick edits don't interleave
+  const segmentRecordsSyncRef = useRef<Promise<void>>(Promise.resolve());
+  const { showError } = useToast();
+
+  // "Pre-generate all idioms" run; kept here so it carries on while other tabs are open
+  const [pregenerateProgress, setPregenerateProgress] = useState<{ completed: number; total: number } | null>(null);
+  const pregenerateAbortRef = useRef<AbortController | null>(null);
+
+  // Mirrored by the video pane; the player unmounts outside READY without reporting a pause
+  const [playback, setPlayback] = useState<PlaybackState>({ playing: false, rate: 1 });
+  useEffect(() => {
+    if (appState !== AppState.READY) setPlayback({ playing: false, rate: 1 });
+  }, [appState]);
 
   useEffect(() => {
     return () => {
       if (audioFile?.url) URL.revokeObjectURL(audioFile.url);
+      // Another file (or none) replaces the transcript, so its idioms are no longer wanted
+      pregenerateAbortRef.current?.abort();
     };
   }, [audioFile]);
 
-  const handleFileSelected = async (file: File) => {
+  useEffect(() => {
+    if (appState !== AppState.IDLE) return;
+    listDueCards()
+      .then(cards => setDueCardCount(cards.length))
+      .catch(err => console.error("Failed to load review deck", err));
+  }, [appState]);
+
+  useEffect(() => {
+    const listening = listeningRef.current;
+    const step = currentTime - listening.lastTime;
+    listening.lastTime = currentTime;
+    if (step > 0 && step < MAX_PLAYBACK_STEP_SECONDS) listening.pendingSeconds += step;
+  }, [currentTime]);
+
+  // Persist the listening position every few seconds so reopening resumes where we left off
+  const positionBucket = Math.floor(currentTime / 5);
+  useEffect(() => {
+    if (libraryItemId && transcription) {
+      savePractice({ lastPosition: currentTime, shadowingIndex });
+      flushListeningTime();
+    }
+  }, [positionBucket, shadowingIndex]);
+
+  const flushListeningTime = () => {
+    const seconds = listeningRef.current.pendingSeconds;
+    listeningRef.current.pendingSeconds = 0;
+    if (!libraryItemId || seconds <= 0) return;
+    addListeningTime(libraryItemId, seconds).catch(err => console.error("Failed to log listening time", err));
+  };
+
+  const savePractice = (practice: PracticeState) => {
+    if (!libraryItemId) return;
+    updateLibraryItem(libraryItemId, { practice }).catch(err => console.error("Failed to save practice state", err));
+  };
+
+  /**
+   * Updates the open transcript and writes it through to the library.
+   */
+  const updateTranscription = (next: TranscriptionResponse) => {
+    setTranscription(next);
+    if (libraryItemId) {
+      updateLibraryItem(libraryItemId, { transcription: next }).catch(err => console.error("Failed to save transcript", err));
+    }
+  };
+
+  const showFile = (file: File) => {
+    setAudioFile({
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      url: URL.createObjectURL(file),
+      originalFile: file,
+      isVideo: isVideoFile(file)
+    });
+  };
+
+  const saveToLibrary = async (file: File, result: TranscriptionResponse) => {
+    // Saving is best-effort: a full or unavailable IndexedDB should not block studying
+    try {
+      const duration = await getMediaDuration(file);
+      const item = await createLibraryItem(file, result, duration);
+      setLibraryItemId(item.id);
+    } catch (storageErr) {
+      console.error("Failed to save to library", storageErr);
+    }
+  };
+
+  const handleLanguageSettingsChange = (settings: LanguageSettings) => {
+    setLanguageSettings(settings);
+    savePreferredLanguageSettings(settings);
+  };
+
+  /**
+   * Saves a voice for the open transcript and/or as the default for every transcript without one.
+   */
+  const handleSaveVoiceSettings = (settings: VoiceSettings, asDefault: boolean) => {
+    if (asDefault || !transcription) {
+      setDefaultVoiceSettings(settings);
+      saveDefaultVoiceSettings(settings);
+    }
+    if (transcription) updateTranscription({ ...transcription, voiceSettings: settings });
+  };
+
+  const handleFileSelected = async (file: File, subtitleFile?: File) => {
+    transcribeAbortRef.current?.abort();
+    const controller = new AbortController();
+    transcribeAbortRef.current = controller;
+    lastUploadRef.current = { file, subtitleFile };
+    // Videos are transcribed and saved as their audio track; the original only plays in the video pane this session
+    let audio = file;
+
     try {
       setAppState(AppState.PROCESSING);
-      setErrorDetails(null);
-      const url = URL.createObjectURL(file);
-      setAudioFile({
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        url,
-        originalFile: file
-      });
-
-      const result = await transcribeAudio(file);
-      setTranscription(result);
+      setError(null);
+      setLibraryItemId(null);
+      setShadowingIndex(0);
+      setTranscription(null);
+      setProgress(null);
+      showFile(file);
+
+      const options = {
+        settings: languageSettings,
+        signal: controller.signal,
+        onProgress: (p: TranscriptionProgress) => {
+          if (controller.signal.aborted) return;
+          setProgress(p);
+          if (p.partial) setTranscription(prev => carryOverAnnotations(prev, p.partial!));
+        }
+      };
+      if (isVideoFile(file)) {
+        setProgress({ stage: 'extract', completedChunks: 0, totalChunks: 1, partial: null });
+        audio = await extractAudioTrack(file);
+        if (controller.signal.aborted) return;
+      }
+
+      // Subtitles already give us text and timing, so the AI only fills translations
+      const result = subtitleFile
+        ? await enrichTranscript(buildSubtitleTranscript(await parseSubtitleFile(subtitleFile), languageSettings), options)
+        : await transcribeAudio(audio, options);
+      if (controller.signal.aborted) return;
+
+      const aligned = await alignTranscriptWords(result, audio);
+      if (controller.signal.aborted) return;
+      const final = carryOverAnnotations(transcriptionRef.current, aligned);
+      setTranscription(final);
+      setProgress(null);
       setAppState(AppState.READY);
-    } catch (err: any) {
+      await saveToLibrary(audio, final);
+    } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      let msg = err.message || "An unexpected error occurred.";
-      const lowerMsg = msg.toLowerCase();
-      
-      if (lowerMsg.includes("api key is missing")) {
-        msg = "API_KEY_MISSING";
-      } else if (lowerMsg.includes("internal error") || lowerMsg.includes("500") || lowerMsg.includes("503") || lowerMsg.includes("service unavailable")) {
-        msg = "SERVICE_UNAVAILABLE";
-      } else if (lowerMsg.includes("fetch failed") || lowerMsg.includes("network")) {
-        msg = "NETWORK_ERROR";
+      setProgress(null);
+      setError(toAiError(err));
+
+      // A later chunk failed: keep what was already transcribed instead of discarding it
+      const partial = transcriptionRef.current;
+      if (partial && partial.segments.length > 0) {
+        setAppState(AppState.READY);
+        await saveToLibrary(audio, partial);
+        return;
+      }
+      setAppState(AppState.ERROR);
+    }
+  };
+
+  /**
+   * Opens a saved item where it was left off. `seekTo` opens it at a time instead;
+   * `shadowAt` goes straight to shadowing the segment starting there.
+   */
+  const handleOpenLibraryItem = async (id: string, target: { seekTo?: number; shadowAt?: number } = {}) => {
+    const { seekTo, shadowAt } = target;
+    try {
+      setError(null);
+      const { item, file } = await openLibraryItem(id);
+      const startTime = seekTo ?? item.practice.lastPosition;
+      showFile(file);
+      setTranscription(item.transcription);
+      setLibraryItemId(item.id);
+      setCurrentTime(startTime);
+      listeningRef.current = { lastTime: startTime, pendingSeconds: 0 };
+      setActiveTab('original');
+      if (shadowAt !== undefined && item.transcription.segments.length > 0) {
+        // Closest start, in case the transcript was edited since the attempt
+        const segments = item.transcription.segments;
+        const index = segments.reduce((best, s, i) => Math.abs(s.start - shadowAt) < Math.abs(segments[best].start - shadowAt) ? i : best, 0);
+        setShadowingIndex(index);
+        setAppState(AppState.SHADOWING);
+      } else {
+        setShadowingIndex(item.practice.shadowingIndex);
+        setAppState(AppState.READY);
       }
 
-      setErrorDetails(msg);
+      // Items saved before word timings existed get them on first open
+      if (needsWordTimings(item.transcription.segments)) {
+        const aligned = await alignTranscriptWords(item.transcription, file);
+        // Only apply if the user hasn't moved on or edited in the meantime; saving the stale
+        // copy would overwrite those changes, and the next open aligns again anyway
+        if (transcriptionRef.current !== item.transcription) return;
+        setTranscription(aligned);
+        await updateLibraryItem(item.id, { transcription: aligned });
+      }
+    } catch (err) {
+      console.error(err);
+      lastUploadRef.current = null;
+      setError(toAiError(err));
       setAppState(AppState.ERROR);
     }
   };
 
+  const handleTogglePregenerate = async (idioms: string[], speech: SpeechOptions) => {
+    if (pregenerateAbortRef.current) {
+      pregenerateAbortRef.current.abort();
+      return;
+    }
+    const controller = new AbortController();
+    pregenerateAbortRef.current = controller;
+    setPregenerateProgress({ completed: 0, total: new Set(idioms.filter(Boolean)).size });
+    try {
+      await pregenerateSpeech(idioms, speech, (completed, total) => {
+        if (!controller.signal.aborted) setPregenerateProgress({ completed, total });
+      }, controller.signal);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Pre-generating idiom audio failed", e);
+      showError(e, () => handleTogglePregenerate(idioms, speech));
+    } finally {
+      // A stopped run finishes its current clip; by then a new run may own the state
+      if (pregenerateAbortRef.current === controller) {
+        pregenerateAbortRef.current = null;
+        setPregenerateProgress(null);
+      }
+    }
+  };
+
   const handleReset = () => {
+    transcribeAbortRef.current?.abort();
+    setProgress(null);
+    if (transcription) savePractice({ lastPosition: currentTime, shadowingIndex });
+    flushListeningTime();
     setAppState(AppState.IDLE);
     setAudioFile(null);
     setTranscription(null);
+    setLibraryItemId(null);
     setCurrentTime(0);
-    setErrorDetails(null);
+    setShadowingIndex(0);
+    setError(null);
   };
 
   const handleToggleFavorite = (index: number) => {
@@ -69,10 +326,84 @@ const App: React.FC = () => {
       ...newSegments[index],
       isFavorite: !newSegments[index].isFavorite
     };
-    setTranscription({
+    updateTranscription({
       ...transcription,
       segments: newSegments
     });
+
+    // Favorites feed the review deck
+    if (libraryItemId) {
+      const segment = newSegments[index];
+      const sync = segment.isFavorite ? addSegmentCard(libraryItemId, segment) : removeSegmentCard(libraryItemId, segment);
+      sync.catch(err => console.error("Failed to update review deck", err));
+    }
+  };
+
+  const handlePracticeAttempt = (segment: TranscriptionSegment, mode: PracticeMode, score: number, text = segment.text) => {
+    if (!libraryItemId || !audioFile) return;
+    recordAttempt({
+      libraryItemId,
+      itemName: audioFile.name,
+      segmentStart: segment.start,
+      segmentEnd: segment.end,
+      text,
+      mode,
+      score,
+    }).catch(err => console.error("Failed to record practice attempt", err));
+  };
+
+  const handleWordLookup = (definition: WordDefinition, segment: TranscriptionSegment) => {
+    if (!libraryItemId) return;
+    const { sourceLanguage } = getTranscriptLanguageSettings(transcription);
+    addWordCard(libraryItemId, definition, segment, sourceLanguage).catch(err => console.error("Failed to add word card", err));
+    saveLookup(definition, segment, libraryItemId, audioFile?.name || '', sourceLanguage).catch(err => console.error("Failed to save word to vocabulary", err));
+  };
+
+  const handleSaveNote = (note: SegmentNote) => {
+    if (!transcription) return;
+    const notes = transcription.notes || [];
+    const exists = notes.some(n => n.id === note.id);
+    updateTranscription({
+      ...transcription,
+      notes: exists ? notes.map(n => n.id === note.id ? note : n) : [...notes, note]
+    });
+  };
+
+  // Explanations arrive asynchronously, so they are applied to the latest transcript
+  const handleSaveExplanation = (segment: TranscriptionSegment, explanation: SentenceExplanation) => {
+    const current = transcriptionRef.current;
+    if (!current) return;
+    updateTranscription({
+      ...current,
+      segments: current.segments.map(s => s.start === segment.start && s.text === segment.text ? { ...s, explanation } : s)
+    });
+  };
+
+  // `restoredNotes` comes with undo/redo, which puts the notes back exactly as they were
+  const handleEditSegments = (segments: TranscriptionSegment[], restoredNotes?: SegmentNote[]) => {
+    if (!transcription) return;
+    // Notes, review cards and practice attempts are keyed by segment start, so all follow the same mapping
+    const segmentFor = mapSegmentStarts(transcription.segments, segments);
+    updateTranscription({
+      ...transcription,
+      segments,
+      notes: restoredNotes ?? (transcription.notes && reanchorNotes(transcription.notes, transcription.segments, segmentFor))
+    });
+    if (libraryItemId) {
+      const itemId = libraryItemId;
+      segmentRecordsSyncRef.current = segmentRecordsSyncRef.current
+        .then(() => Promise.all([syncCardsWithSegments(itemId, segments, segmentFor), moveAttemptsToSegments(itemId, segmentFor)]))
+        .then(() => undefined)
+        .catch(err => console.error("Failed to move review cards and attempts", err));
+    }
+  };
+
+  const handleDeleteNote = (note: SegmentNote) => {
+    if (!transcription) return;
+    updateTranscription({
+      ...transcription,
+      notes: (transcription.notes || []).filter(n => n.id !== note.id)
+    });
   };
 
   // Filter segments for the Favorites tab
@@ -92,15 +423,47 @@ const App: React.FC = () => {
             </button>
             <h1 className="text-lg font-bold text-slate-800">LinguaSync</h1>
             <div className="flex gap-2">
+                <button
+                    onClick={() => setShowVoiceSettings(true)}
+                    className="p-2 text-slate-400 hover:text-blue-600"
+                    title="Voice settings"
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                </button>
                 <button className="p-2 text-slate-400 hover:text-blue-600">
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>
                 </button>
-                <button className="p-2 text-slate-400 hover:text-slate-800">
+                <button
+                    onClick={() => setShowAnkiExport(true)}
+                    disabled={!transcription?.segments.some(s => s.isFavorite)}
+                    className="p-2 text-slate-400 hover:text-slate-800 disabled:opacity-40"
+                    title="Export favorites to Anki"
+                >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
+                </button>
+                <button
+                    onClick={() => setShowExport(true)}
+                    disabled={!transcription}
+                    className="p-2 text-slate-400 hover:text-slate-800 disabled:opacity-40"
+                    title="Export subtitles"
+                >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
                 </button>
             </div>
         </div>
 
+        {appState === AppState.READY && progress && progress.completedChunks < progress.totalChunks && (
+            <div className="mb-2 px-3 py-1.5 bg-blue-50 text-blue-700 text-xs font-medium rounded-lg flex items-center gap-2">
+                <div className="w-3 h-3 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+                {progress.stage === 'enrich' ? 'Translating…' : 'Transcribing…'} {progress.completedChunks} of {progress.totalChunks} {progress.stage === 'enrich' ? 'batches' : 'chunks'} ready
+            </div>
+        )}
+        {appState === AppState.READY && error && (
+            <div className="mb-2 px-3 py-1.5 bg-orange-50 text-orange-700 text-xs font-medium rounded-lg break-words">
+                Transcription stopped early: {error.userMessage}
+            </div>
+        )}
+
         {/* Tab Bar */}
         {appState === AppState.READY && (
             <div className="flex items-center gap-6 px-2 border-b border-transparent">
@@ -121,16 +484,69 @@ const App: React.FC = () => {
       <main className="flex-1 overflow-hidden relative bg-slate-50">
         
         {appState === AppState.IDLE && (
-          <div className="h-full flex flex-col justify-center px-6">
+          <div className="h-full overflow-y-auto no-scrollbar px-6 py-10">
+            <LanguageSettingsPicker settings={languageSettings} onChange={handleLanguageSettingsChange} />
             <FileUpload onFileSelected={handleFileSelected} appState={appState} />
+            <button
+                onClick={() => setAppState(AppState.PODCASTS)}
+                className="mt-6 w-full flex items-center justify-between bg-white rounded-xl p-4 border border-slate-100 shadow-sm hover:shadow-md transition"
+            >
+                <span className="text-sm font-bold text-slate-800">Podcasts</span>
+                <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+            </button>
+            <button
+                onClick={() => setAppState(AppState.REVIEW)}
+                className="mt-3 w-full flex items-center justify-between bg-white rounded-xl p-4 border border-slate-100 shadow-sm hover:shadow-md transition"
+            >
+                <span className="text-sm font-bold text-slate-800">Review Deck</span>
+                <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${dueCardCount > 0 ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}>
+                    {dueCardCount} due
+                </span>
+            </button>
+            <button
+                onClick={() => setAppState(AppState.PROGRESS)}
+                className="mt-3 w-full flex items-center justify-between bg-white rounded-xl p-4 border border-slate-100 shadow-sm hover:shadow-md transition"
+            >
+                <span className="text-sm font-bold text-slate-800">Progress</span>
+                <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+            </button>
+            <button
+                onClick={() => setAppState(AppState.VOCABULARY)}
+                className="mt-3 w-full flex items-center justify-between bg-white rounded-xl p-4 border border-slate-100 shadow-sm hover:shadow-md transition"
+            >
+                <span className="text-sm font-bold text-slate-800">Vocabulary</span>
+                <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+            </button>
+            <LibraryView onOpen={(item) => handleOpenLibraryItem(item.id)} />
           </div>
         )}
 
         {appState === AppState.PROCESSING && (
           <div className="h-full flex flex-col items-center justify-center space-y-4 px-6">
             <div className="w-12 h-12 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
-            <p className="text-slate-500 font-medium">Analyzing audio...</p>
-            <p className="text-xs text-slate-400">This may take up to 30 seconds.</p>
+            <p className="text-slate-500 font-medium">{progress?.stage === 'extract' ? 'Extracting audio from video...' : 'Analyzing audio...'}</p>
+            {progress && (progress.totalChunks > 1 || progress.stage === 'enrich') ? (
+                <div className="w-full max-w-xs space-y-3 text-center">
+                    <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-600 transition-all" style={{ width: `${(progress.completedChunks / progress.totalChunks) * 100}%` }}></div>
+                    </div>
+                    <p className="text-xs text-slate-400">
+                        {progress.stage === 'enrich' ? 'Translating batch' : 'Transcribing chunk'} {Math.min(progress.completedChunks + 1, progress.totalChunks)} of {progress.totalChunks}
+                    </p>
+                    {progress.partial && (
+                        <button
+                            onClick={() => setAppState(AppState.READY)}
+                            className="px-4 py-2 text-sm font-bold text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100"
+                        >
+                            {progress.stage === 'enrich'
+                                ? 'Start studying now'
+                                : `Start studying the first ${progress.completedChunks} ${progress.completedChunks === 1 ? 'chunk' : 'chunks'}`}
+                        </button>
+                    )}
+                </div>
+            ) : (
+                <p className="text-xs text-slate-400">This may take up to 30 seconds.</p>
+            )}
           </div>
         )}
 
@@ -140,60 +556,59 @@ const App: React.FC = () => {
                <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
             </div>
             
-            {errorDetails === "API_KEY_MISSING" ? (
+            {error?.kind === 'auth' ? (
                 <div>
-                    <h3 className="text-lg font-bold text-slate-800">Missing API Key</h3>
+                    <h3 className="text-lg font-bold text-slate-800">{error.title}</h3>
                     <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-                        The app was built without the API Key.
+                        {error.userMessage}
                     </p>
                     <div className="text-xs text-left text-slate-600 bg-slate-100 p-4 rounded-lg mt-3 border border-slate-200">
                         <p className="font-bold mb-2">How to fix:</p>
                         <ol className="space-y-1 list-decimal list-inside">
-                            <li>Go to <b>Cloudflare/Netlify Dashboard</b></li>
-                            <li>Ensure <b>API_KEY</b> is in Environment Variables</li>
+                            <li>Go to <b>Cloudflare Pages → Settings → Variables and Secrets</b></li>
+                            <li>Add <b>API_KEY</b> as an encrypted secret (or run <code>wrangler pages secret put API_KEY</code>)</li>
                             <li className="text-red-600 font-bold">Important: Trigger a NEW Deploy</li>
-                            <li className="pl-4 text-slate-500 italic">Adding a key does not update the live site automatically. You must rebuild.</li>
+                            <li className="pl-4 text-slate-500 italic">Secrets only reach the API worker on the next deployment.</li>
                         </ol>
                     </div>
                 </div>
-            ) : errorDetails === "SERVICE_UNAVAILABLE" ? (
-                <div>
-                    <h3 className="text-lg font-bold text-slate-800">AI Service Busy</h3>
-                    <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-                        Google's AI service is currently overloaded (500 Error).<br/>
-                        We automatically retried 3 times but it failed.
-                    </p>
-                    <p className="text-xs text-slate-400 mt-2">
-                        Please wait 1 minute and try again.
-                    </p>
-                </div>
-            ) : errorDetails === "NETWORK_ERROR" ? (
-                <div>
-                    <h3 className="text-lg font-bold text-slate-800">Network Error</h3>
-                    <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-                        Cannot connect to Google's servers. Please check your internet connection.
-                    </p>
-                </div>
             ) : (
                 <div>
-                    <h3 className="text-lg font-bold text-slate-800">Analysis Failed</h3>
+                    <h3 className="text-lg font-bold text-slate-800">{error?.title || "Analysis Failed"}</h3>
                     <p className="text-slate-500 text-sm mt-2 leading-relaxed break-words">
-                        {errorDetails || "An unknown error occurred."}
+                        {error?.userMessage || "An unknown error occurred."}
                     </p>
                 </div>
             )}
 
-            <button onClick={handleReset} className="px-6 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 transition shadow-lg shadow-slate-200 w-full">
-                Try Again
-            </button>
+            <div className="w-full space-y-2">
+                {error?.retryable && lastUploadRef.current && (
+                    <button
+                        onClick={() => handleFileSelected(lastUploadRef.current!.file, lastUploadRef.current!.subtitleFile)}
+                        className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition shadow-lg shadow-blue-200 w-full"
+                    >
+                        Retry
+                    </button>
+                )}
+                <button onClick={handleReset} className="px-6 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 transition shadow-lg shadow-slate-200 w-full">
+                    {error?.retryable && lastUploadRef.current ? "Start Over" : "Try Again"}
+                </button>
+            </div>
           </div>
         )}
 
         {appState === AppState.READY && transcription && audioFile && (
            activeTab === 'notes' ? (
-               <div className="h-full flex items-center justify-center text-slate-400">
-                   <p>No notes yet.</p>
-               </div>
+               <NotesView
+                   notes={transcription.notes || []}
+                   segments={transcription.segments}
+                   onSeek={(time) => {
+                       setCurrentTime(time);
+                       setActiveTab('original');
+                   }}
+                   onSaveNote={handleSaveNote}
+                   onDeleteNote={handleDeleteNote}
+               />
            ) : (
               activeTab === 'favorites' && displayedSegments.length === 0 ? (
                   <div className="h-full flex flex-col items-center justify-center text-slate-400 gap-2">
@@ -206,10 +621,28 @@ const App: React.FC = () => {
                     currentTime={currentTime}
                     onSegmentClick={(time) => setCurrentTime(time)}
                     meta={transcription.meta}
+                    languageSettings={getTranscriptLanguageSettings(transcription)}
+                    voiceSettings={getTranscriptVoiceSettings(transcription, defaultVoiceSettings)}
                     onToggleFavorite={(segment) => {
                         const idx = transcription.segments.indexOf(segment);
                         if (idx !== -1) handleToggleFavorite(idx);
                     }}
+                    onWordLookup={handleWordLookup}
+                    onIdiomAttempt={(segment, score) => handlePracticeAttempt(segment, 'idiom', score.score, segment.idiomatic)}
+                    activeSegment={sequenceSegment}
+                    notes={transcription.notes}
+                    onSaveNote={handleSaveNote}
+                    onPlayFrom={(time) => playerRef.current?.playFrom(time)}
+                    onLoopWord={(word) => playerRef.current?.loopRange(word.start, word.end)}
+                    onStopLoop={() => playerRef.current?.stopLoop()}
+                    audioFile={audioFile?.originalFile}
+                    onSaveExplanation={handleSaveExplanation}
+                    videoUrl={audioFile?.isVideo ? audioFile.url : undefined}
+                    playback={playback}
+                    pregenerateProgress={pregenerateProgress}
+                    onTogglePregenerate={handleTogglePregenerate}
+                    // Editing works on the full list, so not while "Start studying" chunks are still streaming in
+                    onEditSegments={activeTab === 'original' && appState === AppState.READY && !progress ? handleEditSegments : undefined}
                 />
               )
            )
@@ -220,16 +653,86 @@ const App: React.FC = () => {
       {appState === AppState.SHADOWING && transcription && (
         <ShadowingView 
             segments={transcription.segments} 
+            audioFile={audioFile?.originalFile}
+            languageSettings={getTranscriptLanguageSettings(transcription)}
+            voiceSettings={getTranscriptVoiceSettings(transcription, defaultVoiceSettings)}
+            initialIndex={shadowingIndex}
+            onIndexChange={setShadowingIndex}
+            onAttempt={(segment, score) => handlePracticeAttempt(segment, 'shadowing', score.score)}
             onClose={() => setAppState(AppState.READY)}
         />
       )}
 
+      {showExport && transcription && audioFile && (
+        <ExportDialog segments={transcription.segments} fileName={audioFile.name} onClose={() => setShowExport(false)} />
+      )}
+
+      {showVoiceSettings && (
+        <VoiceSettingsPanel
+            settings={getTranscriptVoiceSettings(transcription, defaultVoiceSettings)}
+            languageSettings={transcription ? getTranscriptLanguageSettings(transcription) : languageSettings}
+            isTranscriptScope={!!transcription}
+            onSave={handleSaveVoiceSettings}
+            onClose={() => setShowVoiceSettings(false)}
+        />
+      )}
+
+      {showAnkiExport && transcription && audioFile && (
+        <AnkiExportDialog
+            segments={transcription.segments.filter(s => s.isFavorite)}
+            audioFile={audioFile.originalFile}
+            fileName={audioFile.name}
+            libraryItemId={libraryItemId}
+            onClose={() => setShowAnkiExport(false)}
+        />
+      )}
+
+      {appState === AppState.DICTATION && transcription && audioFile && (
+        <DictationView
+            segments={transcription.segments}
+            audioFile={audioFile.originalFile}
+            initialIndex={Math.max(0, transcription.segments.findIndex(s => currentTime >= s.start && currentTime < s.end))}
+            onAttempt={(segment, result) => handlePracticeAttempt(segment, 'dictation', result.accuracy)}
+            onClose={() => setAppState(AppState.READY)}
+        />
+      )}
+
+      {appState === AppState.REVIEW && (
+        <ReviewView onClose={() => setAppState(AppState.IDLE)} />
+      )}
+
+      {appState === AppState.PROGRESS && (
+        <ProgressView
+            onClose={() => setAppState(AppState.IDLE)}
+            onPracticeSegment={(id, segmentStart) => handleOpenLibraryItem(id, { shadowAt: segmentStart })}
+        />
+      )}
+
+      {appState === AppState.VOCABULARY && (
+        <VocabularyView
+            onClose={() => setAppState(AppState.IDLE)}
+            onOpenSource={(id, segmentStart) => handleOpenLibraryItem(id, { seekTo: segmentStart })}
+        />
+      )}
+
+      {appState === AppState.PODCASTS && (
+        <PodcastView
+            onClose={() => setAppState(AppState.IDLE)}
+            onImport={handleFileSelected}
+        />
+      )}
+
       {appState === AppState.READY && audioFile && (
         <AudioPlayer 
+            ref={playerRef}
             audioUrl={audioFile.url}
             currentTime={currentTime}
             onTimeUpdate={setCurrentTime}
             onEnterShadowing={() => setAppState(AppState.SHADOWING)}
+            onEnterDictation={() => setAppState(AppState.DICTATION)}
+            segments={transcription?.segments}
+            onSequenceSegmentChange={setSequenceSegment}
+            onPlaybackChange={setPlayback}
         />
       )}
 
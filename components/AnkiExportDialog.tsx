@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { AnkiCardTemplate, AnkiExportFormat, exportAnkiDeck } from '../services/ankiExport';
+import { listVocabulary } from '../services/vocabulary';
+import { downloadBlob, baseName } from '../services/downloadUtils';
+
+interface AnkiExportDialogProps {
+  segments: TranscriptionSegment[]; // favorites only
+  audioFile: Blob;
+  fileName: string; // source audio name, used for the deck and file name
+  libraryItemId: string | null; // scopes the optional vocabulary to words looked up in this item
+  onClose: () => void;
+}
+
+const TEMPLATES: { template: AnkiCardTemplate; label: string }[] = [
+  { template: 'listening', label: 'Listening first' },
+  { template: 'reading', label: 'Reading first' },
+  { template: 'both', label: 'Both' },
+];
+
+const FORMATS: { format: AnkiExportFormat; label: string; extension: string }[] = [
+  { format: 'apkg', label: 'Anki package', extension: 'apkg' },
+  { format: 'csv', label: 'CSV + media', extension: 'zip' },
+];
+
+export const AnkiExportDialog: React.FC<AnkiExportDialogProps> = ({ segments, audioFile, fileName, libraryItemId, onClose }) => {
+  const [deckName, setDeckName] = useState(`LinguaSync::${baseName(fileName)}`);
+  const [template, setTemplate] = useState<AnkiCardTemplate>('listening');
+  const [format, setFormat] = useState<AnkiExportFormat>('apkg');
+  const [includeVocabulary, setIncludeVocabulary] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      // Only unlearned words looked up in this item belong in its deck
+      const vocabulary = includeVocabulary && libraryItemId
+        ? (await listVocabulary()).filter(e => !e.learnedAt && e.sources.some(s => s.libraryItemId === libraryItemId))
+        : [];
+      const name = deckName.trim() || baseName(fileName);
+      const blob = await exportAnkiDeck(segments, audioFile, vocabulary, { deckName: name, template, format });
+      const extension = FORMATS.find(f => f.format === format)!.extension;
+      downloadBlob(blob, `${baseName(fileName)}.${extension}`);
+      onClose();
+    } catch (e) {
+      console.error("Anki export failed", e);
+      setError("Could not build the deck. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
+      <div className="absolute inset-0 bg-black/20 pointer-events-auto" onClick={isExporting ? undefined : onClose}></div>
+      <div className="bg-white w-full sm:w-96 p-6 rounded-t-2xl sm:rounded-2xl shadow-2xl relative pointer-events-auto animate-fade-in-up space-y-5">
+        <div>
+          <h4 className="text-lg font-bold text-slate-800">Export to Anki</h4>
+          <p className="text-xs text-slate-400">{segments.length} favorite segment{segments.length === 1 ? '' : 's'} with audio clips</p>
+        </div>
+
+        <input
+          value={deckName}
+          onChange={(e) => setDeckName(e.target.value)}
+          placeholder="Deck name"
+          className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">Cards</p>
+          <div className="flex gap-2">
+            {TEMPLATES.map(t => (
+              <button
+                key={t.template}
+                onClick={() => setTemplate(t.template)}
+                className={`flex-1 py-2 rounded-lg text-sm font-bold border transition ${template === t.template ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">Format</p>
+          <div className="flex gap-2">
+            {FORMATS.map(f => (
+              <button
+                key={f.format}
+                onClick={() => setFormat(f.format)}
+                className={`flex-1 py-2 rounded-lg text-sm font-bold border transition ${format === f.format ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className={`flex items-center justify-between text-sm text-slate-600 ${libraryItemId ? '' : 'opacity-40'}`}>
+          <span>Include saved vocabulary</span>
+          <input type="checkbox" checked={includeVocabulary} disabled={!libraryItemId} onChange={(e) => setIncludeVocabulary(e.target.checked)} className="accent-blue-600" />
+        </label>
+
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        <div className="flex gap-2">
+          <button onClick={onClose} disabled={isExporting} className="ml-auto px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg disabled:opacity-40">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || (segments.length === 0 && !includeVocabulary)}
+            className="px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-40"
+          >
+            {isExporting ? 'Building…' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
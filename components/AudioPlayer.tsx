@@ -1,4 +1,14 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { PlaybackState, SequenceSettings, TranscriptionSegment } from '../types';
+import { formatTime } from '../services/formatUtils';
+import {
+  DEFAULT_SEQUENCE_SETTINGS,
+  SequencePosition,
+  clampLoopRange,
+  getNextSequencePosition,
+  getSequenceGapMs,
+  getSequenceStartIndex,
+} from '../services/sequencePlayback';
 
 interface AudioPlayerProps {
   audioUrl: string | null;
@@ -6,27 +16,295 @@ interface AudioPlayerProps {
   onTimeUpdate: (time: number) => void;
   onDurationChange?: (duration: number) => void;
   onEnterShadowing: () => void;
+  onEnterDictation?: () => void;
+  segments?: TranscriptionSegment[];
+  onSequenceSegmentChange?: (segment: TranscriptionSegment | null) => void;
+  onPlaybackChange?: (state: PlaybackState) => void; // reported from the media element, so gaps and loops count too
 }
 
-export const AudioPlayer: React.FC<AudioPlayerProps> = ({ 
+/**
+ * Commands other views can send to the player (e.g. clicking a word in the transcript).
+ */
+export interface AudioPlayerHandle {
+  playFrom: (time: number) => void;
+  loopRange: (start: number, end: number) => void;
+  stopLoop: () => void;
+}
+
+// Very short words are padded so a loop is still audible
+const MIN_LOOP_SECONDS = 0.3;
+
+// Subcomponent for Seq Play options
+const SequenceSettingsPanel = ({ settings, segments, onChange }: {
+  settings: SequenceSettings;
+  segments: TranscriptionSegment[];
+  onChange: (settings: SequenceSettings) => void;
+}) => {
+  const lastIndex = Math.max(0, segments.length - 1);
+  const stepper = (label: string, value: string, onDec: () => void, onInc: () => void) => (
+    <div className="flex items-center justify-between">
+      <span className="text-xs text-slate-500">{label}</span>
+      <div className="flex items-center gap-2">
+        <button onClick={onDec} className="w-6 h-6 rounded-full bg-slate-100 text-slate-600 hover:bg-slate-200">-</button>
+        <span className="text-xs font-mono font-bold text-slate-700 w-10 text-center">{value}</span>
+        <button onClick={onInc} className="w-6 h-6 rounded-full bg-slate-100 text-slate-600 hover:bg-slate-200">+</button>
+      </div>
+    </div>
+  );
+  const segmentLabel = (i: number) => `${i + 1}. ${segments[i].text.slice(0, 24)}`;
+
+  return (
+    <div className="mb-3 p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-3 animate-fade-in-up">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-500">Gap</span>
+        <div className="flex text-[11px] font-bold bg-slate-200 rounded-full p-0.5">
+          {(['fixed', 'proportional'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...settings, gapMode: mode })}
+              className={`px-2 py-0.5 rounded-full capitalize ${settings.gapMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings.gapMode === 'fixed'
+        ? stepper('Gap length', `${settings.gapSeconds}s`,
+            () => onChange({ ...settings, gapSeconds: Math.max(0, settings.gapSeconds - 1) }),
+            () => onChange({ ...settings, gapSeconds: Math.min(10, settings.gapSeconds + 1) }))
+        : stepper('Gap × segment', `${settings.gapFactor}×`,
+            () => onChange({ ...settings, gapFactor: Math.max(0.5, settings.gapFactor - 0.5) }),
+            () => onChange({ ...settings, gapFactor: Math.min(3, settings.gapFactor + 0.5) }))}
+
+      {stepper('Repeat each', `${settings.repeatCount}×`,
+        () => onChange({ ...settings, repeatCount: Math.max(1, settings.repeatCount - 1) }),
+        () => onChange({ ...settings, repeatCount: Math.min(10, settings.repeatCount + 1) }))}
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between text-xs text-slate-500">
+          <span>A-B loop</span>
+          <input
+            type="checkbox"
+            checked={!!settings.loopRange}
+            disabled={segments.length === 0}
+            onChange={(e) => onChange({ ...settings, loopRange: e.target.checked ? { from: 0, to: lastIndex } : null })}
+            className="accent-blue-600"
+          />
+        </label>
+        {settings.loopRange && (
+          <div className="flex items-center gap-2">
+            <select
+              value={settings.loopRange.from}
+              onChange={(e) => {
+                const from = Number(e.target.value);
+                onChange({ ...settings, loopRange: { from, to: Math.max(from, settings.loopRange!.to) } });
+              }}
+              className="flex-1 min-w-0 text-xs border border-slate-200 rounded-md p-1 bg-white"
+            >
+              {segments.map((_, i) => <option key={i} value={i}>A: {segmentLabel(i)}</option>)}
+            </select>
+            <select
+              value={settings.loopRange.to}
+              onChange={(e) => {
+                const to = Number(e.target.value);
+                onChange({ ...settings, loopRange: { from: Math.min(to, settings.loopRange!.from), to } });
+              }}
+              className="flex-1 min-w-0 text-xs border border-slate-200 rounded-md p-1 bg-white"
+            >
+              {segments.map((_, i) => <option key={i} value={i}>B: {segmentLabel(i)}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const AudioPlayer = React.forwardRef<AudioPlayerHandle, AudioPlayerProps>(({ 
   audioUrl, 
   currentTime, 
   onTimeUpdate,
   onDurationChange,
-  onEnterShadowing
-}) => {
+  onEnterShadowing,
+  onEnterDictation,
+  segments = [],
+  onSequenceSegmentChange,
+  onPlaybackChange
+}, ref) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1);
 
+  // Sequential study mode
+  const [seqSettings, setSeqSettings] = useState<SequenceSettings>(DEFAULT_SEQUENCE_SETTINGS);
+  const [showSeqSettings, setShowSeqSettings] = useState(false);
+  const [seqPosition, setSeqPosition] = useState<SequencePosition | null>(null);
+  const gapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const inGapRef = useRef(false);
+
+  const seqSegment = seqPosition ? segments[seqPosition.index] || null : null;
+
+  // Split and merge edits renumber segments, so an A-B range no longer means the same sentences
+  useEffect(() => {
+    setSeqSettings(settings => settings.loopRange ? { ...settings, loopRange: null } : settings);
+  }, [segments.length]);
+
+  // Short range looped on request (e.g. a long-pressed word)
+  const [loop, setLoop] = useState<{ start: number; end: number } | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    playFrom: (time: number) => {
+      if (seqPosition) stopSequence();
+      setLoop(null);
+      startAt(time);
+    },
+    loopRange: (start: number, end: number) => {
+      if (seqPosition) stopSequence();
+      const padding = Math.max(0, MIN_LOOP_SECONDS - (end - start)) / 2;
+      const range = { start: Math.max(0, start - padding), end: end + padding };
+      setLoop(range);
+      startAt(range.start);
+    },
+    stopLoop: () => {
+      setLoop(null);
+      audioRef.current?.pause();
+      setIsPlaying(false);
+    },
+  }));
+
+  useEffect(() => {
+    if (!loop || !isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio && (audio.currentTime >= loop.end || audio.currentTime < loop.start - 0.5)) {
+        audio.currentTime = loop.start;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [loop, isPlaying]);
+
+  const startAt = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    onTimeUpdate(time);
+    audioRef.current.play();
+    setIsPlaying(true);
+  };
+
+  useEffect(() => {
+    if (onSequenceSegmentChange) onSequenceSegmentChange(seqSegment);
+  }, [seqSegment]);
+
+  useEffect(() => {
+    return () => {
+      if (gapTimerRef.current) clearTimeout(gapTimerRef.current);
+    };
+  }, []);
+
   useEffect(() => {
     if (audioRef.current && Math.abs(audioRef.current.currentTime - currentTime) > 0.5) {
       audioRef.current.currentTime = currentTime;
+      setLoop(null);
+      // An outside seek (e.g. clicking a sentence) moves the sequence along with it
+      if (seqPosition) {
+        const index = segments.findIndex(s => currentTime >= s.start && currentTime < s.end);
+        if (index !== -1) {
+          clearGap();
+          playSegmentAt({ index, repeat: 0 });
+        } else {
+          stopSequence();
+        }
+      }
     }
   }, [currentTime]);
 
+  // Watch the playhead closely while a sequence segment is playing; timeupdate fires too rarely
+  useEffect(() => {
+    if (!seqPosition || !isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      const segment = segments[seqPosition.index];
+      if (audio && segment && !inGapRef.current && audio.currentTime >= segment.end) {
+        audio.pause();
+        inGapRef.current = true;
+        const next = getNextSequencePosition(seqPosition, seqSettings, segments.length);
+        if (!next) {
+          stopSequence();
+          return;
+        }
+        gapTimerRef.current = setTimeout(() => playSegmentAt(next), getSequenceGapMs(segment, seqSettings, playbackRate));
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [seqPosition, isPlaying, seqSettings, segments, playbackRate]);
+
+  const clearGap = () => {
+    if (gapTimerRef.current) {
+      clearTimeout(gapTimerRef.current);
+      gapTimerRef.current = null;
+    }
+    inGapRef.current = false;
+  };
+
+  const playSegmentAt = (position: SequencePosition) => {
+    const segment = segments[position.index];
+    if (!audioRef.current || !segment) return;
+    inGapRef.current = false;
+    audioRef.current.currentTime = segment.start;
+    onTimeUpdate(segment.start);
+    audioRef.current.play();
+    setIsPlaying(true);
+    setSeqPosition(position);
+  };
+
+  const stopSequence = () => {
+    clearGap();
+    setSeqPosition(null);
+    if (audioRef.current) audioRef.current.pause();
+    setIsPlaying(false);
+  };
+
+  const toggleSequence = () => {
+    setLoop(null);
+    if (seqPosition) {
+      stopSequence();
+      return;
+    }
+    if (segments.length === 0) return;
+    playSegmentAt({ index: getSequenceStartIndex(segments, currentTime, seqSettings), repeat: 0 });
+  };
+
+  const handleSeqSettingsChange = (changed: SequenceSettings) => {
+    const settings = { ...changed, loopRange: clampLoopRange(changed.loopRange, segments.length) };
+    setSeqSettings(settings);
+    // Jump into a newly chosen loop range right away
+    if (seqPosition && settings.loopRange && (seqPosition.index < settings.loopRange.from || seqPosition.index > settings.loopRange.to)) {
+      clearGap();
+      playSegmentAt({ index: settings.loopRange.from, repeat: 0 });
+    }
+  };
+
   const togglePlay = () => {
+    if (seqPosition) {
+      if (isPlaying) {
+        clearGap();
+        audioRef.current?.pause();
+        setIsPlaying(false);
+      } else {
+        playSegmentAt({ ...seqPosition });
+      }
+      return;
+    }
     if (audioRef.current) {
       if (isPlaying) {
         audioRef.current.pause();
@@ -53,10 +331,8 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     }
   };
 
-  const formatTime = (time: number) => {
-    const min = Math.floor(time / 60);
-    const sec = Math.floor(time % 60);
-    return `${min}:${sec < 10 ? '0' : ''}${sec}`;
+  const reportPlayback = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+    if (onPlaybackChange) onPlaybackChange({ playing: !e.currentTarget.paused, rate: e.currentTarget.playbackRate });
   };
 
   return (
@@ -66,14 +342,24 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           ref={audioRef}
           src={audioUrl}
           onTimeUpdate={handleTimeUpdate}
+          onPlay={reportPlayback}
+          onPause={reportPlayback}
+          onRateChange={reportPlayback}
           onLoadedMetadata={(e) => {
               setDuration(e.currentTarget.duration);
               if (onDurationChange) onDurationChange(e.currentTarget.duration);
           }}
-          onEnded={() => setIsPlaying(false)}
+          onEnded={() => {
+              if (seqPosition) stopSequence();
+              setIsPlaying(false);
+          }}
         />
       )}
       
+      {showSeqSettings && (
+        <SequenceSettingsPanel settings={seqSettings} segments={segments} onChange={handleSeqSettingsChange} />
+      )}
+
       {/* Function Bar */}
       <div className="flex items-center justify-between mb-4 px-2 pt-2">
          <button onClick={changeSpeed} className="flex items-center gap-1 text-xs font-semibold text-slate-600 bg-slate-100 px-3 py-1.5 rounded-full hover:bg-slate-200">
@@ -81,9 +367,29 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
          </button>
          
          <div className="flex items-center gap-3">
-            <button className="text-xs font-semibold text-slate-400 hover:text-blue-600 px-2">
-                Seq Play
-            </button>
+            <div className="flex items-center">
+                <button
+                    onClick={toggleSequence}
+                    disabled={segments.length === 0}
+                    className={`text-xs font-semibold px-2 ${seqPosition ? 'text-blue-600' : 'text-slate-400 hover:text-blue-600'}`}
+                >
+                    {seqPosition
+                        ? `Seq ${seqPosition.index + 1}/${segments.length}${seqSettings.repeatCount > 1 ? ` ·${seqPosition.repeat + 1}` : ''}`
+                        : 'Seq Play'}
+                </button>
+                <button
+                    onClick={() => setShowSeqSettings(!showSeqSettings)}
+                    className={`p-1 ${showSeqSettings ? 'text-blue-600' : 'text-slate-300 hover:text-slate-500'}`}
+                    title="Seq Play options"
+                >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+                </button>
+            </div>
+            {onEnterDictation && (
+                <button onClick={onEnterDictation} className="text-xs font-semibold text-slate-400 hover:text-blue-600 px-2">
+                    Dictate
+                </button>
+            )}
             <button onClick={onEnterShadowing} className="flex items-center gap-1 text-xs font-bold text-white bg-blue-600 px-3 py-1.5 rounded-full shadow-md hover:bg-blue-700 active:scale-95 transition">
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
                 Shadow
@@ -101,6 +407,8 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           value={currentTime}
           onChange={(e) => {
             const time = Number(e.target.value);
+            if (seqPosition) stopSequence();
+            setLoop(null);
             if (audioRef.current) audioRef.current.currentTime = time;
             onTimeUpdate(time);
           }}
@@ -113,7 +421,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
       {/* Main Controls */}
       <div className="flex items-center justify-center gap-10">
          <button 
-           onClick={() => { if(audioRef.current) audioRef.current.currentTime -= 5; }}
+           onClick={() => { if (seqPosition) stopSequence(); if(audioRef.current) audioRef.current.currentTime -= 5; }}
            className="text-slate-400 hover:text-slate-800"
          >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
@@ -131,7 +439,7 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
          </button>
 
          <button 
-            onClick={() => { if(audioRef.current) audioRef.current.currentTime += 5; }}
+            onClick={() => { if (seqPosition) stopSequence(); if(audioRef.current) audioRef.current.currentTime += 5; }}
             className="text-slate-400 hover:text-slate-800"
          >
             <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
@@ -139,4 +447,4 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+});
@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { TranscriptionSegment, DictationResult, WordDiffEntry } from '../types';
+import { decodeAudioBlob, playAudioBufferRange, stopAudioBufferRange } from '../services/audioUtils';
+import { compareDictation } from '../services/textDiff';
+
+const SLOW_REPLAY_RATE = 0.75;
+
+interface DictationViewProps {
+  segments: TranscriptionSegment[];
+  audioFile: Blob;
+  initialIndex?: number;
+  onAttempt?: (segment: TranscriptionSegment, result: DictationResult) => void;
+  onClose: () => void;
+}
+
+// Subcomponent rendering one compared word
+const DiffWord = ({ entry }: { entry: WordDiffEntry }) => {
+  switch (entry.kind) {
+    case 'correct':
+      return <span className="text-green-700">{entry.expected}</span>;
+    case 'wrong':
+      return (
+        <span title={`You typed "${entry.actual}"`}>
+          <span className="text-orange-500 line-through mr-1">{entry.actual}</span>
+          <span className="text-red-500 font-bold">{entry.expected}</span>
+        </span>
+      );
+    case 'missed':
+      return <span className="text-red-500 underline decoration-dotted" title="Missed">{entry.expected}</span>;
+    case 'extra':
+      return <span className="text-orange-500 line-through" title="Extra">{entry.actual}</span>;
+    case 'misspelled':
+      return (
+        <span className="bg-yellow-50 rounded px-0.5" title={`You typed "${entry.actual}"`}>
+          {entry.chars?.map((c, i) => (
+            <span
+              key={i}
+              className={c.type === 'same' ? 'text-slate-800' : c.type === 'removed' ? 'text-red-500 font-bold underline' : 'text-orange-500 line-through'}
+            >
+              {c.text}
+            </span>
+          ))}
+        </span>
+      );
+  }
+};
+
+export const DictationView: React.FC<DictationViewProps> = ({ segments, audioFile, initialIndex = 0, onAttempt, onClose }) => {
+  const [currentIndex, setCurrentIndex] = useState(() => Math.min(initialIndex, Math.max(0, segments.length - 1)));
+  const [sourceBuffer, setSourceBuffer] = useState<AudioBuffer | null>(null);
+  const [typed, setTyped] = useState('');
+  const [results, setResults] = useState<Record<number, DictationResult>>({});
+  const [showSummary, setShowSummary] = useState(false);
+
+  const currentSegment = segments[currentIndex];
+  const result = results[currentIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeAudioBlob(audioFile)
+      .then(buffer => { if (!cancelled) setSourceBuffer(buffer); })
+      .catch(e => console.error("Failed to decode source audio", e));
+    return () => {
+      cancelled = true;
+      stopAudioBufferRange();
+    };
+  }, [audioFile]);
+
+  const play = (playbackRate = 1) => {
+    if (!sourceBuffer) return;
+    playAudioBufferRange(sourceBuffer, currentSegment.start, currentSegment.end, playbackRate).catch(e => console.error(e));
+  };
+
+  // Each new segment plays once automatically
+  useEffect(() => {
+    if (sourceBuffer && !results[currentIndex]) play();
+  }, [currentIndex, sourceBuffer]);
+
+  const handleCheck = () => {
+    const checked = compareDictation(currentSegment.text, typed);
+    setResults(prev => ({ ...prev, [currentIndex]: checked }));
+    if (onAttempt) onAttempt(currentSegment, checked);
+  };
+
+  const goTo = (index: number) => {
+    stopAudioBufferRange();
+    setCurrentIndex(index);
+    setTyped('');
+  };
+
+  const handleNext = () => {
+    if (currentIndex < segments.length - 1) goTo(currentIndex + 1);
+    else setShowSummary(true);
+  };
+
+  const attempted = Object.entries(results).map(([index, r]) => ({ index: Number(index), result: r }));
+  const averageAccuracy = attempted.length > 0
+    ? Math.round(attempted.reduce((sum, a) => sum + a.result.accuracy, 0) / attempted.length)
+    : 0;
+  const hardest = [...attempted]
+    .map(a => ({ ...a, missed: a.result.entries.filter(e => e.kind !== 'correct' && e.kind !== 'extra').length }))
+    .filter(a => a.missed > 0)
+    .sort((a, b) => b.missed - a.missed || a.result.accuracy - b.result.accuracy)
+    .slice(0, 5);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Dictation</h2>
+        <button
+          onClick={() => setShowSummary(!showSummary)}
+          disabled={attempted.length === 0}
+          className="text-xs font-bold text-blue-600 disabled:text-slate-300"
+        >
+          {showSummary ? 'Back' : 'Summary'}
+        </button>
+      </div>
+
+      {showSummary ? (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="bg-white rounded-2xl shadow-xl p-6 text-center border-t-4 border-blue-500">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">Average Accuracy</p>
+            <p className="text-5xl font-bold text-slate-800 mt-2">{averageAccuracy}</p>
+            <p className="text-xs text-slate-400 mt-2">{attempted.length} of {segments.length} segments</p>
+          </div>
+
+          {hardest.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-3">Most Missed</h3>
+              <ul className="space-y-2">
+                {hardest.map(({ index, result: r, missed }) => (
+                  <li
+                    key={index}
+                    onClick={() => { goTo(index); setShowSummary(false); }}
+                    className="bg-white rounded-xl p-3 border border-slate-100 shadow-sm cursor-pointer hover:shadow-md"
+                  >
+                    <div className="flex justify-between text-xs mb-1">
+                      <span className="font-mono text-slate-400">#{index + 1}</span>
+                      <span className="font-bold text-red-500">{missed} missed · {r.accuracy}%</span>
+                    </div>
+                    <p className="text-sm text-slate-700">{segments[index].text}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Playback */}
+          <div className="flex items-center justify-center gap-4">
+            <button
+              onClick={() => play()}
+              disabled={!sourceBuffer}
+              className="w-14 h-14 rounded-full bg-blue-600 text-white flex items-center justify-center shadow-lg hover:bg-blue-700 disabled:opacity-50"
+              title="Replay"
+            >
+              <svg className="w-6 h-6 pl-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+            </button>
+            <button
+              onClick={() => play(SLOW_REPLAY_RATE)}
+              disabled={!sourceBuffer}
+              className="px-4 py-2 rounded-full bg-white border border-slate-200 text-xs font-bold text-slate-600 hover:text-blue-600 disabled:opacity-50"
+            >
+              Slow {SLOW_REPLAY_RATE}×
+            </button>
+          </div>
+
+          <textarea
+            autoFocus
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                if (result) handleNext();
+                // Same as the disabled Check button: an empty answer isn't scored as all missed
+                else if (typed.trim()) handleCheck();
+              }
+            }}
+            rows={4}
+            placeholder="Type what you hear..."
+            className="w-full text-base text-slate-800 border border-slate-200 rounded-xl p-4 focus:outline-none focus:ring-2 focus:ring-blue-200 bg-white"
+          />
+
+          {result && (
+            <div className={`w-full p-4 rounded-xl animate-fade-in-up ${result.accuracy >= 80 ? 'bg-green-50 border border-green-200' : 'bg-orange-50 border border-orange-200'}`}>
+              <div className="flex justify-between items-center mb-3">
+                <span className="text-sm font-bold uppercase text-slate-500">Accuracy</span>
+                <span className={`text-2xl font-bold ${result.accuracy >= 80 ? 'text-green-600' : 'text-orange-600'}`}>{result.accuracy}</span>
+              </div>
+              <p className="text-base leading-relaxed flex flex-wrap gap-x-1.5">
+                {result.entries.map((entry, i) => <DiffWord key={i} entry={entry} />)}
+              </p>
+              <p className="text-sm text-slate-500 mt-3">{currentSegment.translation}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Bottom Controls */}
+      {!showSummary && (
+        <div className="bg-white border-t border-slate-100 p-6 pb-10">
+          <div className="flex items-center justify-between">
+            <button
+              onClick={() => goTo(currentIndex - 1)}
+              disabled={currentIndex === 0}
+              className="text-slate-400 hover:text-slate-600 disabled:opacity-30"
+            >
+              Prev
+            </button>
+            <span className="text-xs text-slate-400 font-mono">{currentIndex + 1} / {segments.length}</span>
+            {result ? (
+              <button onClick={handleNext} className="px-6 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 transition">
+                {currentIndex < segments.length - 1 ? 'Next' : 'Finish'}
+              </button>
+            ) : (
+              <button
+                onClick={handleCheck}
+                disabled={!typed.trim()}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition disabled:opacity-40"
+              >
+                Check
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
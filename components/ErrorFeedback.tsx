@@ -0,0 +1,99 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { AiError, toAiError } from '../services/errors';
+
+const TOAST_DURATION_MS = 6000;
+
+interface Toast {
+  id: number;
+  error: AiError;
+  retry?: () => void;
+}
+
+interface ToastContextValue {
+  // `retry` is offered only when the error is retryable
+  showError: (error: unknown, retry?: () => void) => void;
+}
+
+const ToastContext = createContext<ToastContextValue>({ showError: () => {} });
+
+export const useToast = () => useContext(ToastContext);
+
+/**
+ * Hosts transient error toasts for actions that have no natural place for an inline error.
+ */
+export const ToastProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextIdRef = useRef(0);
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+
+  const dismiss = useCallback((id: number) => {
+    clearTimeout(timersRef.current.get(id));
+    timersRef.current.delete(id);
+    setToasts(prev => prev.filter(t => t.id !== id));
+  }, []);
+
+  const showError = useCallback((error: unknown, retry?: () => void) => {
+    const id = nextIdRef.current++;
+    const aiError = toAiError(error);
+    // The same failure repeated (e.g. several prefetches) shows once
+    setToasts(prev => [...prev.filter(t => t.error.kind !== aiError.kind), { id, error: aiError, retry }]);
+    timersRef.current.set(id, setTimeout(() => dismiss(id), TOAST_DURATION_MS));
+  }, [dismiss]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach(clearTimeout);
+  }, []);
+
+  return (
+    <ToastContext.Provider value={{ showError }}>
+      {children}
+      <div className="fixed top-4 inset-x-0 z-[60] flex flex-col items-center gap-2 px-4 pointer-events-none">
+        {toasts.map(t => (
+          <div key={t.id} className="w-full max-w-sm bg-slate-800 text-white rounded-xl shadow-2xl px-4 py-3 flex items-start gap-3 pointer-events-auto animate-fade-in-up">
+            <svg className="w-5 h-5 text-red-400 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-bold">{t.error.title}</p>
+              <p className="text-xs text-slate-300 break-words">{t.error.userMessage}</p>
+            </div>
+            {t.retry && t.error.retryable && (
+              <button
+                onClick={() => { dismiss(t.id); t.retry!(); }}
+                className="text-xs font-bold text-blue-300 hover:text-blue-200 shrink-0 mt-0.5"
+              >
+                Retry
+              </button>
+            )}
+            <button onClick={() => dismiss(t.id)} className="text-slate-400 hover:text-white shrink-0" title="Dismiss">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+interface InlineErrorProps {
+  error: AiError;
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Failure state shown in place of a per-segment action's result.
+ */
+export const InlineError: React.FC<InlineErrorProps> = ({ error, onRetry, className = '' }) => (
+  <div className={`flex items-center gap-1.5 text-xs text-red-600 animate-fade-in-up ${className}`} title={error.userMessage}>
+    <svg className="w-3.5 h-3.5 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+    <span className="font-medium">{error.title}</span>
+    {onRetry && error.retryable && (
+      <button
+        onClick={(e) => { e.stopPropagation(); onRetry(); }}
+        className="font-bold underline underline-offset-2 hover:text-red-700"
+      >
+        Retry
+      </button>
+    )}
+  </div>
+);
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { SubtitleFormat, exportSubtitles } from '../services/subtitles';
+import { downloadBlob, baseName } from '../services/downloadUtils';
+
+interface ExportDialogProps {
+  segments: TranscriptionSegment[];
+  fileName: string; // source audio name, used for the export file name
+  onClose: () => void;
+}
+
+const FORMATS: { format: SubtitleFormat; label: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+  { format: 'ass', label: 'ASS', mimeType: 'text/x-ssa' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ segments, fileName, onClose }) => {
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [includeTranslation, setIncludeTranslation] = useState(false);
+  const [includeIdiomatic, setIncludeIdiomatic] = useState(false);
+
+  const handleExport = () => {
+    const content = exportSubtitles(segments, format, { includeTranslation, includeIdiomatic });
+    const mimeType = FORMATS.find(f => f.format === format)!.mimeType;
+    downloadBlob(new Blob([content], { type: `${mimeType};charset=utf-8` }), `${baseName(fileName)}.${format}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
+      <div className="absolute inset-0 bg-black/20 pointer-events-auto" onClick={onClose}></div>
+      <div className="bg-white w-full sm:w-96 p-6 rounded-t-2xl sm:rounded-2xl shadow-2xl relative pointer-events-auto animate-fade-in-up space-y-5">
+        <h4 className="text-lg font-bold text-slate-800">Export Subtitles</h4>
+
+        <div className="flex gap-2">
+          {FORMATS.map(f => (
+            <button
+              key={f.format}
+              onClick={() => setFormat(f.format)}
+              className={`flex-1 py-2 rounded-lg text-sm font-bold border transition ${format === f.format ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Include translation</span>
+            <input type="checkbox" checked={includeTranslation} onChange={(e) => setIncludeTranslation(e.target.checked)} className="accent-blue-600" />
+          </label>
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Include idiomatic line</span>
+            <input type="checkbox" checked={includeIdiomatic} onChange={(e) => setIncludeIdiomatic(e.target.checked)} className="accent-blue-600" />
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="ml-auto px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">Cancel</button>
+          <button onClick={handleExport} className="px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg">Download</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,31 @@
 import React, { useCallback, useState } from 'react';
 import { AppState } from '../types';
+import { SUBTITLE_FILE_PATTERN } from '../services/subtitles';
+import { isVideoFile } from '../services/audioUtils';
+
+// Long files are decoded in the browser before chunked transcription, which bounds what we accept
+const MAX_FILE_SIZE_MB = 300;
 
 interface FileUploadProps {
-  onFileSelected: (file: File) => void;
+  onFileSelected: (file: File, subtitleFile?: File) => void;
   appState: AppState;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState }) => {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
+
+  const handleSubtitleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    setErrorMsg(null);
+    if (!file) return;
+    if (SUBTITLE_FILE_PATTERN.test(file.name)) {
+      setSubtitleFile(file);
+    } else {
+      setErrorMsg("Please select an .srt or .vtt subtitle file.");
+    }
+  };
 
   const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -17,20 +35,23 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState
       // Logic to handle "special suffixes" or mime types
       // While we can't fully emulate the Android "WeChat folder" scan in a browser due to sandboxing,
       // we can be permissive about file extensions.
-      const validAudioTypes = ['audio/', 'application/ogg', 'video/mp4', 'video/webm']; // broad check
+      const validAudioTypes = ['audio/', 'application/ogg']; // broad check
       const fileName = file.name.toLowerCase();
       
       // Heuristic: If it has an audio extension or looks like a renamed file (apk.1 mentioned in requirements)
       const isAudioByName = /\.(mp3|wav|flac|m4a|aac|ogg|apk\.1)$/.test(fileName);
       const isAudioByMime = validAudioTypes.some(type => file.type.startsWith(type));
 
-      if (isAudioByMime || isAudioByName) {
-        onFileSelected(file);
+      // Videos are accepted too; their audio track is extracted before transcription
+      if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+        setErrorMsg(`File is too large (max ${MAX_FILE_SIZE_MB} MB).`);
+      } else if (isAudioByMime || isAudioByName || isVideoFile(file)) {
+        onFileSelected(file, subtitleFile || undefined);
       } else {
-        setErrorMsg("Please select a valid audio file (MP3, WAV, FLAC, M4A).");
+        setErrorMsg("Please select a valid audio or video file (MP3, WAV, FLAC, M4A, MP4, WebM, MOV).");
       }
     }
-  }, [onFileSelected]);
+  }, [onFileSelected, subtitleFile]);
 
   return (
     <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-slate-300 rounded-xl bg-slate-50 hover:bg-slate-100 transition-colors h-64">
@@ -41,8 +62,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState
           </svg>
         </div>
         <div>
-          <h3 className="text-lg font-semibold text-slate-800">Import Audio</h3>
-          <p className="text-sm text-slate-500 mt-1">Supports MP3, WAV, FLAC, M4A</p>
+          <h3 className="text-lg font-semibold text-slate-800">Import Audio or Video</h3>
+          <p className="text-sm text-slate-500 mt-1">Supports MP3, WAV, FLAC, M4A, MP4, WebM, MOV</p>
         </div>
         
         <label className={`cursor-pointer inline-flex items-center px-6 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${appState === AppState.PROCESSING ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'} focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}>
@@ -50,12 +71,25 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState
           <input 
             type="file" 
             className="hidden" 
-            accept="audio/*,.mp3,.wav,.flac,.m4a,.apk.1"
+            accept="audio/*,video/mp4,video/webm,video/quicktime,.mp3,.wav,.flac,.m4a,.mp4,.m4v,.webm,.mov,.apk.1"
             onChange={handleInputChange}
             disabled={appState === AppState.PROCESSING}
           />
         </label>
 
+        {/* Optional subtitles: skips AI transcription and only fills translations */}
+        {subtitleFile ? (
+          <div className="flex items-center justify-center gap-2 text-xs text-slate-600">
+            <span className="bg-white border border-slate-200 rounded-full px-3 py-1 truncate max-w-[12rem]">{subtitleFile.name}</span>
+            <button onClick={() => setSubtitleFile(null)} className="text-slate-400 hover:text-red-500" title="Remove subtitles">✕</button>
+          </div>
+        ) : (
+          <label className="block text-xs font-medium text-blue-600 hover:underline cursor-pointer">
+            + Pair with subtitles (.srt / .vtt)
+            <input type="file" className="hidden" accept=".srt,.vtt" onChange={handleSubtitleChange} disabled={appState === AppState.PROCESSING} />
+          </label>
+        )}
+
         {errorMsg && (
           <p className="text-red-500 text-xs mt-2">{errorMsg}</p>
         )}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { LanguageSettings } from '../types';
+import { SOURCE_LANGUAGES, TRANSLATION_LANGUAGES, getSourceLanguage, getIdiomVariety } from '../services/languages';
+
+interface LanguageSettingsPickerProps {
+  settings: LanguageSettings;
+  onChange: (settings: LanguageSettings) => void;
+  disabled?: boolean;
+}
+
+const selectClassName = "w-full text-sm text-slate-800 bg-white border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:opacity-50";
+
+export const LanguageSettingsPicker: React.FC<LanguageSettingsPickerProps> = ({ settings, onChange, disabled }) => {
+  const source = getSourceLanguage(settings.sourceLanguage);
+
+  // Switching language resets the variety to that language's default
+  const handleSourceChange = (code: string) => {
+    onChange({ ...settings, sourceLanguage: code, idiomVariety: getSourceLanguage(code).varieties[0].code });
+  };
+
+  return (
+    <div className="mb-6 grid grid-cols-3 gap-2">
+      <label className="block">
+        <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wide">Audio</span>
+        <select value={source.code} onChange={(e) => handleSourceChange(e.target.value)} disabled={disabled} className={selectClassName}>
+          {SOURCE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wide">Idioms</span>
+        <select
+          value={getIdiomVariety(settings).code}
+          onChange={(e) => onChange({ ...settings, idiomVariety: e.target.value })}
+          disabled={disabled || source.varieties.length < 2}
+          className={selectClassName}
+        >
+          {source.varieties.map(v => <option key={v.code} value={v.code}>{v.flag} {v.name}</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wide">Translate to</span>
+        <select
+          value={settings.translationLanguage}
+          onChange={(e) => onChange({ ...settings, translationLanguage: e.target.value })}
+          disabled={disabled}
+          className={selectClassName}
+        >
+          {TRANSLATION_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.name}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { LibraryItem } from '../types';
+import { listLibraryItems, updateLibraryItem, deleteLibraryItem } from '../services/libraryService';
+import { formatTime, formatDate } from '../services/formatUtils';
+
+interface LibraryViewProps {
+  onOpen: (item: LibraryItem) => void;
+}
+
+export const LibraryView: React.FC<LibraryViewProps> = ({ onOpen }) => {
+  const [items, setItems] = useState<LibraryItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  useEffect(() => {
+    listLibraryItems()
+      .then(setItems)
+      .catch(err => console.error("Failed to load library", err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startRename = (e: React.MouseEvent, item: LibraryItem) => {
+    e.stopPropagation();
+    setRenamingId(item.id);
+    setDraftName(item.name);
+  };
+
+  const commitRename = async () => {
+    const id = renamingId;
+    const name = draftName.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+    try {
+      await updateLibraryItem(id, { name });
+      setItems(prev => prev.map(item => item.id === id ? { ...item, name } : item));
+    } catch (err) { console.error(err); }
+  };
+
+  const handleDelete = async (e: React.MouseEvent, item: LibraryItem) => {
+    e.stopPropagation();
+    if (!window.confirm(`Delete "${item.name}" and its transcript?`)) return;
+    try {
+      await deleteLibraryItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (err) { console.error(err); }
+  };
+
+  if (isLoading || items.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-3 px-1">Library</h3>
+      <ul className="space-y-2">
+        {items.map(item => (
+          <li
+            key={item.id}
+            onClick={() => renamingId !== item.id && onOpen(item)}
+            className="bg-white rounded-xl p-3 border border-slate-100 shadow-sm hover:shadow-md transition cursor-pointer flex items-center gap-3"
+          >
+            <div className="flex-1 min-w-0">
+              {renamingId === item.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="w-full text-sm font-semibold text-slate-800 border-b border-blue-400 focus:outline-none"
+                />
+              ) : (
+                <p className="text-sm font-semibold text-slate-800 truncate">{item.name}</p>
+              )}
+              <div className="flex items-center gap-3 text-[11px] text-slate-400 mt-1">
+                <span className="font-mono">{formatTime(item.duration)}</span>
+                <span>Opened {formatDate(item.lastOpenedAt)}</span>
+              </div>
+            </div>
+
+            <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full text-[11px] font-bold">
+              {item.transcription.meta?.estimatedLevel || '—'}
+            </span>
+
+            <button onClick={(e) => startRename(e, item)} className="p-1 text-slate-300 hover:text-slate-600" title="Rename">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+            </button>
+            <button onClick={(e) => handleDelete(e, item)} className="p-1 text-slate-300 hover:text-red-500" title="Delete">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { SegmentNote, TranscriptionSegment } from '../types';
+import { formatTime } from '../services/formatUtils';
+import { wordSpans } from '../services/tokenizer';
+
+interface NoteEditorProps {
+  segment: TranscriptionSegment;
+  note?: SegmentNote; // existing note when editing
+  onSave: (note: SegmentNote) => void;
+  onDelete?: (note: SegmentNote) => void;
+  onClose: () => void;
+}
+
+type WordRange = { start: number; end: number };
+
+export const NoteEditor: React.FC<NoteEditorProps> = ({ segment, note, onSave, onDelete, onClose }) => {
+  const [text, setText] = useState(note?.text || '');
+  const [range, setRange] = useState<WordRange | null>(note?.wordRange || null);
+  const spans = wordSpans(segment.text);
+  const words = spans.map(span => span.text);
+
+  // First click picks a word, a second click on another word extends it to a range.
+  const handleWordClick = (index: number) => {
+    if (!range) {
+      setRange({ start: index, end: index });
+    } else if (range.start === range.end && index === range.start) {
+      setRange(null);
+    } else if (range.start === range.end) {
+      setRange({ start: Math.min(range.start, index), end: Math.max(range.start, index) });
+    } else {
+      setRange({ start: index, end: index });
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    const now = Date.now();
+    onSave({
+      id: note?.id || crypto.randomUUID(),
+      segmentStart: segment.start,
+      wordRange: range || undefined,
+      quote: range ? segment.text.slice(spans[range.start].start, spans[range.end].end) : segment.text,
+      text: trimmed,
+      createdAt: note?.createdAt || now,
+      updatedAt: now,
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
+      <div className="absolute inset-0 bg-black/20 pointer-events-auto" onClick={onClose}></div>
+      <div className="bg-white w-full sm:w-96 p-6 rounded-t-2xl sm:rounded-2xl shadow-2xl relative pointer-events-auto animate-fade-in-up">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="text-lg font-bold text-slate-800">{note ? 'Edit Note' : 'Add Note'}</h4>
+          <span className="text-xs font-mono text-slate-400">{formatTime(segment.start)}</span>
+        </div>
+
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-1">Tap words to annotate a phrase</p>
+        <p className="text-sm text-slate-600 leading-relaxed mb-4 break-words">
+          {words.map((word, wIndex) => {
+            const isSelected = !!range && wIndex >= range.start && wIndex <= range.end;
+            return (
+              <span
+                key={wIndex}
+                onClick={() => handleWordClick(wIndex)}
+                className={`cursor-pointer mx-0.5 px-0.5 rounded ${isSelected ? 'bg-yellow-200 text-slate-900' : 'hover:bg-slate-100'}`}
+              >
+                {word}
+              </span>
+            );
+          })}
+        </p>
+
+        <textarea
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={4}
+          placeholder="Write your note..."
+          className="w-full text-sm text-slate-700 border border-slate-200 rounded-lg p-3 focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+
+        <div className="flex items-center gap-2 mt-4">
+          {note && onDelete && (
+            <button
+              onClick={() => { onDelete(note); onClose(); }}
+              className="px-4 py-2 text-sm font-medium text-red-500 hover:bg-red-50 rounded-lg"
+            >
+              Delete
+            </button>
+          )}
+          <button onClick={onClose} className="ml-auto px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!text.trim()}
+            className="px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { SegmentNote, TranscriptionSegment } from '../types';
+import { NoteEditor } from './NoteEditor';
+import { formatTime } from '../services/formatUtils';
+
+interface NotesViewProps {
+  notes: SegmentNote[];
+  segments: TranscriptionSegment[];
+  onSeek: (time: number) => void;
+  onSaveNote: (note: SegmentNote) => void;
+  onDeleteNote: (note: SegmentNote) => void;
+}
+
+export const NotesView: React.FC<NotesViewProps> = ({ notes, segments, onSeek, onSaveNote, onDeleteNote }) => {
+  const [editingNote, setEditingNote] = useState<SegmentNote | null>(null);
+
+  if (notes.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-slate-400 gap-2 px-8 text-center">
+        <svg className="w-12 h-12 text-slate-200" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+        <p>No notes yet.</p>
+        <p className="text-xs">Use the pencil on any sentence to add one.</p>
+      </div>
+    );
+  }
+
+  const sortedNotes = [...notes].sort((a, b) => a.segmentStart - b.segmentStart || a.createdAt - b.createdAt);
+  const editingSegment = editingNote && segments.find(s => s.start === editingNote.segmentStart);
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-3 pb-40 no-scrollbar">
+      {sortedNotes.map(note => (
+        <div
+          key={note.id}
+          onClick={() => onSeek(note.segmentStart)}
+          className="bg-white rounded-xl p-4 border border-slate-100 shadow-sm hover:shadow-md transition cursor-pointer"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-mono text-blue-600 bg-blue-50 px-2 py-0.5 rounded-full">{formatTime(note.segmentStart)}</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={(e) => { e.stopPropagation(); setEditingNote(note); }}
+                disabled={!segments.some(s => s.start === note.segmentStart)}
+                className="p-1 text-slate-300 hover:text-slate-600 disabled:opacity-30"
+                title="Edit"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDeleteNote(note); }}
+                className="p-1 text-slate-300 hover:text-red-500"
+                title="Delete"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-slate-500 italic border-l-2 border-yellow-300 pl-2 mb-2 break-words">"{note.quote}"</p>
+          <p className="text-sm text-slate-800 whitespace-pre-wrap break-words">{note.text}</p>
+        </div>
+      ))}
+
+      {editingNote && editingSegment && (
+        <NoteEditor
+          segment={editingSegment}
+          note={editingNote}
+          onSave={onSaveNote}
+          onDelete={onDeleteNote}
+          onClose={() => setEditingNote(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PodcastChapter, PodcastEpisode, PodcastFeed, SavedFeed } from '../types';
+import { parseFeedFile, getSubtitleTranscript } from '../services/feedParser';
+import { downloadEpisode, downloadEpisodeTranscript, fetchFeed, loadChapters, loadSavedFeeds, mergeFeeds, saveFeeds } from '../services/podcasts';
+import { formatTime, formatDate } from '../services/formatUtils';
+
+interface PodcastViewProps {
+  onClose: () => void;
+  onImport: (file: File, subtitleFile?: File) => void; // hands the episode to the transcription flow
+}
+
+interface DownloadState {
+  episodeId: string;
+  received: number;
+  total?: number;
+}
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+/**
+ * Podcast subscriptions: add feeds by URL or from an OPML/RSS file, browse episodes and
+ * import one straight into transcription, with the feed's transcript when it has one.
+ */
+export const PodcastView: React.FC<PodcastViewProps> = ({ onClose, onImport }) => {
+  const [feeds, setFeeds] = useState<SavedFeed[]>(loadSavedFeeds);
+  const [urlDraft, setUrlDraft] = useState('');
+  const [feed, setFeed] = useState<PodcastFeed | null>(null);
+  const [loadingUrl, setLoadingUrl] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [useTranscripts, setUseTranscripts] = useState(true);
+  const [download, setDownload] = useState<DownloadState | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [chapters, setChapters] = useState<Record<string, PodcastChapter[]>>({});
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const updateFeeds = (next: SavedFeed[]) => {
+    setFeeds(next);
+    saveFeeds(next);
+  };
+
+  const openFeed = async (url: string) => {
+    setErrorMsg(null);
+    setNotice(null);
+    setLoadingUrl(url);
+    try {
+      const loaded = await fetchFeed(url);
+      setFeed(loaded);
+      setExpandedId(null);
+      updateFeeds(mergeFeeds(feeds, [{ url, title: loaded.title }]));
+    } catch (e) {
+      console.error("Failed to load feed", e);
+      setErrorMsg(errorMessage(e));
+    } finally {
+      setLoadingUrl(null);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = urlDraft.trim();
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      setErrorMsg("Enter the feed's http(s) address.");
+      return;
+    }
+    setUrlDraft('');
+    openFeed(url);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setErrorMsg(null);
+    setNotice(null);
+    try {
+      const result = parseFeedFile(await file.text());
+      if (result.kind === 'opml') {
+        updateFeeds(mergeFeeds(feeds, result.feeds));
+        setNotice(`Added ${result.feeds.length} feed${result.feeds.length === 1 ? '' : 's'} from ${file.name}.`);
+      } else {
+        setFeed(result.feed);
+        setExpandedId(null);
+        if (result.feed.url) updateFeeds(mergeFeeds(feeds, [{ url: result.feed.url, title: result.feed.title }]));
+      }
+    } catch (e) {
+      console.error("Failed to read feed file", e);
+      setErrorMsg(errorMessage(e));
+    }
+  };
+
+  const handleRemoveFeed = (e: React.MouseEvent, url: string) => {
+    e.stopPropagation();
+    updateFeeds(feeds.filter(f => f.url !== url));
+  };
+
+  const handleToggleChapters = async (episode: PodcastEpisode) => {
+    if (expandedId === episode.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(episode.id);
+    if (chapters[episode.id]) return;
+    try {
+      const loaded = await loadChapters(episode);
+      setChapters(prev => ({ ...prev, [episode.id]: loaded }));
+    } catch (e) {
+      console.error("Failed to load chapters", e);
+      setErrorMsg(errorMessage(e));
+    }
+  };
+
+  const handleImport = async (episode: PodcastEpisode) => {
+    if (download) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setErrorMsg(null);
+    setDownload({ episodeId: episode.id, received: 0 });
+    try {
+      // A missing or broken transcript only means the AI transcribes the episode instead
+      const subtitleFile = useTranscripts
+        ? await downloadEpisodeTranscript(episode, controller.signal).catch(e => {
+            if (controller.signal.aborted) throw e;
+            console.error("Failed to download transcript", e);
+            return undefined;
+          })
+        : undefined;
+      const file = await downloadEpisode(episode, (received, total) => setDownload({ episodeId: episode.id, received, total }), controller.signal);
+      onImport(file, subtitleFile);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      console.error("Failed to download episode", e);
+      setErrorMsg(errorMessage(e));
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setDownload(null);
+    }
+  };
+
+  const handleCancelDownload = () => controllerRef.current?.abort();
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Podcasts</h2>
+        <label className="text-[10px] font-bold uppercase px-2 py-1 rounded-full bg-slate-100 text-slate-500 hover:text-blue-600 cursor-pointer" title="Import an OPML subscription list or an RSS/Atom file">
+          OPML / RSS
+          <input type="file" className="hidden" accept=".opml,.xml,.rss,.atom,text/xml,application/xml" onChange={handleFileChange} />
+        </label>
+      </div>
+
+      {/* Add & Subscriptions */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 space-y-2">
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            value={urlDraft}
+            onChange={(e) => setUrlDraft(e.target.value)}
+            placeholder="https://example.com/feed.xml"
+            className="flex-1 text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          />
+          <button type="submit" disabled={!!loadingUrl} className="px-4 py-2 text-sm font-bold rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300">
+            Add
+          </button>
+        </form>
+        {feeds.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {feeds.map(f => (
+              <button
+                key={f.url}
+                onClick={() => openFeed(f.url)}
+                disabled={!!loadingUrl}
+                title={f.url}
+                className={`group flex items-center gap-1 max-w-[14rem] px-2.5 py-1 rounded-full text-xs font-bold ${feed?.url === f.url ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:text-blue-600'}`}
+              >
+                <span className="truncate">{loadingUrl === f.url ? 'Loading...' : f.title}</span>
+                <span onClick={(e) => handleRemoveFeed(e, f.url)} className="opacity-40 group-hover:opacity-100 hover:text-red-400" title="Remove">×</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          <input type="checkbox" checked={useTranscripts} onChange={(e) => setUseTranscripts(e.target.checked)} className="accent-blue-600" />
+          Use the feed's transcript when it has one (skips AI transcription)
+        </label>
+        {errorMsg && <p className="text-xs text-red-500">{errorMsg}</p>}
+        {notice && <p className="text-xs text-green-600">{notice}</p>}
+      </div>
+
+      {/* Episodes */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {loadingUrl && !feed ? (
+          <div className="flex justify-center py-10">
+            <div className="w-8 h-8 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : !feed ? (
+          <p className="text-sm text-slate-400 text-center py-10">
+            {feeds.length === 0 ? 'Add a podcast feed by its URL, or import your OPML subscriptions.' : 'Pick a podcast to see its episodes.'}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center gap-3 mb-2">
+              {feed.imageUrl && <img src={feed.imageUrl} alt="" className="w-12 h-12 rounded-lg object-cover bg-slate-200" />}
+              <div className="min-w-0">
+                <h3 className="font-bold text-slate-800 truncate">{feed.title}</h3>
+                <p className="text-xs text-slate-400">{feed.episodes.length} episodes</p>
+              </div>
+            </div>
+            {feed.episodes.map(episode => {
+              const isDownloading = download?.episodeId === episode.id;
+              const hasChapters = !!(episode.chapters?.length || episode.chaptersUrl);
+              return (
+                <div key={episode.id} className="bg-white rounded-xl p-4 border border-slate-100 shadow-sm">
+                  <div className="flex items-start gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-bold text-sm text-slate-800">{episode.title}</p>
+                      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mt-1 text-[11px] text-slate-400">
+                        {episode.publishedAt && <span>{formatDate(episode.publishedAt)}</span>}
+                        {episode.duration !== undefined && <span>{formatTime(episode.duration)}</span>}
+                        {getSubtitleTranscript(episode) && (
+                          <span className="font-bold bg-green-50 text-green-600 px-1.5 rounded-full">Transcript</span>
+                        )}
+                        {hasChapters && (
+                          <button onClick={() => handleToggleChapters(episode)} className="font-bold bg-blue-50 text-blue-600 px-1.5 rounded-full hover:bg-blue-100">
+                            Chapters
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {isDownloading ? (
+                      <button onClick={handleCancelDownload} className="shrink-0 px-3 py-1.5 rounded-full text-xs font-bold bg-slate-100 text-slate-500 hover:text-red-500">
+                        {download!.total ? `${Math.round((download!.received / download!.total) * 100)}%` : `${(download!.received / 1024 / 1024).toFixed(1)} MB`} · Cancel
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleImport(episode)}
+                        disabled={!episode.audioUrl || !!download}
+                        className="shrink-0 px-3 py-1.5 rounded-full text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-200 disabled:text-slate-400"
+                      >
+                        Import
+                      </button>
+                    )}
+                  </div>
+                  {episode.description && <p className="text-xs text-slate-500 mt-2 line-clamp-2">{episode.description}</p>}
+
+                  {expandedId === episode.id && (
+                    <ul className="mt-3 space-y-1 animate-fade-in-up">
+                      {!chapters[episode.id] ? (
+                        <li className="text-xs text-slate-400">Loading chapters...</li>
+                      ) : chapters[episode.id].length === 0 ? (
+                        <li className="text-xs text-slate-400">No chapters listed.</li>
+                      ) : chapters[episode.id].map((chapter, i) => (
+                        <li key={i} className="text-xs text-slate-600">
+                          <span className="font-mono text-blue-600 mr-2">{formatTime(chapter.start)}</span>
+                          {chapter.title}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
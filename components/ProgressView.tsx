@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { PracticeMode, PracticeStats, SegmentProgress } from '../types';
+import { listAttempts, listListeningLog } from '../services/practiceHistory';
+import { computePracticeStats, toDayKey } from '../services/practiceStats';
+import { formatTime } from '../services/formatUtils';
+
+interface ProgressViewProps {
+  onClose: () => void;
+  onPracticeSegment: (libraryItemId: string, segmentStart: number) => void;
+}
+
+const TREND_DAYS = 30;
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+const MODE_LABELS: Record<PracticeMode, string> = {
+  shadowing: 'Shadowing',
+  idiom: 'Idiom',
+  dictation: 'Dictation',
+};
+
+const StatTile = ({ label, value }: { label: string; value: string | number }) => (
+  <div className="bg-white rounded-xl p-3 border border-slate-100 shadow-sm text-center">
+    <p className="text-2xl font-bold text-slate-800">{value}</p>
+    <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">{label}</p>
+  </div>
+);
+
+// Daily average score over the last TREND_DAYS days
+const TrendChart = ({ daily }: { daily: PracticeStats['daily'] }) => {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const today = new Date(toDayKey(Date.now())).getTime();
+  const points = daily
+    .map(d => ({ ...d, offset: Math.round((new Date(d.day).getTime() - today) / dayMs) + TREND_DAYS - 1 }))
+    .filter(d => d.offset >= 0);
+
+  if (points.length === 0) {
+    return <p className="text-xs text-slate-400 text-center py-6">No scored attempts in the last {TREND_DAYS} days.</p>;
+  }
+
+  const x = (offset: number) => (offset / (TREND_DAYS - 1)) * CHART_WIDTH;
+  const y = (score: number) => CHART_HEIGHT - (score / 100) * (CHART_HEIGHT - 8) - 4;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-24" preserveAspectRatio="none">
+      <line x1={0} x2={CHART_WIDTH} y1={y(80)} y2={y(80)} className="stroke-green-100" strokeDasharray="3 3" />
+      <polyline
+        points={points.map(p => `${x(p.offset)},${y(p.average)}`).join(' ')}
+        fill="none"
+        className="stroke-blue-500"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+      {points.map(p => (
+        <circle key={p.day} cx={x(p.offset)} cy={y(p.average)} r={2.5} className="fill-blue-600">
+          <title>{`${p.day}: ${p.average} (${p.attempts} attempts)`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const SegmentRow = ({ segment, onClick }: { segment: SegmentProgress; onClick?: () => void }) => (
+  <li
+    onClick={onClick}
+    className={`bg-white rounded-xl p-3 border border-slate-100 shadow-sm ${onClick ? 'cursor-pointer hover:shadow-md transition' : ''}`}
+  >
+    <div className="flex items-center justify-between text-[11px] mb-1">
+      <span className="text-slate-400 truncate mr-2">{segment.itemName} · {formatTime(segment.segmentStart)} · {MODE_LABELS[segment.mode]}</span>
+      <span className="font-mono whitespace-nowrap">
+        <span className={segment.latest >= 80 ? 'text-green-600 font-bold' : 'text-orange-600 font-bold'}>{segment.latest}</span>
+        <span className="text-slate-400"> / best {segment.best}</span>
+      </span>
+    </div>
+    <p className="text-sm text-slate-700 line-clamp-2">{segment.text}</p>
+  </li>
+);
+
+export const ProgressView: React.FC<ProgressViewProps> = ({ onClose, onPracticeSegment }) => {
+  const [stats, setStats] = useState<PracticeStats | null>(null);
+
+  useEffect(() => {
+    Promise.all([listAttempts(), listListeningLog()])
+      .then(([attempts, listening]) => setStats(computePracticeStats(attempts, listening)))
+      .catch(e => console.error("Failed to load practice history", e));
+  }, []);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Progress</h2>
+        <span className="w-6"></span>
+      </div>
+
+      {!stats ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="w-8 h-8 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-2 gap-3">
+            <StatTile label="Day streak" value={stats.currentStreak} />
+            <StatTile label="Longest streak" value={stats.longestStreak} />
+            <StatTile label="Minutes this week" value={stats.weekMinutes} />
+            <StatTile label="Minutes total" value={stats.totalMinutes} />
+          </div>
+
+          <div className="bg-white rounded-2xl p-4 border border-slate-100 shadow-sm">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Score trend</h3>
+              <span className="text-[11px] text-slate-400">{stats.attemptCount} attempts</span>
+            </div>
+            <TrendChart daily={stats.daily} />
+          </div>
+
+          {stats.weakest.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-3">Weakest segments</h3>
+              <ul className="space-y-2">
+                {stats.weakest.map(segment => (
+                  <SegmentRow
+                    key={segment.key}
+                    segment={segment}
+                    onClick={() => onPracticeSegment(segment.libraryItemId, segment.segmentStart)}
+                  />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {stats.segments.length > 0 ? (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wide mb-3">Recently practiced</h3>
+              <ul className="space-y-2">
+                {stats.segments.slice(0, 20).map(segment => <SegmentRow key={segment.key} segment={segment} />)}
+              </ul>
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400 text-center">Shadow, score an idiom or take a dictation to start tracking progress.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { WordPronunciation } from '../types';
+
+interface PronunciationBreakdownProps {
+  words: WordPronunciation[];
+  onPlayWord?: (referenceIndex: number) => void; // index into the reference text's words
+}
+
+const STATUS_STYLES: Record<WordPronunciation['status'], string> = {
+  correct: 'text-green-700',
+  mispronounced: 'text-red-600 underline decoration-wavy decoration-red-300',
+  omitted: 'text-slate-400 line-through',
+  inserted: 'text-orange-500 italic',
+};
+
+/**
+ * The scored sentence with each word colored by result. Tapping a word plays it
+ * from the reference audio and shows its notes.
+ */
+export const PronunciationBreakdown: React.FC<PronunciationBreakdownProps> = ({ words, onPlayWord }) => {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  // Inserted words have no counterpart in the reference audio
+  let referenceCursor = -1;
+  const entries = words.map(w => ({ ...w, referenceIndex: w.status === 'inserted' ? -1 : ++referenceCursor }));
+  const selected = selectedIndex !== null ? entries[selectedIndex] : null;
+
+  const handleClick = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    setSelectedIndex(index);
+    const { referenceIndex } = entries[index];
+    if (referenceIndex >= 0 && onPlayWord) onPlayWord(referenceIndex);
+  };
+
+  return (
+    <div>
+      <p className="text-base leading-relaxed flex flex-wrap gap-x-1.5 gap-y-1">
+        {entries.map((entry, i) => (
+          <span
+            key={i}
+            onClick={(e) => handleClick(e, i)}
+            className={`cursor-pointer rounded px-0.5 ${STATUS_STYLES[entry.status]} ${selectedIndex === i ? 'bg-white shadow-sm ring-1 ring-slate-200' : 'hover:bg-white/60'}`}
+            title={entry.status}
+          >
+            {entry.word}
+          </span>
+        ))}
+      </p>
+
+      {selected && selected.status !== 'correct' && (
+        <div className="mt-2 text-xs text-slate-600 bg-white/70 rounded-lg p-2 space-y-0.5 animate-fade-in-up">
+          <p><span className="font-bold capitalize">{selected.status}</span>: {selected.word}</p>
+          {selected.phonemeNote && <p>{selected.phonemeNote}</p>}
+          {selected.stressNote && <p className="italic">{selected.stressNote}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ProsodyComparison } from '../types';
+
+interface ProsodyChartProps {
+  comparison: ProsodyComparison;
+}
+
+const WIDTH = 300;
+const HEIGHT = 100;
+const PITCH_RANGE = 12; // semitones either side of the median that fit the chart
+
+// SVG path through the points, broken wherever the value is null (unvoiced frames)
+const linePath = (values: (number | null)[], x: (i: number) => number, y: (v: number) => number) => {
+  let d = '';
+  let drawing = false;
+  values.forEach((v, i) => {
+    if (v === null) { drawing = false; return; }
+    d += `${drawing ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)}`;
+    drawing = true;
+  });
+  return d;
+};
+
+const areaPath = (values: number[], x: (i: number) => number, y: (v: number) => number) =>
+  values.length === 0 ? '' : `M0,${HEIGHT}` + values.map((v, i) => `L${x(i).toFixed(1)},${y(v).toFixed(1)}`).join('') + `L${WIDTH},${HEIGHT}Z`;
+
+const ScorePill = ({ label, value }: { label: string; value: string }) => (
+  <div className="flex flex-col items-center bg-white rounded-lg px-2 py-1 border border-slate-100">
+    <span className="text-sm font-bold text-slate-800">{value}</span>
+    <span className="text-[9px] uppercase font-bold text-slate-400">{label}</span>
+  </div>
+);
+
+/**
+ * The take's pitch and loudness over the original's, time-aligned, with pauses marked.
+ */
+export const ProsodyChart: React.FC<ProsodyChartProps> = ({ comparison }) => {
+  const { overlay } = comparison;
+  const frames = overlay.userPitch.length;
+  const duration = frames * overlay.hopSeconds;
+  const x = (i: number) => (frames > 1 ? (i / (frames - 1)) * WIDTH : 0);
+  const xTime = (t: number) => (duration > 0 ? Math.max(0, Math.min(WIDTH, (t / duration) * WIDTH)) : 0);
+  const yPitch = (st: number) => HEIGHT / 2 - (Math.max(-PITCH_RANGE, Math.min(PITCH_RANGE, st)) / PITCH_RANGE) * (HEIGHT / 2 - 6);
+  const yEnergy = (e: number) => HEIGHT - e * HEIGHT * 0.4;
+
+  const tempo = comparison.tempoRatio;
+  const tempoLabel = Math.abs(tempo - 1) < 0.1 ? 'on pace' : tempo > 1 ? 'slower' : 'faster';
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-4 gap-2">
+        <ScorePill label="Intonation" value={comparison.pitchScore !== null ? String(comparison.pitchScore) : '—'} />
+        <ScorePill label="Rhythm" value={String(comparison.rhythmScore)} />
+        <ScorePill label="Pauses" value={comparison.pauseScore !== null ? String(comparison.pauseScore) : '—'} />
+        <ScorePill label={tempoLabel} value={`${tempo.toFixed(2)}×`} />
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28 bg-white rounded-lg border border-slate-100" preserveAspectRatio="none">
+        {overlay.referencePauses.map((p, i) => (
+          <rect key={`r${i}`} x={xTime(p.start)} width={Math.max(1, xTime(p.end) - xTime(p.start))} y={0} height={HEIGHT} className="fill-slate-100" />
+        ))}
+        {overlay.userPauses.map((p, i) => (
+          <rect key={`u${i}`} x={xTime(p.start)} width={Math.max(1, xTime(p.end) - xTime(p.start))} y={HEIGHT - 4} height={4} className="fill-blue-300" />
+        ))}
+        <path d={areaPath(overlay.referenceEnergy, x, yEnergy)} className="fill-slate-300/40" />
+        <path d={areaPath(overlay.userEnergy, x, yEnergy)} className="fill-blue-200/40" />
+        <line x1={0} x2={WIDTH} y1={HEIGHT / 2} y2={HEIGHT / 2} className="stroke-slate-100" strokeDasharray="2 3" />
+        <path d={linePath(overlay.referencePitch, x, yPitch)} fill="none" className="stroke-slate-400" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        <path d={linePath(overlay.userPitch, x, yPitch)} fill="none" className="stroke-blue-600" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+
+      <div className="flex items-center gap-4 text-[10px] text-slate-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-slate-400 inline-block"></span>Original</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-blue-600 inline-block"></span>You</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-2 bg-slate-100 inline-block"></span>Original pause</span>
+      </div>
+    </div>
+  );
+};
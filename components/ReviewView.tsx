@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReviewCard, ReviewGrade } from '../types';
+import { listDueCards, gradeCard } from '../services/reviewDeck';
+import { previewInterval } from '../services/srs';
+import { loadLibraryAudio } from '../services/libraryService';
+import { decodeAudioBlob, playAudioBufferRange, stopAudioBufferRange } from '../services/audioUtils';
+import { formatDate } from '../services/formatUtils';
+
+interface ReviewViewProps {
+  onClose: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'bg-red-50 text-red-600 border-red-200' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-50 text-orange-600 border-orange-200' },
+  { grade: 'good', label: 'Good', className: 'bg-green-50 text-green-600 border-green-200' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-50 text-blue-600 border-blue-200' },
+];
+
+export const ReviewView: React.FC<ReviewViewProps> = ({ onClose }) => {
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // Decoded audio per library item, so flipping through cards from one episode decodes it once
+  const buffersRef = useRef<Record<string, Promise<AudioBuffer | null>>>({});
+
+  const card = queue[0];
+
+  useEffect(() => {
+    listDueCards()
+      .then(setQueue)
+      .catch(e => console.error("Failed to load review deck", e))
+      .finally(() => setIsLoading(false));
+    return () => stopAudioBufferRange();
+  }, []);
+
+  const getBuffer = (libraryItemId: string) => {
+    if (!buffersRef.current[libraryItemId]) {
+      buffersRef.current[libraryItemId] = loadLibraryAudio(libraryItemId)
+        .then(blob => blob ? decodeAudioBlob(blob) : null);
+    }
+    return buffersRef.current[libraryItemId];
+  };
+
+  const playClip = async () => {
+    if (!card) return;
+    try {
+      setIsPlaying(true);
+      const buffer = await getBuffer(card.libraryItemId);
+      if (buffer) await playAudioBufferRange(buffer, card.segmentStart, card.segmentEnd);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  // Listening cards start with the clip
+  useEffect(() => {
+    if (card?.kind === 'segment') playClip();
+  }, [card?.id]);
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!card) return;
+    stopAudioBufferRange();
+    try {
+      const updated = await gradeCard(card, grade);
+      // Lapsed cards come back at the end of this session
+      setQueue(prev => grade === 'again' ? [...prev.slice(1), updated] : prev.slice(1));
+      setReviewedCount(c => c + 1);
+      setShowAnswer(false);
+      setShowHistory(false);
+    } catch (e) { console.error(e); }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Review</h2>
+        <span className="text-xs font-mono text-slate-400">{queue.length} left</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 flex flex-col">
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center">
+            <div className="w-8 h-8 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : !card ? (
+          <div className="flex-1 flex flex-col items-center justify-center text-center text-slate-400 gap-2">
+            <p className="text-lg font-bold text-slate-700">All caught up!</p>
+            <p className="text-sm">{reviewedCount > 0 ? `You reviewed ${reviewedCount} cards.` : 'No cards are due. Favorite sentences or look up words to add more.'}</p>
+            <button onClick={onClose} className="mt-4 px-6 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 transition">Done</button>
+          </div>
+        ) : (
+          <div className="w-full bg-white rounded-2xl shadow-xl p-6 border-t-4 border-blue-500 space-y-4">
+            {/* Front */}
+            {card.kind === 'segment' ? (
+              <div className="text-center space-y-3">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wide">What do you hear?</p>
+                <button
+                  onClick={playClip}
+                  disabled={isPlaying}
+                  className="w-16 h-16 mx-auto rounded-full bg-blue-600 text-white flex items-center justify-center shadow-lg hover:bg-blue-700 disabled:opacity-60"
+                >
+                  <svg className="w-7 h-7 pl-1" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                </button>
+              </div>
+            ) : (
+              <div className="text-center space-y-2">
+                <p className="text-2xl font-bold text-slate-800 capitalize">{card.definition?.word}</p>
+                <p className="text-sm text-slate-500 italic">"{card.text}"</p>
+              </div>
+            )}
+
+            {/* Back */}
+            {showAnswer ? (
+              <div className="border-t border-slate-100 pt-4 space-y-3 animate-fade-in-up">
+                {card.kind === 'segment' ? (
+                  <>
+                    <p className="text-lg font-medium text-slate-900">{card.text}</p>
+                    {card.translation && <p className="text-sm text-slate-500">{card.translation}</p>}
+                    {card.idiomatic && (
+                      <p className="text-sm text-blue-900 italic bg-blue-50 rounded-lg p-2 border-l-4 border-blue-400">"{card.idiomatic}"</p>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    {card.definition?.phonetic && <span className="text-slate-400 font-mono text-sm block">{card.definition.phonetic}</span>}
+                    <p className="text-slate-700">{card.definition?.definition}</p>
+                    {card.definition?.example && (
+                      <p className="text-sm text-slate-600 italic bg-slate-50 p-2 rounded-lg">"{card.definition.example}"</p>
+                    )}
+                  </>
+                )}
+
+                {card.history.length > 0 && (
+                  <div>
+                    <button onClick={() => setShowHistory(!showHistory)} className="text-xs font-bold text-slate-400 hover:text-slate-600">
+                      {showHistory ? 'Hide' : 'Show'} history ({card.history.length})
+                    </button>
+                    {showHistory && (
+                      <ul className="mt-2 space-y-1 text-xs text-slate-500">
+                        {[...card.history].reverse().map((entry, i) => (
+                          <li key={i} className="flex justify-between">
+                            <span>{formatDate(entry.reviewedAt)}</span>
+                            <span className="capitalize font-medium">{entry.grade}</span>
+                            <span className="font-mono">{entry.interval}d</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <button onClick={() => setShowAnswer(true)} className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition">
+                Show Answer
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Grading */}
+      {card && showAnswer && (
+        <div className="bg-white border-t border-slate-100 p-4 pb-8 grid grid-cols-4 gap-2">
+          {GRADES.map(({ grade, label, className }) => (
+            <button
+              key={grade}
+              onClick={() => handleGrade(grade)}
+              className={`flex flex-col items-center py-2 rounded-xl border font-bold text-sm ${className}`}
+            >
+              <span>{label}</span>
+              <span className="text-[10px] font-mono opacity-70">{previewInterval(card, grade)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
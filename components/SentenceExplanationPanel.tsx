@@ -0,0 +1,88 @@
+import React from 'react';
+import { SentenceExplanation, SentenceExpression, ConnectedSpeechNote } from '../types';
+
+interface SentenceExplanationPanelProps {
+  explanation: SentenceExplanation;
+  onClose: () => void;
+}
+
+const EXPRESSION_LABELS: Record<SentenceExpression['type'], string> = {
+  'phrasal-verb': 'Phrasal verb',
+  'collocation': 'Collocation',
+  'idiom': 'Idiom',
+};
+
+const PHENOMENON_LABELS: Record<ConnectedSpeechNote['phenomenon'], string> = {
+  'reduction': 'Reduction',
+  'linking': 'Linking',
+  'elision': 'Elision',
+  'assimilation': 'Assimilation',
+  'weak-form': 'Weak form',
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <div className="text-[10px] uppercase font-bold text-amber-500 tracking-wider mb-1.5">{title}</div>
+    <ul className="space-y-2">{children}</ul>
+  </div>
+);
+
+/**
+ * Expressions, grammar and connected speech of one segment, shown inline under its text.
+ */
+export const SentenceExplanationPanel: React.FC<SentenceExplanationPanelProps> = ({ explanation, onClose }) => {
+  const { expressions, grammar, connectedSpeech } = explanation;
+  const isEmpty = expressions.length === 0 && grammar.length === 0 && connectedSpeech.length === 0;
+
+  return (
+    <div
+      className="mb-4 bg-amber-50 rounded-lg p-3 border-l-4 border-amber-400 shadow-sm space-y-3 text-sm cursor-default animate-fade-in-up"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-amber-700">Sentence breakdown</span>
+        <button onClick={onClose} className="text-amber-400 hover:text-amber-600 text-xs font-bold">Hide</button>
+      </div>
+
+      {isEmpty && <p className="text-slate-500">Nothing special to point out in this sentence.</p>}
+
+      {expressions.length > 0 && (
+        <Section title="Expressions">
+          {expressions.map((item, i) => (
+            <li key={i}>
+              <span className="font-semibold text-slate-800">{item.phrase}</span>
+              <span className="ml-2 text-[10px] uppercase font-bold text-amber-600 bg-amber-100 rounded px-1.5 py-0.5">{EXPRESSION_LABELS[item.type] || item.type}</span>
+              <p className="text-slate-600">{item.meaning}</p>
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {grammar.length > 0 && (
+        <Section title="Grammar">
+          {grammar.map((item, i) => (
+            <li key={i}>
+              <span className="font-semibold text-slate-800">{item.structure}</span>
+              {item.excerpt && <span className="ml-2 italic text-slate-500">"{item.excerpt}"</span>}
+              <p className="text-slate-600">{item.explanation}</p>
+            </li>
+          ))}
+        </Section>
+      )}
+
+      {connectedSpeech.length > 0 && (
+        <Section title="Listen for">
+          {connectedSpeech.map((item, i) => (
+            <li key={i}>
+              <span className="italic text-slate-500">{item.excerpt}</span>
+              <span className="mx-1.5 text-slate-400">→</span>
+              <span className="font-semibold text-slate-800">{item.heardAs}</span>
+              <span className="ml-2 text-[10px] uppercase font-bold text-amber-600 bg-amber-100 rounded px-1.5 py-0.5">{PHENOMENON_LABELS[item.phenomenon] || item.phenomenon}</span>
+              <p className="text-slate-600">{item.explanation}</p>
+            </li>
+          ))}
+        </Section>
+      )}
+    </div>
+  );
+};
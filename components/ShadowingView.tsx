@@ -1,57 +1,174 @@
-import React, { useState } from 'react';
-import { TranscriptionSegment, PronunciationScore } from '../types';
-import { AudioRecorder, playPcmData } from '../services/audioUtils';
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptionSegment, PronunciationScore, LanguageSettings, VoiceSettings, WordTiming, ProsodyComparison } from '../types';
+import { AudioRecorder, playPcmData, pcmToAudioBuffer, decodeAudioBlob, playAudioBufferRange, stopAudioBufferRange } from '../services/audioUtils';
 import { scorePronunciation, generateSpeech } from '../services/geminiService';
+import { getWordTimings, alignTextToBuffer } from '../services/wordAlignment';
+import { compareTakeToReference } from '../services/prosody';
+import { DEFAULT_LANGUAGE_SETTINGS } from '../services/languages';
+import { DEFAULT_VOICE_SETTINGS, getSpeechOptions } from '../services/voices';
+import { AiError, toAiError } from '../services/errors';
+import { PronunciationBreakdown } from './PronunciationBreakdown';
+import { ProsodyChart } from './ProsodyChart';
+import { InlineError } from './ErrorFeedback';
+
+const SLOW_REPLAY_RATE = 0.75;
 
 interface ShadowingViewProps {
   segments: TranscriptionSegment[];
+  audioFile?: Blob; // source recording; without it "Original" falls back to TTS
+  languageSettings?: LanguageSettings;
+  voiceSettings?: VoiceSettings; // voice for TTS references and idioms
+  initialIndex?: number;
+  onIndexChange?: (index: number) => void;
+  onAttempt?: (segment: TranscriptionSegment, score: PronunciationScore) => void;
   onClose: () => void;
 }
 
-export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, audioFile, languageSettings, voiceSettings = DEFAULT_VOICE_SETTINGS, initialIndex = 0, onIndexChange, onAttempt, onClose }) => {
+  const [currentIndex, setCurrentIndex] = useState(() => Math.min(initialIndex, Math.max(0, segments.length - 1)));
   const [isRecording, setIsRecording] = useState(false);
   const [recorder] = useState(() => new AudioRecorder());
   const [score, setScore] = useState<PronunciationScore | null>(null);
+  // Local intonation/rhythm comparison, tagged with the segment it was recorded for
+  const [prosody, setProsody] = useState<{ index: number; comparison: ProsodyComparison | null } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  // Last failed action (scoring or speech) for the segment at `index`, with a way to run it again
+  const [failure, setFailure] = useState<{ index: number; error: AiError; retry: () => void } | null>(null);
+  const [sourceBuffer, setSourceBuffer] = useState<AudioBuffer | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [useTts, setUseTts] = useState(!audioFile);
+  // Synthesized reference for the current text and speech options, kept so tapping several words synthesizes once
+  const ttsClipRef = useRef<{ key: string; buffer: AudioBuffer; timings: WordTiming[] } | null>(null);
   
   const currentSegment = segments[currentIndex];
+  // Lets slow results check whether the learner has moved on to another sentence
+  const currentIndexRef = useRef(currentIndex);
+  currentIndexRef.current = currentIndex;
+  const speech = getSpeechOptions(voiceSettings, languageSettings || DEFAULT_LANGUAGE_SETTINGS);
+
+  useEffect(() => {
+    if (onIndexChange) onIndexChange(currentIndex);
+    // A score only describes the sentence it was recorded for
+    setScore(null);
+    setProsody(null);
+    setFailure(null);
+  }, [currentIndex]);
+
+  // Decode the source recording once; segments are sliced from it on demand
+  useEffect(() => {
+    if (!audioFile) return;
+    let cancelled = false;
+    setIsDecoding(true);
+    decodeAudioBlob(audioFile)
+      .then(buffer => { if (!cancelled) setSourceBuffer(buffer); })
+      .catch(e => {
+        console.error("Failed to decode source audio, falling back to TTS", e);
+        if (!cancelled) setUseTts(true);
+      })
+      .finally(() => { if (!cancelled) setIsDecoding(false); });
+    return () => {
+      cancelled = true;
+      stopAudioBufferRange();
+    };
+  }, [audioFile]);
+
+  const reportFailure = (e: unknown, retry: () => void) => {
+    console.error(e);
+    setFailure({ index: currentIndex, error: toAiError(e), retry });
+  };
+
+  // Retrying reuses the same take, so a flaky request doesn't cost the learner another recording
+  const scoreTake = async (take: Blob) => {
+    const index = currentIndex;
+    const segment = currentSegment;
+    setFailure(null);
+    setIsProcessing(true);
+    try {
+      const result = await scorePronunciation(take, segment.text, languageSettings);
+      // The attempt still counts for its sentence, but isn't shown under another one
+      if (currentIndexRef.current === index) setScore(result);
+      if (onAttempt) onAttempt(segment, result);
+    } catch (e) {
+      reportFailure(e, () => scoreTake(take));
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
   const handleRecordToggle = async () => {
     if (isRecording) {
       setIsRecording(false);
       const audioBlob = await recorder.stop();
-      setIsProcessing(true);
-      try {
-        const result = await scorePronunciation(audioBlob, currentSegment.text);
-        setScore(result);
-      } catch (e) {
-        console.error(e);
-      } finally {
-        setIsProcessing(false);
-      }
+      analyzeProsody(audioBlob);
+      await scoreTake(audioBlob);
     } else {
       setScore(null);
+      setProsody(null);
+      setFailure(null);
       await recorder.start();
       setIsRecording(true);
     }
   };
 
-  const playOriginal = async () => {
-     // Ideally plays from main audio file reference, but for this detached view, we use TTS for simplicity
-     // or we could pass a callback to play the specific range in main player.
-     // Let's use TTS for the segment to ensure clean audio for shadowing.
+  const playOriginal = async (playbackRate = 1) => {
+     setFailure(null);
      try {
-         const audio = await generateSpeech(currentSegment.text);
+         if (!useTts && sourceBuffer) {
+             await playAudioBufferRange(sourceBuffer, currentSegment.start, currentSegment.end, playbackRate);
+             return;
+         }
+         const audio = await generateSpeech(currentSegment.text, speech, { priority: 'interactive' });
          playPcmData(audio);
-     } catch (e) { console.error(e); }
+     } catch (e) { reportFailure(e, () => playOriginal(playbackRate)); }
+  };
+
+  const getTtsClip = async () => {
+    const key = `${speech.voice}:${speech.rate}:${speech.accent}|${currentSegment.text}`;
+    if (ttsClipRef.current?.key !== key) {
+      const buffer = pcmToAudioBuffer(await generateSpeech(currentSegment.text, speech, { priority: 'interactive' }));
+      ttsClipRef.current = { key, buffer, timings: alignTextToBuffer(currentSegment.text, buffer) };
+    }
+    return ttsClipRef.current;
+  };
+
+  // Compared against whichever reference the learner is shadowing: the recording or TTS
+  const analyzeProsody = async (take: Blob) => {
+    const index = currentIndex;
+    try {
+      let comparison: ProsodyComparison | null;
+      if (!useTts && sourceBuffer) {
+        comparison = await compareTakeToReference(sourceBuffer, currentSegment.start, currentSegment.end, take);
+      } else {
+        const { buffer } = await getTtsClip();
+        comparison = await compareTakeToReference(buffer, 0, buffer.duration, take);
+      }
+      setProsody({ index, comparison });
+    } catch (e) {
+      console.error("Prosody analysis failed", e);
+    }
+  };
+
+  const playWord = async (index: number) => {
+    setFailure(null);
+    try {
+      if (!useTts && sourceBuffer) {
+        const word = getWordTimings(currentSegment)[index];
+        if (word) await playAudioBufferRange(sourceBuffer, word.start, word.end);
+        return;
+      }
+      const { buffer, timings } = await getTtsClip();
+      const word = timings[index];
+      if (word) await playAudioBufferRange(buffer, word.start, word.end);
+    } catch (e) { reportFailure(e, () => playWord(index)); }
   };
 
   const playIdiom = async () => {
-      if (currentSegment.idiomatic) {
-          const audio = await generateSpeech(currentSegment.idiomatic);
+      if (!currentSegment.idiomatic) return;
+      setFailure(null);
+      try {
+          const audio = await generateSpeech(currentSegment.idiomatic, speech, { priority: 'interactive' });
           playPcmData(audio);
-      }
+      } catch (e) { reportFailure(e, playIdiom); }
   };
 
   return (
@@ -62,7 +179,14 @@ export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose
            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
         </button>
         <h2 className="font-bold text-slate-800">Voice Shadowing</h2>
-        <div className="w-6"></div>
+        <button
+            onClick={() => setUseTts(!useTts)}
+            disabled={!sourceBuffer}
+            className={`text-[10px] font-bold uppercase px-2 py-1 rounded-full transition disabled:opacity-30 ${useTts ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 text-slate-500'}`}
+            title="Use synthesized speech instead of the original recording"
+        >
+            TTS
+        </button>
       </div>
 
       {/* Content */}
@@ -88,6 +212,31 @@ export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose
                     <span className={`text-2xl font-bold ${score.score >= 80 ? 'text-green-600' : 'text-orange-600'}`}>{score.score}</span>
                 </div>
                 <p className="text-slate-700 text-sm">{score.feedback}</p>
+                {score.words && score.words.length > 0 && (
+                    <div className="mt-3 pt-3 border-t border-black/5">
+                        <PronunciationBreakdown key={currentIndex} words={score.words} onPlayWord={playWord} />
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Failed scoring or speech request */}
+        {failure && failure.index === currentIndex && (
+            <div className="w-full p-4 rounded-xl bg-red-50 border border-red-200 animate-fade-in-up">
+                <InlineError error={failure.error} onRetry={failure.retry} />
+                <p className="text-sm text-slate-600 mt-1">{failure.error.userMessage}</p>
+            </div>
+        )}
+
+        {/* Intonation & Rhythm (local analysis) */}
+        {prosody && prosody.index === currentIndex && (
+            <div className="w-full p-4 rounded-xl bg-slate-100/70 border border-slate-200 animate-fade-in-up">
+                <span className="block text-sm font-bold uppercase text-slate-500 mb-2">Intonation & Rhythm</span>
+                {prosody.comparison ? (
+                    <ProsodyChart comparison={prosody.comparison} />
+                ) : (
+                    <p className="text-sm text-slate-500">Couldn't hear enough speech to compare. Try recording a little louder.</p>
+                )}
             </div>
         )}
 
@@ -103,12 +252,25 @@ export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose
       <div className="bg-white border-t border-slate-100 p-6 pb-10">
         <div className="flex items-center justify-between max-w-sm mx-auto">
             {/* Play Original */}
-            <button onClick={playOriginal} className="flex flex-col items-center gap-1 text-slate-500 hover:text-blue-600 transition">
-                <div className="w-12 h-12 rounded-full bg-slate-100 flex items-center justify-center">
-                    <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
-                </div>
-                <span className="text-xs font-medium">Original</span>
-            </button>
+            <div className="flex flex-col items-center gap-1">
+                <button onClick={() => playOriginal()} disabled={isDecoding} className="flex flex-col items-center gap-1 text-slate-500 hover:text-blue-600 transition disabled:opacity-50">
+                    <div className="w-12 h-12 rounded-full bg-slate-100 flex items-center justify-center">
+                        {isDecoding ? (
+                            <div className="w-5 h-5 border-2 border-slate-400 border-t-transparent rounded-full animate-spin"></div>
+                        ) : (
+                            <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                        )}
+                    </div>
+                    <span className="text-xs font-medium">{useTts ? 'TTS' : 'Original'}</span>
+                </button>
+                <button
+                    onClick={() => playOriginal(SLOW_REPLAY_RATE)}
+                    disabled={useTts || !sourceBuffer}
+                    className="text-[10px] font-bold text-slate-400 hover:text-blue-600 disabled:opacity-30"
+                >
+                    Slow {SLOW_REPLAY_RATE}×
+                </button>
+            </div>
 
             {/* Record Button */}
             <button 
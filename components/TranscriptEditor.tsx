@@ -0,0 +1,368 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LanguageSettings, SegmentNote, TranscriptionSegment } from '../types';
+import { enrichSegments } from '../services/geminiService';
+import { decodeAudioBlob, playAudioBufferRange } from '../services/audioUtils';
+import { addWordTimings } from '../services/wordAlignment';
+import { splitWords } from '../services/tokenizer';
+import { estimateSplitTime, mergeWithNext, nudgeSegmentEdge, splitSegment, updateSegmentText } from '../services/transcriptEdits';
+import { formatPreciseTime } from '../services/formatUtils';
+import { AiError, toAiError } from '../services/errors';
+import { InlineError } from './ErrorFeedback';
+
+const NUDGE_SECONDS = 0.1;
+const EDGE_PREVIEW_SECONDS = 1.5; // how much audio is replayed around a nudged edge
+const MAX_HISTORY = 100;
+const WAVEFORM_BARS = 120;
+
+interface TranscriptEditorProps {
+  segments: TranscriptionSegment[];
+  audioFile?: Blob; // source recording, for previews, the split waveform and word timings
+  languageSettings: LanguageSettings;
+  notes: SegmentNote[];
+  // `notes` is given on undo/redo, restoring them as they were; otherwise the caller re-anchors them
+  onChange: (segments: TranscriptionSegment[], notes?: SegmentNote[]) => void;
+}
+
+interface EditSnapshot {
+  segments: TranscriptionSegment[];
+  notes: SegmentNote[];
+}
+
+interface SplitDraft {
+  index: number;
+  wordIndex: number; // the second half starts with this word
+  time: number;
+}
+
+interface MiniWaveformProps {
+  buffer: AudioBuffer;
+  start: number;
+  end: number;
+  marker: number;
+  onPick: (time: number) => void;
+}
+
+/**
+ * Peak envelope of [start, end); clicking places the split marker.
+ */
+const MiniWaveform: React.FC<MiniWaveformProps> = ({ buffer, start, end, marker, onPick }) => {
+  const peaks = useMemo(() => {
+    const samples = buffer.getChannelData(0);
+    const from = Math.floor(start * buffer.sampleRate);
+    const perBar = Math.max(1, Math.floor(((end - start) * buffer.sampleRate) / WAVEFORM_BARS));
+    // Sampling a few hundred points per bar is plenty for a visual envelope
+    const stride = Math.max(1, Math.floor(perBar / 200));
+    return Array.from({ length: WAVEFORM_BARS }, (_, bar) => {
+      let peak = 0;
+      const barStart = from + bar * perBar;
+      for (let i = barStart; i < barStart + perBar && i < samples.length; i += stride) {
+        peak = Math.max(peak, Math.abs(samples[i]));
+      }
+      return peak;
+    });
+  }, [buffer, start, end]);
+  const max = Math.max(0.01, ...peaks);
+  const markerX = ((marker - start) / (end - start)) * WAVEFORM_BARS;
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onPick(start + ((e.clientX - rect.left) / rect.width) * (end - start));
+  };
+
+  return (
+    <svg viewBox={`0 0 ${WAVEFORM_BARS} 40`} preserveAspectRatio="none" className="w-full h-12 bg-slate-50 rounded cursor-crosshair" onClick={handleClick}>
+      {peaks.map((peak, i) => {
+        const height = Math.max(1, (peak / max) * 36);
+        return <rect key={i} x={i + 0.15} y={20 - height / 2} width={0.7} height={height} className={i < markerX ? 'fill-blue-400' : 'fill-slate-300'} />;
+      })}
+      <line x1={markerX} x2={markerX} y1={0} y2={40} className="stroke-red-500" strokeWidth={0.6} />
+    </svg>
+  );
+};
+
+/**
+ * Edit mode of the transcript: fix text, split and merge segments, nudge boundaries while
+ * listening, and regenerate translations of edited segments. Every change can be undone.
+ */
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({ segments, audioFile, languageSettings, notes, onChange }) => {
+  const [history, setHistory] = useState<{ past: EditSnapshot[]; future: EditSnapshot[] }>({ past: [], future: [] });
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [drafts, setDrafts] = useState<Record<number, string>>({}); // unsaved text, by index
+  const [split, setSplit] = useState<SplitDraft | null>(null);
+  const [regenerating, setRegenerating] = useState<Set<number>>(new Set()); // by segment start
+  const [regenerateFailure, setRegenerateFailure] = useState<{ starts: number[]; error: AiError } | null>(null);
+
+  // Async results and keyboard shortcuts apply to the latest segments, not the ones they closed over
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+  const notesRef = useRef(notes);
+  notesRef.current = notes;
+
+  // Notes are re-anchored on every edit, so undo restores them along with the segments
+  const snapshot = (): EditSnapshot => ({ segments: segmentsRef.current, notes: notesRef.current });
+
+  useEffect(() => {
+    if (!audioFile) return;
+    let cancelled = false;
+    decodeAudioBlob(audioFile)
+      .then(decoded => { if (!cancelled) setBuffer(decoded); })
+      .catch(e => console.error("Failed to decode audio for the editor", e));
+    return () => { cancelled = true; };
+  }, [audioFile]);
+
+  const withWordTimings = (next: TranscriptionSegment[]) =>
+    addWordTimings(next, buffer ? { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate } : undefined);
+
+  // Drafts are by index, so edits that move segments drop them all; `touched` keeps the rest
+  const commit = (next: TranscriptionSegment[], touched?: number[]) => {
+    const current = segmentsRef.current;
+    if (next === current) return;
+    setHistory(h => ({ past: [...h.past.slice(-(MAX_HISTORY - 1)), snapshot()], future: [] }));
+    setDrafts(prev => touched ? Object.fromEntries(Object.entries(prev).filter(([index]) => !touched.includes(Number(index)))) : {});
+    onChange(withWordTimings(next));
+  };
+
+  const undo = () => {
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return;
+    setHistory(h => ({ past: h.past.slice(0, -1), future: [snapshot(), ...h.future] }));
+    setDrafts({});
+    setSplit(null);
+    onChange(previous.segments, previous.notes);
+  };
+
+  const redo = () => {
+    const next = history.future[0];
+    if (!next) return;
+    setHistory(h => ({ past: [...h.past, snapshot()], future: h.future.slice(1) }));
+    setDrafts({});
+    setSplit(null);
+    onChange(next.segments, next.notes);
+  };
+
+  // Text fields keep their own undo; elsewhere Ctrl/Cmd+Z undoes the last edit
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target as HTMLElement).closest('textarea, input')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const preview = (start: number, end: number) => {
+    if (!buffer) return;
+    playAudioBufferRange(buffer, Math.max(0, start), end).catch(e => console.error("Preview failed", e));
+  };
+
+  const handleNudge = (index: number, edge: 'start' | 'end', delta: number) => {
+    const next = nudgeSegmentEdge(segments, index, edge, delta);
+    commit(next);
+    // Replay the audio on the edge just moved so the new boundary can be judged by ear
+    const { start, end } = next[index];
+    if (edge === 'start') preview(start, Math.min(end, start + EDGE_PREVIEW_SECONDS));
+    else preview(Math.max(start, end - EDGE_PREVIEW_SECONDS), end);
+  };
+
+  const handleTextBlur = (index: number) => {
+    const draft = drafts[index];
+    if (draft === undefined) return;
+    const next = updateSegmentText(segments, index, draft);
+    if (next === segments) {
+      setDrafts(prev => {
+        const rest = { ...prev };
+        delete rest[index];
+        return rest;
+      });
+      return;
+    }
+    commit(next);
+  };
+
+  const startSplit = (index: number) => {
+    const segment = segments[index];
+    const wordIndex = Math.max(1, Math.floor(splitWords(segment.text).length / 2));
+    setSplit({ index, wordIndex, time: estimateSplitTime(segment, wordIndex) });
+  };
+
+  const confirmSplit = () => {
+    if (!split) return;
+    commit(splitSegment(segments, split.index, split.wordIndex, split.time));
+    setSplit(null);
+  };
+
+  /**
+   * Requests fresh translation and idiomatic phrasing for the edited segments starting at `starts`.
+   */
+  const regenerate = async (starts: number[]) => {
+    const targets = segments.filter(s => starts.includes(s.start));
+    if (targets.length === 0) return;
+    setRegenerateFailure(null);
+    setRegenerating(prev => new Set([...prev, ...starts]));
+    try {
+      const cleared = targets.map(s => ({ ...s, translation: '', idiomatic: '' }));
+      const enriched = await enrichSegments(cleared, languageSettings);
+      // Apply only to segments that still have the text that was translated
+      const latest = segmentsRef.current;
+      const touched: number[] = [];
+      const next = latest.map((s, index) => {
+        const result = enriched.find(e => e.start === s.start && e.text === s.text);
+        if (!result) return s;
+        touched.push(index);
+        return { ...s, translation: result.translation, idiomatic: result.idiomatic, isEdited: undefined };
+      });
+      // Every target was edited again meanwhile: nothing to apply, and no empty undo step
+      if (touched.length > 0) commit(next, touched);
+    } catch (e) {
+      console.error("Regenerating translations failed", e);
+      setRegenerateFailure({ starts, error: toAiError(e) });
+    } finally {
+      setRegenerating(prev => new Set([...prev].filter(start => !starts.includes(start))));
+    }
+  };
+
+  const editedStarts = segments.filter(s => s.isEdited).map(s => s.start);
+
+  const iconButton = "w-6 h-6 flex items-center justify-center rounded-full bg-slate-100 text-slate-500 hover:bg-blue-100 hover:text-blue-700 font-bold";
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="sticky top-0 z-10 flex items-center gap-2 bg-slate-50/95 backdrop-blur py-2">
+        <button onClick={undo} disabled={history.past.length === 0} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-slate-200 text-slate-600 disabled:opacity-40" title="Undo (Ctrl+Z)">
+          Undo
+        </button>
+        <button onClick={redo} disabled={history.future.length === 0} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-slate-200 text-slate-600 disabled:opacity-40" title="Redo (Ctrl+Shift+Z)">
+          Redo
+        </button>
+        {editedStarts.length > 0 && (
+          <button
+            onClick={() => regenerate(editedStarts)}
+            disabled={regenerating.size > 0}
+            className="ml-auto px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {regenerating.size > 0 ? 'Translating…' : `Translate ${editedStarts.length} edited`}
+          </button>
+        )}
+      </div>
+
+      {regenerateFailure && (
+        <InlineError error={regenerateFailure.error} onRetry={() => regenerate(regenerateFailure.starts)} />
+      )}
+
+      {segments.map((segment, index) => {
+        const words = splitWords(segment.text);
+        const isSplitting = split?.index === index;
+        const isRegenerating = regenerating.has(segment.start);
+        return (
+          <React.Fragment key={index}>
+            <div className={`bg-white rounded-xl p-3 border space-y-2 ${segment.isEdited ? 'border-amber-200' : 'border-slate-100'}`}>
+              {/* Boundaries */}
+              <div className="flex items-center gap-2 text-xs font-mono text-slate-500">
+                <button onClick={() => handleNudge(index, 'start', -NUDGE_SECONDS)} className={iconButton} title="Start earlier">−</button>
+                <span>{formatPreciseTime(segment.start)}</span>
+                <button onClick={() => handleNudge(index, 'start', NUDGE_SECONDS)} className={iconButton} title="Start later">+</button>
+                <span className="text-slate-300">→</span>
+                <button onClick={() => handleNudge(index, 'end', -NUDGE_SECONDS)} className={iconButton} title="End earlier">−</button>
+                <span>{formatPreciseTime(segment.end)}</span>
+                <button onClick={() => handleNudge(index, 'end', NUDGE_SECONDS)} className={iconButton} title="End later">+</button>
+                <button
+                  onClick={() => preview(segment.start, segment.end)}
+                  disabled={!buffer}
+                  className="ml-auto w-7 h-7 flex items-center justify-center rounded-full bg-blue-50 text-blue-600 hover:bg-blue-100 disabled:opacity-40"
+                  title="Play segment"
+                >
+                  <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                </button>
+              </div>
+
+              <textarea
+                value={drafts[index] ?? segment.text}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [index]: e.target.value }))}
+                onBlur={() => handleTextBlur(index)}
+                rows={2}
+                className="w-full text-base text-slate-800 border border-slate-200 rounded-lg px-2 py-1.5 resize-y focus:outline-none focus:ring-2 focus:ring-blue-200"
+              />
+
+              {/* Split: pick the first word of the second half, then fine-tune the time on the waveform */}
+              {isSplitting && (
+                <div className="bg-slate-50 rounded-lg p-2 space-y-2">
+                  <div className="flex flex-wrap gap-1">
+                    {words.map((word, wordIndex) => (
+                      <button
+                        key={wordIndex}
+                        onClick={() => wordIndex > 0 && setSplit({ index, wordIndex, time: estimateSplitTime(segment, wordIndex) })}
+                        disabled={wordIndex === 0}
+                        className={`px-1.5 py-0.5 rounded text-sm ${
+                          wordIndex === split.wordIndex ? 'bg-red-100 text-red-700 border-l-2 border-red-500' : wordIndex > split.wordIndex ? 'bg-white text-slate-500' : 'bg-blue-50 text-blue-800'
+                        }`}
+                      >
+                        {word}
+                      </button>
+                    ))}
+                  </div>
+                  {buffer && (
+                    <MiniWaveform
+                      buffer={buffer}
+                      start={segment.start}
+                      end={segment.end}
+                      marker={split.time}
+                      onPick={(time) => {
+                        setSplit({ ...split, time });
+                        preview(time, Math.min(segment.end, time + 1));
+                      }}
+                    />
+                  )}
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="font-mono text-slate-500">Split at {formatPreciseTime(split.time)}</span>
+                    <button onClick={() => setSplit(null)} className="ml-auto px-3 py-1 font-medium text-slate-500 hover:bg-slate-100 rounded-lg">Cancel</button>
+                    <button onClick={confirmSplit} className="px-3 py-1 font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg">Split</button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                {!isSplitting && (
+                  <button
+                    onClick={() => startSplit(index)}
+                    disabled={words.length < 2}
+                    className="px-2.5 py-1 rounded-full font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+                  >
+                    Split
+                  </button>
+                )}
+                {segment.isEdited && (
+                  <>
+                    <span className="text-amber-600 font-medium">Translation out of date</span>
+                    <button
+                      onClick={() => regenerate([segment.start])}
+                      disabled={isRegenerating}
+                      className="ml-auto px-2.5 py-1 rounded-full font-bold bg-amber-50 text-amber-700 hover:bg-amber-100 disabled:opacity-50"
+                    >
+                      {isRegenerating ? 'Translating…' : 'Regenerate'}
+                    </button>
+                  </>
+                )}
+              </div>
+              {segment.translation && <p className="text-sm text-slate-400">{segment.translation}</p>}
+            </div>
+
+            {index < segments.length - 1 && (
+              <div className="flex justify-center -my-1">
+                <button
+                  onClick={() => { setSplit(null); commit(mergeWithNext(segments, index)); }}
+                  className="px-2 py-0.5 rounded-full text-[10px] font-bold uppercase text-slate-400 hover:text-blue-600 hover:bg-white"
+                  title="Merge with the next segment"
+                >
+                  Merge ↕
+                </button>
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
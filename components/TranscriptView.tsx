@@ -1,14 +1,44 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { TranscriptionSegment, WordDefinition, PronunciationScore } from '../types';
-import { getWordDefinition, generateSpeech, scorePronunciation } from '../services/geminiService';
-import { playPcmData, AudioRecorder } from '../services/audioUtils';
+import { TranscriptionSegment, WordDefinition, PronunciationScore, SegmentNote, WordTiming, LanguageSettings, VoiceSettings, SpeechOptions, SentenceExplanation, PlaybackState } from '../types';
+import { getWordDefinition, explainSentence, generateSpeech, scorePronunciation } from '../services/geminiService';
+import { playPcmData, pcmToAudioBuffer, playAudioBufferRange, AudioRecorder } from '../services/audioUtils';
+import { getWordTimings, findActiveWordIndex, alignTextToBuffer } from '../services/wordAlignment';
+import { DEFAULT_LANGUAGE_SETTINGS, getIdiomLabel } from '../services/languages';
+import { DEFAULT_VOICE_SETTINGS, getSpeechOptions } from '../services/voices';
+import { AiError, toAiError } from '../services/errors';
+import { NoteEditor } from './NoteEditor';
+import { TranscriptEditor } from './TranscriptEditor';
+import { PronunciationBreakdown } from './PronunciationBreakdown';
+import { SentenceExplanationPanel } from './SentenceExplanationPanel';
+import { VideoPane } from './VideoPane';
+import { InlineError, useToast } from './ErrorFeedback';
+
+const LONG_PRESS_MS = 500;
+const PREFETCH_AHEAD = 2; // upcoming segments whose idiom audio is fetched in the background
 
 interface TranscriptViewProps {
   segments: TranscriptionSegment[];
   currentTime: number;
   onSegmentClick: (time: number) => void;
   meta?: { wordCount: number, speed: string, estimatedLevel: string };
+  languageSettings?: LanguageSettings;
+  voiceSettings?: VoiceSettings; // voice for idiom audio; `compareVoice` is the B side of A/B
   onToggleFavorite?: (segment: TranscriptionSegment) => void;
+  onWordLookup?: (definition: WordDefinition, segment: TranscriptionSegment) => void;
+  onIdiomAttempt?: (segment: TranscriptionSegment, score: PronunciationScore) => void;
+  activeSegment?: TranscriptionSegment | null; // overrides time-based highlighting (e.g. during Seq Play)
+  notes?: SegmentNote[];
+  onSaveNote?: (note: SegmentNote) => void;
+  onPlayFrom?: (time: number) => void;
+  onLoopWord?: (word: WordTiming) => void;
+  onStopLoop?: () => void;
+  audioFile?: Blob; // source recording, used by the editor
+  onEditSegments?: (segments: TranscriptionSegment[], notes?: SegmentNote[]) => void; // enables edit mode; notes come back on undo/redo
+  onSaveExplanation?: (segment: TranscriptionSegment, explanation: SentenceExplanation) => void; // caches it on the segment
+  videoUrl?: string; // replaces the placeholder with a video pane that follows `currentTime`
+  playback?: PlaybackState;
+  pregenerateProgress?: { completed: number; total: number } | null; // "Pre-generate all idioms" run, owned by the app so it outlives tab switches
+  onTogglePregenerate?: (idioms: string[], speech: SpeechOptions) => void;
 }
 
 // Subcomponent for Blurred Translation
@@ -45,17 +75,33 @@ const BlurredTranslation = ({ text }: { text: string }) => {
   );
 };
 
-export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, currentTime, onSegmentClick, meta, onToggleFavorite }) => {
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, currentTime, onSegmentClick, meta, languageSettings = DEFAULT_LANGUAGE_SETTINGS, voiceSettings = DEFAULT_VOICE_SETTINGS, onToggleFavorite, onWordLookup, onIdiomAttempt, activeSegment, notes = [], onSaveNote, onPlayFrom, onLoopWord, onStopLoop, audioFile, onEditSegments, onSaveExplanation, videoUrl, playback = { playing: false, rate: 1 }, pregenerateProgress, onTogglePregenerate }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const activeRef = useRef<HTMLDivElement>(null);
   
   // Word Definition State
   const [definition, setDefinition] = useState<WordDefinition | null>(null);
 
-  // Audio Playback State (Caching)
-  const [audioCache, setAudioCache] = useState<Record<string, string>>({}); // text -> base64
+  // Word actions: tap opens a small menu, long-press loops the word
+  const [wordMenu, setWordMenu] = useState<{ segmentStart: number; wordIndex: number } | null>(null);
+  const [loopingWord, setLoopingWord] = useState<WordTiming | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFiredRef = useRef(false);
+
+  // Segment currently being annotated
+  const [noteSegment, setNoteSegment] = useState<TranscriptionSegment | null>(null);
+
+  // Explanation panels, by segment start; the explanations themselves are cached on the segments
+  const [openExplanations, setOpenExplanations] = useState<Set<number>>(new Set());
+  const [explainingStart, setExplainingStart] = useState<number | null>(null);
+  const [explainFailures, setExplainFailures] = useState<Record<number, { error: AiError; retry: () => void }>>({});
+
+  // Idiom Audio State (clips are cached persistently by generateSpeech)
   const [loadingIdiomText, setLoadingIdiomText] = useState<string | null>(null);
   const [playingIdiomText, setPlayingIdiomText] = useState<string | null>(null);
+  const [idiomVoiceSide, setIdiomVoiceSide] = useState<'A' | 'B'>('A'); // which A/B button the states above belong to
+  const speech = getSpeechOptions(voiceSettings, languageSettings);
+  const compareSpeech = getSpeechOptions(voiceSettings, languageSettings, voiceSettings.compareVoice);
   
   // Shadowing/Scoring State for Idioms
   const [recorder] = useState(() => new AudioRecorder());
@@ -66,8 +112,37 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
   // User Recordings (Blob URLs) for playback
   const [userRecordings, setUserRecordings] = useState<Record<string, string>>({});
 
-  // Removed aggressive pre-fetching useEffect to prevent 429 Resource Exhausted errors.
-  // Audio will be fetched on-demand when the user clicks "Listen".
+  // Last failed listen/score per idiom, with a way to run it again
+  const [idiomFailures, setIdiomFailures] = useState<Record<string, { error: AiError; retry: () => void }>>({});
+  const { showError } = useToast();
+
+  const prefetchedRef = useRef(new Set<string>());
+
+  // Video files without a picture (e.g. audio-only MP4) fall back to the placeholder
+  const [videoWithoutPicture, setVideoWithoutPicture] = useState<string | null>(null);
+
+  const [isEditing, setIsEditing] = useState(false);
+  const showEditor = isEditing && !!onEditSegments;
+
+  const currentIndex = activeSegment
+    ? segments.findIndex(s => s.start === activeSegment.start)
+    : segments.findIndex(s => currentTime >= s.start && currentTime < s.end);
+
+  // Background priority keeps prefetching behind anything the user clicks; the scheduler
+  // shares the in-flight request if "Listen" is pressed before it finishes
+  useEffect(() => {
+    if (currentIndex < 0) return;
+    segments.slice(currentIndex, currentIndex + PREFETCH_AHEAD + 1).forEach(({ idiomatic }) => {
+      const key = `${speech.voice}:${speech.rate}:${speech.accent}|${idiomatic}`;
+      if (!idiomatic || prefetchedRef.current.has(key)) return;
+      prefetchedRef.current.add(key);
+      generateSpeech(idiomatic, speech, { priority: 'background' })
+        .catch(e => {
+          prefetchedRef.current.delete(key);
+          console.error("Idiom prefetch failed", e);
+        });
+    });
+  }, [currentIndex, segments, speech.voice, speech.rate, speech.accent]);
 
   // Auto-scroll logic
   useEffect(() => {
@@ -77,57 +152,187 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
     }
   }, [currentTime, segments]);
 
-  const handleWordClick = async (e: React.MouseEvent, word: string, segmentText: string) => {
+  const handleWordClick = (e: React.MouseEvent, segment: TranscriptionSegment, wordIndex: number) => {
     e.stopPropagation();
-    const cleanWord = word.replace(/[^\w']/g, "");
+    if (longPressFiredRef.current) {
+      longPressFiredRef.current = false;
+      return;
+    }
+    const isOpen = wordMenu?.segmentStart === segment.start && wordMenu.wordIndex === wordIndex;
+    setWordMenu(isOpen ? null : { segmentStart: segment.start, wordIndex });
+  };
+
+  const startLongPress = (timing: WordTiming) => {
+    if (!onLoopWord) return;
+    longPressFiredRef.current = false;
+    longPressTimerRef.current = setTimeout(() => {
+      longPressFiredRef.current = true;
+      setWordMenu(null);
+      setLoopingWord(timing);
+      onLoopWord(timing);
+    }, LONG_PRESS_MS);
+  };
+
+  useEffect(() => () => cancelLongPress(), []);
+
+  const cancelLongPress = () => {
+    if (longPressTimerRef.current) {
+      clearTimeout(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const handleStopLoop = () => {
+    setLoopingWord(null);
+    if (onStopLoop) onStopLoop();
+  };
+
+  const handleDefine = async (e: React.MouseEvent, word: string, segment: TranscriptionSegment) => {
+    e.stopPropagation();
+    setWordMenu(null);
+    // Unicode-aware so accented and non-Latin words survive
+    const cleanWord = word.replace(/[^\p{L}\p{N}'’-]/gu, "");
     if (!cleanWord) return;
+    await defineWord(cleanWord, segment);
+  };
+
+  const defineWord = async (word: string, segment: TranscriptionSegment) => {
     try {
-      const def = await getWordDefinition(cleanWord, segmentText);
+      const def = await getWordDefinition(word, segment.text, languageSettings);
       setDefinition(def);
-    } catch (err) { console.error(err); }
+      if (onWordLookup) onWordLookup(def, segment);
+    } catch (err) {
+      console.error(err);
+      showError(err, () => defineWord(word, segment));
+    }
+  };
+
+  const setExplanationOpen = (start: number, open: boolean) => {
+    setOpenExplanations(prev => {
+      const next = new Set(prev);
+      if (open) next.add(start); else next.delete(start);
+      return next;
+    });
+  };
+
+  const handleToggleExplanation = (e: React.MouseEvent, segment: TranscriptionSegment) => {
+    e.stopPropagation();
+    if (openExplanations.has(segment.start)) {
+      setExplanationOpen(segment.start, false);
+    } else if (segment.explanation) {
+      setExplanationOpen(segment.start, true);
+    } else {
+      explainSegment(segment);
+    }
+  };
+
+  const explainSegment = async (segment: TranscriptionSegment) => {
+    if (explainingStart !== null || !onSaveExplanation) return;
+    setExplainFailures(prev => {
+      const next = { ...prev };
+      delete next[segment.start];
+      return next;
+    });
+    setExplainingStart(segment.start);
+    try {
+      const explanation = await explainSentence(segment.text, languageSettings);
+      onSaveExplanation(segment, explanation);
+      setExplanationOpen(segment.start, true);
+    } catch (e) {
+      console.error(e);
+      setExplainFailures(prev => ({ ...prev, [segment.start]: { error: toAiError(e), retry: () => explainSegment(segment) } }));
+    } finally {
+      setExplainingStart(null);
+    }
+  };
+
+  const getIdiomAudio = async (text: string, options: SpeechOptions = speech) => {
+    setLoadingIdiomText(text);
+    try {
+      return await generateSpeech(text, options, { priority: 'interactive' });
+    } finally {
+      setLoadingIdiomText(null);
+    }
+  };
+
+  const setIdiomFailure = (text: string, failure: { error: AiError; retry: () => void } | null) => {
+    setIdiomFailures(prev => {
+      const next = { ...prev };
+      if (failure) next[text] = failure; else delete next[text];
+      return next;
+    });
   };
 
-  const handlePlayIdiom = async (e: React.MouseEvent, text: string) => {
+  const handlePlayIdiom = (e: React.MouseEvent, text: string, side: 'A' | 'B' = 'A') => {
     e.stopPropagation();
+    playIdiom(text, side);
+  };
+
+  // A plays the transcript voice, B the comparison voice, so accents can be compared on one sentence
+  const playIdiom = async (text: string, side: 'A' | 'B') => {
     if (loadingIdiomText) return;
+    setIdiomFailure(text, null);
     try {
+      setIdiomVoiceSide(side);
       setPlayingIdiomText(text);
-      let audioData = audioCache[text];
-      if (!audioData) {
-          setLoadingIdiomText(text);
-          audioData = await generateSpeech(text);
-          setAudioCache(prev => ({...prev, [text]: audioData}));
-          setLoadingIdiomText(null);
-      }
-      await playPcmData(audioData);
+      await playPcmData(await getIdiomAudio(text, side === 'A' ? speech : compareSpeech));
     } catch (e) {
       console.error(e);
-      setLoadingIdiomText(null);
+      setIdiomFailure(text, { error: toAiError(e), retry: () => playIdiom(text, side) });
     } finally {
       setPlayingIdiomText(null);
     }
   };
 
-  const handleToggleRecordIdiom = async (e: React.MouseEvent, text: string) => {
+  // The idiom only exists as synthesized speech, so word boundaries are estimated on that clip
+  const handlePlayIdiomWord = async (text: string, index: number) => {
+    if (loadingIdiomText) return;
+    setIdiomFailure(text, null);
+    try {
+      setIdiomVoiceSide('A');
+      const buffer = pcmToAudioBuffer(await getIdiomAudio(text));
+      const word = alignTextToBuffer(text, buffer)[index];
+      if (word) await playAudioBufferRange(buffer, word.start, word.end);
+    } catch (e) {
+      console.error(e);
+      setIdiomFailure(text, { error: toAiError(e), retry: () => handlePlayIdiomWord(text, index) });
+    }
+  };
+
+  // Retrying reuses the same take, so a flaky request doesn't cost the learner another recording
+  const scoreIdiomTake = async (segment: TranscriptionSegment, take: Blob) => {
+    const text = segment.idiomatic;
+    setIdiomFailure(text, null);
+    setScoringIdiomText(text);
+    try {
+      const result = await scorePronunciation(take, text, languageSettings);
+      setIdiomScores(prev => ({...prev, [text]: result}));
+      if (onIdiomAttempt) onIdiomAttempt(segment, result);
+    } catch (e) {
+      console.error(e);
+      setIdiomFailure(text, { error: toAiError(e), retry: () => scoreIdiomTake(segment, take) });
+    } finally {
+      setScoringIdiomText(null);
+    }
+  };
+
+  const handleToggleRecordIdiom = async (e: React.MouseEvent, segment: TranscriptionSegment) => {
     e.stopPropagation();
+    const text = segment.idiomatic;
 
     if (recordingIdiomText === text) {
         // Stop Recording
         setRecordingIdiomText(null);
-        setScoringIdiomText(text);
         try {
             const blob = await recorder.stop();
-            
+
             // Save recording URL for playback
             const url = URL.createObjectURL(blob);
             setUserRecordings(prev => ({...prev, [text]: url}));
 
-            const result = await scorePronunciation(blob, text);
-            setIdiomScores(prev => ({...prev, [text]: result}));
+            await scoreIdiomTake(segment, blob);
         } catch (e) {
             console.error(e);
-        } finally {
-            setScoringIdiomText(null);
         }
         return;
     }
@@ -138,6 +343,7 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
     try {
         await recorder.start();
         setRecordingIdiomText(text);
+        setIdiomFailure(text, null);
         setIdiomScores(prev => {
             const next = {...prev};
             delete next[text];
@@ -171,20 +377,86 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                 {meta?.speed || '120 wpm'}
             </span>
         </div>
-        <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-bold">
-            {meta?.estimatedLevel || 'B2'}
-        </span>
+        <div className="flex items-center gap-3">
+            {onEditSegments && (
+                <button
+                    onClick={() => setIsEditing(!showEditor)}
+                    className={`flex items-center gap-1 ${showEditor ? 'text-blue-600 font-bold' : 'hover:text-blue-600'}`}
+                    title={showEditor ? "Back to studying" : "Fix text, split or merge segments and adjust timings"}
+                >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+                    {showEditor ? 'Done' : 'Edit'}
+                </button>
+            )}
+            <button
+                onClick={() => onTogglePregenerate?.(segments.map(s => s.idiomatic), speech)}
+                disabled={!onTogglePregenerate || !segments.some(s => s.idiomatic)}
+                className="flex items-center gap-1 hover:text-blue-600 disabled:opacity-40"
+                title={pregenerateProgress ? "Stop generating idiom audio" : "Pre-generate audio for all idioms"}
+            >
+                {pregenerateProgress ? (
+                    <>
+                        <div className="w-3 h-3 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+                        {pregenerateProgress.completed}/{pregenerateProgress.total}
+                    </>
+                ) : (
+                    <>
+                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                        Idiom audio
+                    </>
+                )}
+            </button>
+            <span className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full font-bold">
+                {meta?.estimatedLevel || 'B2'}
+            </span>
+        </div>
       </div>
 
+      {loopingWord && (
+        <button
+          onClick={handleStopLoop}
+          className="absolute top-14 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 px-4 py-1.5 rounded-full bg-blue-600 text-white text-xs font-bold shadow-lg animate-fade-in-up"
+        >
+          <span>Looping "{loopingWord.text}"</span>
+          <span className="opacity-75">· Stop</span>
+        </button>
+      )}
+
       {/* Content List */}
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6 pb-40 no-scrollbar">
-        {/* Placeholder Image */}
-        <div className="w-full h-40 bg-slate-200 rounded-xl overflow-hidden mb-6 flex items-center justify-center text-slate-400">
-             <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
-        </div>
+        {videoUrl && videoWithoutPicture !== videoUrl ? (
+          <VideoPane
+            videoUrl={videoUrl}
+            currentTime={currentTime}
+            playback={playback}
+            segment={currentIndex >= 0 ? segments[currentIndex] : null}
+            onNoVideoTrack={() => setVideoWithoutPicture(videoUrl)}
+          />
+        ) : (
+          // Placeholder Image
+          <div className="w-full h-40 bg-slate-200 rounded-xl overflow-hidden mb-6 flex items-center justify-center text-slate-400">
+               <svg className="w-12 h-12" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+          </div>
+        )}
 
-        {segments.map((segment, index) => {
-          const isActive = currentTime >= segment.start && currentTime < segment.end;
+        {showEditor && (
+          <TranscriptEditor
+            segments={segments}
+            audioFile={audioFile}
+            languageSettings={languageSettings}
+            notes={notes}
+            onChange={onEditSegments}
+          />
+        )}
+
+        {!showEditor && segments.map((segment, index) => {
+          const isActive = activeSegment
+            ? activeSegment.start === segment.start
+            : currentTime >= segment.start && currentTime < segment.end;
+          const noteCount = notes.filter(n => n.segmentStart === segment.start).length;
+          const wordTimings = getWordTimings(segment);
+          const activeWordIndex = isActive ? findActiveWordIndex(wordTimings, currentTime) : -1;
+          const menuWord = wordMenu?.segmentStart === segment.start ? wordTimings[wordMenu.wordIndex] : undefined;
           
           return (
             <div
@@ -197,37 +469,116 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
               }`}
               onClick={() => onSegmentClick(segment.start)}
             >
-              {/* Bookmark Icon */}
-              {onToggleFavorite && (
-                  <button 
-                    onClick={(e) => { e.stopPropagation(); onToggleFavorite(segment); }}
-                    className={`absolute top-4 right-4 p-1 rounded-full transition-colors ${segment.isFavorite ? 'text-yellow-400 hover:text-yellow-500' : 'text-slate-200 hover:text-slate-400'}`}
-                  >
-                      <svg className="w-5 h-5" fill={segment.isFavorite ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>
-                  </button>
-              )}
+              <div className="absolute top-4 right-4 flex flex-col items-center gap-1">
+                {/* Bookmark Icon */}
+                {onToggleFavorite && (
+                    <button 
+                      onClick={(e) => { e.stopPropagation(); onToggleFavorite(segment); }}
+                      className={`p-1 rounded-full transition-colors ${segment.isFavorite ? 'text-yellow-400 hover:text-yellow-500' : 'text-slate-200 hover:text-slate-400'}`}
+                    >
+                        <svg className="w-5 h-5" fill={segment.isFavorite ? "currentColor" : "none"} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" /></svg>
+                    </button>
+                )}
+
+                {/* Note Icon */}
+                {onSaveNote && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setNoteSegment(segment); }}
+                      className={`relative p-1 rounded-full transition-colors ${noteCount > 0 ? 'text-blue-400 hover:text-blue-500' : 'text-slate-200 hover:text-slate-400'}`}
+                      title="Add note"
+                    >
+                        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+                        {noteCount > 0 && (
+                            <span className="absolute -top-1 -right-1 bg-blue-500 text-white text-[9px] font-bold rounded-full w-4 h-4 flex items-center justify-center">{noteCount}</span>
+                        )}
+                    </button>
+                )}
+
+                {/* Explain Icon */}
+                {onSaveExplanation && (
+                    <button
+                      onClick={(e) => handleToggleExplanation(e, segment)}
+                      disabled={explainingStart !== null && explainingStart !== segment.start}
+                      className={`p-1 rounded-full transition-colors ${segment.explanation ? 'text-amber-400 hover:text-amber-500' : 'text-slate-200 hover:text-slate-400'}`}
+                      title="Explain this sentence"
+                    >
+                        {explainingStart === segment.start ? (
+                            <svg className="animate-spin w-5 h-5" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                        ) : (
+                            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg>
+                        )}
+                    </button>
+                )}
+              </div>
 
               {/* Original Text - Added whitespace-pre-wrap and break-words for better wrapping */}
               <p className={`text-base break-words whitespace-pre-wrap leading-relaxed mb-4 pr-8 ${isActive ? 'text-slate-900 font-medium' : 'text-slate-600'}`}>
-                {segment.text.split(' ').map((word, wIndex) => (
+                {wordTimings.map((timing, wIndex) => (
                   <span 
                     key={wIndex}
-                    className="hover:text-blue-600 hover:underline decoration-blue-300 decoration-2 cursor-pointer mx-0.5"
-                    onClick={(e) => handleWordClick(e, word, segment.text)}
+                    className={`hover:text-blue-600 hover:underline decoration-blue-300 decoration-2 cursor-pointer mx-0.5 rounded transition-colors ${
+                      wIndex === activeWordIndex ? 'bg-yellow-100 text-blue-700' : ''
+                    } ${loopingWord && loopingWord.start === timing.start && loopingWord.text === timing.text ? 'ring-2 ring-blue-300' : ''}`}
+                    onClick={(e) => handleWordClick(e, segment, wIndex)}
+                    onPointerDown={() => startLongPress(timing)}
+                    onPointerUp={cancelLongPress}
+                    onPointerLeave={cancelLongPress}
+                    onContextMenu={(e) => e.preventDefault()}
                   >
-                    {word}
+                    {timing.text}
                   </span>
                 ))}
               </p>
 
+              {/* Word Actions */}
+              {menuWord && (
+                  <div className="flex items-center gap-2 -mt-2 mb-4 text-xs animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                      <span className="font-bold text-slate-700 mr-1">{menuWord.text}</span>
+                      <button
+                          onClick={(e) => handleDefine(e, menuWord.text, segment)}
+                          className="px-3 py-1 rounded-full bg-white border border-slate-200 text-slate-600 font-bold hover:text-blue-600 shadow-sm"
+                      >
+                          Define
+                      </button>
+                      {onPlayFrom && (
+                          <button
+                              onClick={() => { setWordMenu(null); onPlayFrom(menuWord.start); }}
+                              className="px-3 py-1 rounded-full bg-white border border-slate-200 text-slate-600 font-bold hover:text-blue-600 shadow-sm"
+                          >
+                              Play from here
+                          </button>
+                      )}
+                  </div>
+              )}
+
+              {/* Sentence Explanation */}
+              {segment.explanation && openExplanations.has(segment.start) && (
+                  <SentenceExplanationPanel
+                      explanation={segment.explanation}
+                      onClose={() => setExplanationOpen(segment.start, false)}
+                  />
+              )}
+              {explainFailures[segment.start] && explainingStart !== segment.start && (
+                  <div className="-mt-2 mb-4" onClick={(e) => e.stopPropagation()}>
+                      <InlineError error={explainFailures[segment.start].error} onRetry={explainFailures[segment.start].retry} />
+                  </div>
+              )}
+
               {/* Idiomatic Expression */}
               {segment.idiomatic && (
                   <div className="mb-4 bg-blue-50 rounded-lg p-3 border-l-4 border-blue-400 shadow-sm overflow-hidden">
                     <div className="mb-3">
                         <div className="text-[10px] uppercase font-bold text-blue-400 tracking-wider mb-1 flex items-center gap-1">
-                            <span>🇺🇸 American Native</span>
+                            <span>{getIdiomLabel(languageSettings)}</span>
                         </div>
-                        <p className="text-base text-blue-900 font-medium italic leading-relaxed break-words whitespace-pre-wrap">"{segment.idiomatic}"</p>
+                        {idiomScores[segment.idiomatic]?.words?.length && !recordingIdiomText && !scoringIdiomText ? (
+                            <PronunciationBreakdown
+                                words={idiomScores[segment.idiomatic].words!}
+                                onPlayWord={(index) => handlePlayIdiomWord(segment.idiomatic, index)}
+                            />
+                        ) : (
+                            <p className="text-base text-blue-900 font-medium italic leading-relaxed break-words whitespace-pre-wrap">"{segment.idiomatic}"</p>
+                        )}
                     </div>
 
                     <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-blue-100/50">
@@ -235,13 +586,14 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                         <button 
                             onClick={(e) => handlePlayIdiom(e, segment.idiomatic)}
                             disabled={loadingIdiomText === segment.idiomatic}
+                            title={`Listen (${speech.voice})`}
                             className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition-all shadow-sm ${
-                                playingIdiomText === segment.idiomatic 
+                                playingIdiomText === segment.idiomatic && idiomVoiceSide === 'A'
                                 ? 'bg-blue-200 text-blue-800 ring-2 ring-blue-300' 
                                 : 'bg-white text-blue-600 hover:bg-blue-100 hover:shadow-md'
                             }`}
                         >
-                             {loadingIdiomText === segment.idiomatic ? (
+                             {loadingIdiomText === segment.idiomatic && idiomVoiceSide === 'A' ? (
                                  <svg className="animate-spin h-3.5 w-3.5" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
                              ) : (
                                  <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
@@ -249,9 +601,29 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                              <span>Listen</span>
                         </button>
 
+                        {/* A/B: same sentence in the comparison voice */}
+                        {voiceSettings.compareVoice !== voiceSettings.voice && (
+                            <button
+                                onClick={(e) => handlePlayIdiom(e, segment.idiomatic, 'B')}
+                                disabled={loadingIdiomText === segment.idiomatic}
+                                title={`Listen in ${voiceSettings.compareVoice}`}
+                                className={`flex items-center gap-1 px-2.5 py-1.5 rounded-full text-xs font-bold transition-all shadow-sm ${
+                                    playingIdiomText === segment.idiomatic && idiomVoiceSide === 'B'
+                                    ? 'bg-purple-200 text-purple-800 ring-2 ring-purple-300'
+                                    : 'bg-white text-purple-600 hover:bg-purple-50 hover:shadow-md'
+                                }`}
+                            >
+                                {loadingIdiomText === segment.idiomatic && idiomVoiceSide === 'B' ? (
+                                    <svg className="animate-spin h-3.5 w-3.5" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                ) : (
+                                    <span>B</span>
+                                )}
+                            </button>
+                        )}
+
                         {/* Record/Shadow Button */}
                         <button 
-                            onClick={(e) => handleToggleRecordIdiom(e, segment.idiomatic)}
+                            onClick={(e) => handleToggleRecordIdiom(e, segment)}
                             disabled={!!scoringIdiomText}
                             className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold transition-all shadow-sm ${
                                 recordingIdiomText === segment.idiomatic 
@@ -283,6 +655,14 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                              <span className="text-xs font-medium text-slate-400 animate-pulse ml-1">Scoring...</span>
                         )}
 
+                        {idiomFailures[segment.idiomatic] && !recordingIdiomText && !scoringIdiomText && (
+                            <InlineError
+                                error={idiomFailures[segment.idiomatic].error}
+                                onRetry={idiomFailures[segment.idiomatic].retry}
+                                className="ml-auto"
+                            />
+                        )}
+
                         {idiomScores[segment.idiomatic] && !recordingIdiomText && !scoringIdiomText && (
                             <div className={`ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md text-xs font-bold border animate-fade-in-up ${
                                 idiomScores[segment.idiomatic].score >= 80 
@@ -303,6 +683,14 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
         })}
       </div>
 
+      {noteSegment && onSaveNote && (
+        <NoteEditor
+          segment={noteSegment}
+          onSave={onSaveNote}
+          onClose={() => setNoteSegment(null)}
+        />
+      )}
+
       {definition && (
         <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
           <div className="absolute inset-0 bg-black/20 pointer-events-auto" onClick={() => setDefinition(null)}></div>
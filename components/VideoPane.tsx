@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PlaybackState, TranscriptionSegment } from '../types';
+
+type SubtitleMode = 'off' | 'original' | 'translation' | 'both';
+
+interface VideoPaneProps {
+  videoUrl: string;
+  currentTime: number;
+  playback: PlaybackState;
+  segment: TranscriptionSegment | null; // shown as subtitles
+  onNoVideoTrack: () => void; // e.g. an audio-only MP4
+}
+
+const SUBTITLE_MODES: { mode: SubtitleMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'original', label: 'Original' },
+  { mode: 'translation', label: 'Translation' },
+  { mode: 'both', label: 'Both' },
+];
+
+// While playing, small drift is left alone; seeking on every time update would stutter
+const PLAYING_DRIFT_SECONDS = 0.3;
+const PAUSED_DRIFT_SECONDS = 0.05;
+
+/**
+ * Muted video that follows the audio player, with optional subtitle overlay.
+ */
+export const VideoPane: React.FC<VideoPaneProps> = ({ videoUrl, currentTime, playback, segment, onNoVideoTrack }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [subtitleMode, setSubtitleMode] = useState<SubtitleMode>('original');
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.playbackRate = playback.rate;
+    if (playback.playing) {
+      // Rejected when a pause interrupts it, which the next effect run handles
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [playback.playing, playback.rate]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const tolerance = playback.playing ? PLAYING_DRIFT_SECONDS : PAUSED_DRIFT_SECONDS;
+    if (Math.abs(video.currentTime - currentTime) > tolerance) video.currentTime = currentTime;
+  }, [currentTime, playback.playing]);
+
+  const showOriginal = segment && (subtitleMode === 'original' || subtitleMode === 'both');
+  const showTranslation = segment?.translation && (subtitleMode === 'translation' || subtitleMode === 'both');
+
+  return (
+    <div className="mb-6" onClick={(e) => e.stopPropagation()}>
+      <div className="relative w-full bg-black rounded-xl overflow-hidden">
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          muted
+          playsInline
+          preload="auto"
+          className="w-full max-h-64 object-contain"
+          onLoadedMetadata={(e) => {
+            if (e.currentTarget.videoWidth === 0) onNoVideoTrack();
+            e.currentTarget.currentTime = currentTime;
+          }}
+        />
+        {(showOriginal || showTranslation) && (
+          <div className="absolute inset-x-2 bottom-2 flex flex-col items-center gap-1 pointer-events-none">
+            {showOriginal && (
+              <span className="bg-black/70 text-white text-sm font-medium px-2 py-0.5 rounded text-center">{segment!.text}</span>
+            )}
+            {showTranslation && (
+              <span className="bg-black/70 text-yellow-200 text-xs px-2 py-0.5 rounded text-center">{segment!.translation}</span>
+            )}
+          </div>
+        )}
+      </div>
+      <div className="flex items-center gap-1 mt-2 text-[10px] font-bold">
+        <span className="uppercase text-slate-400 mr-1">Subtitles</span>
+        {SUBTITLE_MODES.map(m => (
+          <button
+            key={m.mode}
+            onClick={() => setSubtitleMode(m.mode)}
+            className={`px-2 py-0.5 rounded-full ${subtitleMode === m.mode ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:text-blue-600'}`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { VocabularyEntry } from '../types';
+import {
+  VocabularySort,
+  VocabularyExportFormat,
+  listVocabulary,
+  setLearned,
+  deleteVocabularyEntry,
+  filterVocabulary,
+  exportVocabulary,
+} from '../services/vocabulary';
+import { downloadBlob } from '../services/downloadUtils';
+import { formatTime, formatDate } from '../services/formatUtils';
+
+interface VocabularyViewProps {
+  onClose: () => void;
+  onOpenSource: (libraryItemId: string, segmentStart: number) => void;
+}
+
+const SORTS: { sort: VocabularySort; label: string }[] = [
+  { sort: 'recent', label: 'Recent' },
+  { sort: 'frequency', label: 'Most looked up' },
+  { sort: 'alphabetical', label: 'A–Z' },
+];
+
+const EXPORT_MIME_TYPES: Record<VocabularyExportFormat, string> = {
+  csv: 'text/csv',
+  tsv: 'text/tab-separated-values',
+};
+
+export const VocabularyView: React.FC<VocabularyViewProps> = ({ onClose, onOpenSource }) => {
+  const [entries, setEntries] = useState<VocabularyEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<VocabularySort>('recent');
+  const [showLearned, setShowLearned] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    listVocabulary()
+      .then(setEntries)
+      .catch(e => console.error("Failed to load vocabulary", e))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visible = filterVocabulary(entries, query, sort).filter(e => showLearned || !e.learnedAt);
+  const learnedCount = entries.filter(e => e.learnedAt).length;
+
+  const replaceEntry = (updated: VocabularyEntry) => setEntries(prev => prev.map(e => e.id === updated.id ? updated : e));
+
+  const handleToggleLearned = async (e: React.MouseEvent, entry: VocabularyEntry) => {
+    e.stopPropagation();
+    try {
+      replaceEntry(await setLearned(entry, !entry.learnedAt));
+    } catch (err) { console.error(err); }
+  };
+
+  const handleDelete = async (entry: VocabularyEntry) => {
+    if (!window.confirm(`Remove "${entry.word}" from your notebook?`)) return;
+    try {
+      await deleteVocabularyEntry(entry.id);
+      setEntries(prev => prev.filter(e => e.id !== entry.id));
+    } catch (err) { console.error(err); }
+  };
+
+  // Exports what is on screen, so search and the learned filter narrow the file too
+  const handleExport = (format: VocabularyExportFormat) => {
+    const content = exportVocabulary(visible, format);
+    downloadBlob(new Blob([content], { type: `${EXPORT_MIME_TYPES[format]};charset=utf-8` }), `vocabulary.${format}`);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Vocabulary</h2>
+        <div className="flex gap-1">
+          {(['csv', 'tsv'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={visible.length === 0}
+              className="text-[10px] font-bold uppercase px-2 py-1 rounded-full bg-slate-100 text-slate-500 hover:text-blue-600 disabled:opacity-30"
+            >
+              {format}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Search & Sort */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 space-y-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search words, definitions, sentences..."
+          className="w-full text-sm border border-slate-200 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+        <div className="flex items-center gap-2 text-xs">
+          {SORTS.map(s => (
+            <button
+              key={s.sort}
+              onClick={() => setSort(s.sort)}
+              className={`px-2 py-1 rounded-full font-bold ${sort === s.sort ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500'}`}
+            >
+              {s.label}
+            </button>
+          ))}
+          <label className="ml-auto flex items-center gap-1 text-slate-500">
+            <input type="checkbox" checked={showLearned} onChange={(e) => setShowLearned(e.target.checked)} className="accent-blue-600" />
+            Learned ({learnedCount})
+          </label>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <div className="w-8 h-8 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-sm text-slate-400 text-center py-10">
+            {entries.length === 0 ? 'Tap a word in a transcript and choose Define to start your notebook.' : 'No matching words.'}
+          </p>
+        ) : visible.map(entry => (
+          <div
+            key={entry.id}
+            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+            className={`bg-white rounded-xl p-4 border border-slate-100 shadow-sm cursor-pointer ${entry.learnedAt ? 'opacity-60' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <span className="font-bold text-slate-800">{entry.word}</span>
+              {entry.phonetic && <span className="text-xs font-mono text-slate-400">{entry.phonetic}</span>}
+              <span className="text-[10px] font-bold uppercase text-slate-400">{entry.sourceLanguage}</span>
+              {entry.lookupCount > 1 && (
+                <span className="text-[10px] font-bold bg-blue-50 text-blue-600 px-1.5 rounded-full">×{entry.lookupCount}</span>
+              )}
+              <button
+                onClick={(e) => handleToggleLearned(e, entry)}
+                className={`ml-auto text-[10px] font-bold uppercase px-2 py-1 rounded-full ${entry.learnedAt ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-400 hover:text-green-600'}`}
+              >
+                {entry.learnedAt ? 'Learned' : 'Mark learned'}
+              </button>
+            </div>
+            <p className="text-sm text-slate-600 mt-1">{entry.definition}</p>
+
+            {expandedId === entry.id && (
+              <div className="mt-3 space-y-3 animate-fade-in-up">
+                {entry.example && <p className="text-sm text-slate-600 italic bg-slate-50 p-2 rounded-lg">"{entry.example}"</p>}
+                <ul className="space-y-1">
+                  {entry.sources.map((source, i) => (
+                    <li
+                      key={i}
+                      onClick={(e) => { e.stopPropagation(); onOpenSource(source.libraryItemId, source.segmentStart); }}
+                      className="text-xs text-slate-500 hover:text-blue-600 cursor-pointer"
+                    >
+                      <span className="font-mono text-blue-600">{formatTime(source.segmentStart)}</span>
+                      <span className="mx-1">·</span>
+                      <span className="font-medium">{source.itemName}</span>
+                      <span className="block text-slate-400 truncate">{source.sentence}</span>
+                    </li>
+                  ))}
+                </ul>
+                <div className="flex items-center justify-between text-[11px] text-slate-400">
+                  <span>First looked up {formatDate(entry.firstLookedUpAt)}</span>
+                  <button onClick={(e) => { e.stopPropagation(); handleDelete(entry); }} className="text-red-400 hover:text-red-600 font-bold">
+                    Remove
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { LanguageSettings, SpeechRate, VoiceSettings } from '../types';
+import { generateSpeech, getAvailableVoices } from '../services/geminiService';
+import { playPcmData } from '../services/audioUtils';
+import { getSourceLanguage } from '../services/languages';
+import { getSpeechOptions } from '../services/voices';
+import { useToast } from './ErrorFeedback';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  languageSettings: LanguageSettings; // accents and preview sentence follow the transcript's language
+  isTranscriptScope: boolean; // editing the open transcript's voice rather than the default
+  onSave: (settings: VoiceSettings, asDefault: boolean) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SENTENCES: Record<string, string> = {
+  en: "Hi there! This is how I sound.",
+  es: "¡Hola! Así es como sueno.",
+  ja: "こんにちは。私の声はこんな感じです。",
+  fr: "Bonjour ! Voici ma voix.",
+  de: "Hallo! So klinge ich.",
+};
+
+const RATES: { rate: SpeechRate; label: string }[] = [
+  { rate: 'slow', label: 'Slow' },
+  { rate: 'normal', label: 'Normal' },
+];
+
+const selectClassName = "w-full text-sm text-slate-800 bg-white border border-slate-200 rounded-lg px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:opacity-50";
+
+export const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({ settings, languageSettings, isTranscriptScope, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const [asDefault, setAsDefault] = useState(!isTranscriptScope);
+  const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
+  const { showError } = useToast();
+  const voices = getAvailableVoices();
+  const source = getSourceLanguage(languageSettings.sourceLanguage);
+
+  const handlePreview = async (voice: string) => {
+    if (previewingVoice) return;
+    setPreviewingVoice(voice);
+    try {
+      const text = PREVIEW_SENTENCES[source.code] || PREVIEW_SENTENCES.en;
+      await playPcmData(await generateSpeech(text, getSpeechOptions(draft, languageSettings, voice), { priority: 'interactive' }));
+    } catch (e) {
+      console.error("Voice preview failed", e);
+      showError(e);
+    } finally {
+      setPreviewingVoice(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
+      <div className="absolute inset-0 bg-black/20 pointer-events-auto" onClick={onClose}></div>
+      <div className="bg-white w-full sm:w-96 p-6 rounded-t-2xl sm:rounded-2xl shadow-2xl relative pointer-events-auto animate-fade-in-up space-y-5">
+        <div>
+          <h4 className="text-lg font-bold text-slate-800">Voice</h4>
+          <p className="text-xs text-slate-400">{isTranscriptScope ? 'Used for this transcript' : 'Used for every transcript without its own voice'}</p>
+        </div>
+
+        {voices.length === 0 ? (
+          <p className="text-sm text-slate-400">No configured speech provider offers voice selection.</p>
+        ) : (
+          <div className="max-h-60 overflow-y-auto -mx-2 space-y-1">
+            {voices.map(v => (
+              <div
+                key={v.name}
+                onClick={() => setDraft({ ...draft, voice: v.name })}
+                className={`flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer ${draft.voice === v.name ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-slate-50'}`}
+              >
+                <button
+                  onClick={(e) => { e.stopPropagation(); handlePreview(v.name); }}
+                  disabled={!!previewingVoice}
+                  className="w-7 h-7 flex items-center justify-center rounded-full bg-white border border-slate-200 text-blue-600 disabled:opacity-40"
+                  title="Preview"
+                >
+                  {previewingVoice === v.name ? (
+                    <div className="w-3 h-3 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+                  ) : (
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                  )}
+                </button>
+                <span className="text-sm font-bold text-slate-700">{v.name}</span>
+                <span className="text-xs text-slate-400">{v.description}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setDraft({ ...draft, compareVoice: v.name }); }}
+                  className={`ml-auto text-[10px] font-bold px-2 py-0.5 rounded-full ${draft.compareVoice === v.name ? 'bg-purple-600 text-white' : 'bg-slate-100 text-slate-400 hover:text-purple-600'}`}
+                  title="Use as the B voice for A/B listening"
+                >
+                  B
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wide">Rate</span>
+            <div className="flex gap-1">
+              {RATES.map(r => (
+                <button
+                  key={r.rate}
+                  onClick={() => setDraft({ ...draft, rate: r.rate })}
+                  className={`flex-1 py-1.5 rounded-lg text-sm font-bold border transition ${draft.rate === r.rate ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {r.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="block">
+            <span className="text-[11px] font-bold text-slate-400 uppercase tracking-wide">Accent</span>
+            <select
+              value={draft.accent || ''}
+              onChange={(e) => setDraft({ ...draft, accent: e.target.value || undefined })}
+              disabled={source.varieties.length < 2}
+              className={selectClassName}
+            >
+              <option value="">Voice default</option>
+              {source.varieties.map(v => <option key={v.code} value={v.code}>{v.flag} {v.name}</option>)}
+            </select>
+          </label>
+        </div>
+
+        {isTranscriptScope && (
+          <label className="flex items-center justify-between text-sm text-slate-600">
+            <span>Also use for other transcripts</span>
+            <input type="checkbox" checked={asDefault} onChange={(e) => setAsDefault(e.target.checked)} className="accent-blue-600" />
+          </label>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="ml-auto px-4 py-2 text-sm font-medium text-slate-500 hover:bg-slate-100 rounded-lg">Cancel</button>
+          <button
+            onClick={() => { onSave(draft, asDefault); onClose(); }}
+            className="px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
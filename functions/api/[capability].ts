@@ -0,0 +1,13 @@
+import { ApiEnv, handleApiRequest } from "../../server/api";
+
+// Cloudflare Pages Function for POST /api/:capability (see server/api.ts).
+
+// The parts of the Pages Functions context this route uses
+interface PagesContext {
+  request: Request;
+  env: ApiEnv;
+  params: Record<string, string | string[]>;
+}
+
+export const onRequestPost = ({ request, env, params }: PagesContext) =>
+  handleApiRequest(request, env, String(params.capability));
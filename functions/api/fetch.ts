@@ -0,0 +1,6 @@
+import { handleFetchRequest } from "../../server/fetchProxy";
+
+// Cloudflare Pages Function for GET /api/fetch?url=... (see server/fetchProxy.ts).
+// Static routes take precedence over functions/api/[capability].ts.
+
+export const onRequestGet = ({ request }: { request: Request }) => handleFetchRequest(request);
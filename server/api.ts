@@ -0,0 +1,199 @@
+import { LanguageSettings } from "../types";
+import { AiError, AuthError, PayloadTooLargeError, RateLimitError, UnknownAiError, toAiError } from "../services/errors";
+import { AiCapability, AiProvider } from "../services/providers/types";
+import { ProviderConfig, createProviders, parseChains, resolveSpeech, selectProviders } from "../services/providers/registry";
+import { ApiErrorBody, DefineRequest, EnrichRequest, ExplainRequest, PROXY_LIMITS, PROXY_REQUESTS_PER_MINUTE, TtsRequest, TtsResponse } from "../services/providers/proxyProtocol";
+import { takeRateLimitSlot } from "./rateLimit";
+
+// The API worker behind the proxy provider. It holds the provider keys as secrets, runs
+// the same provider chains the browser would, and answers with JSON or an ApiErrorBody.
+
+// Secrets (`wrangler pages secret put`) and vars from wrangler.toml, or .dev.vars locally
+export type ApiEnv = ProviderConfig;
+
+const CAPABILITIES: AiCapability[] = ['transcribe', 'enrich', 'define', 'explain', 'tts', 'score'];
+
+const KIND_STATUS: Record<AiError['kind'], number> = {
+  'auth': 401,
+  'quota': 429,
+  'rate-limit': 429,
+  'payload-too-large': 413,
+  'unsupported-format': 415,
+  'parse-failure': 502,
+  'network': 502,
+  'provider-down': 503,
+  'unknown': 500,
+};
+
+const badRequest = (message: string) => new UnknownAiError(message, { status: 400 });
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+
+export const errorResponse = (error: AiError) => {
+  const body: ApiErrorBody = { error: { kind: error.kind, message: error.message } };
+  const status = error.kind === 'unknown' ? error.status || 500 : KIND_STATUS[error.kind];
+  const headers: Record<string, string> = error.retryAfterMs !== undefined
+    ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) }
+    : {};
+  return jsonResponse(body, status, headers);
+};
+
+const isAudioJob = (capability: AiCapability) => capability === 'transcribe' || capability === 'score';
+
+/**
+ * Rejects oversized bodies from Content-Length before reading them.
+ */
+const checkDeclaredSize = (request: Request, capability: AiCapability) => {
+  const declared = Number(request.headers.get('content-length'));
+  // Multipart adds a little framing around the audio
+  const max = isAudioJob(capability) ? PROXY_LIMITS.maxAudioBytes + 64 * 1024 : PROXY_LIMITS.maxJsonBytes;
+  if (declared > max) {
+    throw new PayloadTooLargeError(`Request body is ${declared} bytes; ${capability} accepts up to ${max}`, { status: 413 });
+  }
+};
+
+// checkDeclaredSize turns away an oversized Content-Length; a chunked body has none, so stop reading at the limit
+const readBoundedText = async (request: Request, maxBytes: number): Promise<string> => {
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new PayloadTooLargeError(`Request body exceeds ${maxBytes} bytes`, { status: 413 });
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+const readJson = async <T>(request: Request): Promise<T> => {
+  const text = await readBoundedText(request, PROXY_LIMITS.maxJsonBytes);
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw badRequest("Request body is not valid JSON");
+  }
+};
+
+const readAudioForm = async (request: Request) => {
+  const form = await request.formData();
+  const audio = form.get('audio');
+  if (!(audio instanceof Blob)) throw badRequest("Missing 'audio' file");
+  if (audio.size > PROXY_LIMITS.maxAudioBytes) {
+    throw new PayloadTooLargeError(`Audio is ${audio.size} bytes; the API accepts up to ${PROXY_LIMITS.maxAudioBytes}`, { status: 413 });
+  }
+  const field = (name: string) => {
+    const value = form.get(name);
+    if (typeof value !== 'string') throw badRequest(`Missing '${name}' field`);
+    return value;
+  };
+  const parseSettings = (): LanguageSettings => {
+    try {
+      return JSON.parse(field('settings')) as LanguageSettings;
+    } catch (e) {
+      throw e instanceof AiError ? e : badRequest("'settings' is not valid JSON");
+    }
+  };
+  return { audio, field, parseSettings };
+};
+
+/**
+ * Tries each configured provider in the capability's chain. Retries and backoff are left
+ * to the browser's scheduler, which honors the Retry-After this worker passes on.
+ */
+const runChain = async <T>(env: ApiEnv, capability: AiCapability, call: (provider: AiProvider) => Promise<T>): Promise<T> => {
+  const candidates = selectProviders(createProviders(env), parseChains(env.AI_PROVIDERS)[capability], capability);
+  if (candidates.length === 0) {
+    throw new AuthError(`No AI provider with a key is configured on the server for ${capability}`);
+  }
+
+  let lastError: AiError | undefined;
+  for (const provider of candidates) {
+    try {
+      return await call(provider);
+    } catch (error) {
+      lastError = toAiError(error);
+      console.warn(`[API] ${provider.id} failed to ${capability}: ${lastError.message}`);
+    }
+  }
+  throw lastError!;
+};
+
+const runCapability = async (capability: AiCapability, request: Request, env: ApiEnv): Promise<unknown> => {
+  switch (capability) {
+    case 'transcribe': {
+      const { audio, field, parseSettings } = await readAudioForm(request);
+      const mimeType = field('mimeType');
+      const settings = parseSettings();
+      return runChain(env, capability, p => p.transcribe!(audio, mimeType, settings));
+    }
+    case 'score': {
+      const { audio, field, parseSettings } = await readAudioForm(request);
+      const referenceText = field('referenceText');
+      const settings = parseSettings();
+      return runChain(env, capability, p => p.score!(audio, referenceText, settings));
+    }
+    case 'enrich': {
+      const { texts, settings } = await readJson<EnrichRequest>(request);
+      if (!Array.isArray(texts) || texts.length > PROXY_LIMITS.maxEnrichTexts) {
+        throw badRequest(`'texts' must be an array of at most ${PROXY_LIMITS.maxEnrichTexts} strings`);
+      }
+      return { items: await runChain(env, capability, p => p.enrich!(texts, settings)) };
+    }
+    case 'define': {
+      const { word, contextSentence, settings } = await readJson<DefineRequest>(request);
+      if (!word) throw badRequest("Missing 'word'");
+      return runChain(env, capability, p => p.define!(word, contextSentence || '', settings));
+    }
+    case 'explain': {
+      const { sentence, settings } = await readJson<ExplainRequest>(request);
+      if (!sentence) throw badRequest("Missing 'sentence'");
+      return runChain(env, capability, p => p.explain!(sentence, settings));
+    }
+    case 'tts': {
+      const { text, speech } = await readJson<TtsRequest>(request);
+      if (!text || text.length > PROXY_LIMITS.maxTtsChars) {
+        throw badRequest(`'text' must be 1 to ${PROXY_LIMITS.maxTtsChars} characters`);
+      }
+      const response: TtsResponse = { audio: await runChain(env, capability, p => p.tts!(text, resolveSpeech(p, speech))) };
+      return response;
+    }
+  }
+};
+
+/**
+ * Handles POST /api/:capability.
+ */
+export const handleApiRequest = async (request: Request, env: ApiEnv, capability: string): Promise<Response> => {
+  try {
+    if (!CAPABILITIES.includes(capability as AiCapability)) {
+      return errorResponse(new UnknownAiError(`Unknown endpoint: ${capability}`, { status: 404 }));
+    }
+    const job = capability as AiCapability;
+
+    const client = request.headers.get('cf-connecting-ip') || 'local';
+    const waitMs = takeRateLimitSlot(`${client}:${job}`, PROXY_REQUESTS_PER_MINUTE[job]);
+    if (waitMs > 0) {
+      throw new RateLimitError(`Too many ${job} requests from this client`, { status: 429, retryAfterMs: waitMs });
+    }
+
+    checkDeclaredSize(request, job);
+    return jsonResponse(await runCapability(job, request, env));
+  } catch (error) {
+    const aiError = toAiError(error);
+    if (aiError.kind === 'unknown') console.error(`[API] ${capability} failed`, error);
+    return errorResponse(aiError);
+  }
+};
@@ -0,0 +1,172 @@
+import { PayloadTooLargeError, RateLimitError, UnknownAiError, createAiError, toAiError } from "../services/errors";
+import { FETCH_REQUESTS_PER_MINUTE, PROXY_LIMITS } from "../services/providers/proxyProtocol";
+import { errorResponse } from "./api";
+import { takeRateLimitSlot } from "./rateLimit";
+
+// Relays podcast feeds, chapters, transcripts and episode audio for the browser, which
+// can't read most of them directly because podcast hosts rarely send CORS headers.
+
+const PRIVATE_NAME = /^(localhost|.*\.localhost|.*\.local|.*\.internal)$/i;
+const MAX_REDIRECTS = 5;
+// Resolves host names so ones pointing at private addresses are refused too
+const DNS_OVER_HTTPS = 'https://cloudflare-dns.com/dns-query';
+
+const badRequest = (message: string) => new UnknownAiError(message, { status: 400 });
+const forbidden = (message: string) => new UnknownAiError(message, { status: 403 });
+
+const isPrivateIpv4 = (address: string) => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168);
+};
+
+const isPrivateIpv6 = (address: string) => {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+  if (ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip)) return true;
+  // IPv4-mapped, e.g. ::ffff:127.0.0.1 or its normalized form ::ffff:7f00:1
+  const mapped = ip.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (!mapped) return false;
+  if (mapped[1]) return isPrivateIpv4(mapped[1]);
+  const high = parseInt(mapped[2], 16);
+  const low = parseInt(mapped[3], 16);
+  return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+};
+
+const IPV4 = /^\d+\.\d+\.\d+\.\d+$/;
+
+const resolveAddresses = async (hostname: string): Promise<string[]> => {
+  const lookups = ['A', 'AAAA'].map(async type => {
+    const response = await fetch(`${DNS_OVER_HTTPS}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { "Accept": "application/dns-json" },
+    });
+    if (!response.ok) throw createAiError('network', `Could not resolve ${hostname}`, { status: 502 });
+    const data = await response.json() as { Answer?: { type: number; data: string }[] };
+    // 1 = A, 28 = AAAA; CNAME records in between are skipped
+    return (data.Answer || []).filter(a => a.type === 1 || a.type === 28).map(a => a.data);
+  });
+  return (await Promise.all(lookups)).flat();
+};
+
+/**
+ * Refuses anything but public http(s) hosts, checked again for every redirect hop.
+ */
+const assertPublicUrl = async (target: URL) => {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') throw badRequest("Only http and https URLs can be fetched");
+  const host = target.hostname;
+  if (PRIVATE_NAME.test(host)) throw badRequest("Private hosts can't be fetched");
+  if (host.startsWith('[')) {
+    if (isPrivateIpv6(host)) throw badRequest("Private hosts can't be fetched");
+    return;
+  }
+  if (IPV4.test(host)) {
+    if (isPrivateIpv4(host)) throw badRequest("Private hosts can't be fetched");
+    return;
+  }
+  const addresses = await resolveAddresses(host);
+  if (addresses.length === 0) throw createAiError('network', `${host} does not resolve`, { status: 502 });
+  if (addresses.some(a => IPV4.test(a) ? isPrivateIpv4(a) : isPrivateIpv6(a))) {
+    throw badRequest(`${host} resolves to a private address`);
+  }
+};
+
+const parseTarget = (request: Request) => {
+  const raw = new URL(request.url).searchParams.get('url');
+  if (!raw) throw badRequest("Missing 'url' parameter");
+  try {
+    return new URL(raw);
+  } catch {
+    throw badRequest("'url' is not a valid URL");
+  }
+};
+
+/**
+ * Only the app's own pages may use the proxy. Same-origin GETs don't always carry Origin,
+ * so Referer counts too; comparing against Host keeps the Vite dev proxy working.
+ */
+const assertSameOrigin = (request: Request) => {
+  const source = request.headers.get('origin') || request.headers.get('referer');
+  const host = request.headers.get('host') || new URL(request.url).host;
+  let sourceHost: string | undefined;
+  try {
+    sourceHost = source ? new URL(source).host : undefined;
+  } catch {
+    sourceHost = undefined;
+  }
+  if (sourceHost !== host) throw forbidden("The fetch proxy only serves this app's own pages");
+};
+
+/**
+ * Follows up to MAX_REDIRECTS redirects by hand so each hop's host is checked.
+ */
+const fetchPublic = async (start: URL, accept: string) => {
+  let target = start;
+  for (let hop = 0; ; hop++) {
+    await assertPublicUrl(target);
+    const response = await fetch(target.href, {
+      headers: { "Accept": accept, "User-Agent": "LinguaSync feed reader" },
+      redirect: 'manual',
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return { response, target };
+    await response.body?.cancel();
+    if (hop === MAX_REDIRECTS) throw createAiError('network', `${start.host} redirected more than ${MAX_REDIRECTS} times`, { status: 502 });
+    try {
+      target = new URL(location, target);
+    } catch {
+      throw createAiError('network', `${target.host} redirected to an invalid URL`, { status: 502 });
+    }
+  }
+};
+
+// A chunked body declares no length (and a declared one can be wrong), so the bytes are counted as they pass
+const limitBody = (body: ReadableStream<Uint8Array>, target: URL) => {
+  let received = 0;
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength;
+      if (received > PROXY_LIMITS.maxFetchBytes) {
+        controller.error(new PayloadTooLargeError(`${target.href} exceeds the proxy's ${PROXY_LIMITS.maxFetchBytes} byte limit`, { status: 413 }));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  }));
+};
+
+/**
+ * Handles GET /api/fetch?url=...: streams the upstream body back with its content type.
+ */
+export const handleFetchRequest = async (request: Request): Promise<Response> => {
+  try {
+    assertSameOrigin(request);
+    const client = request.headers.get('cf-connecting-ip') || 'local';
+    const waitMs = takeRateLimitSlot(`${client}:fetch`, FETCH_REQUESTS_PER_MINUTE);
+    if (waitMs > 0) {
+      throw new RateLimitError("Too many fetch requests from this client", { status: 429, retryAfterMs: waitMs });
+    }
+
+    const { response: upstream, target } = await fetchPublic(parseTarget(request), request.headers.get('accept') || '*/*');
+    if (!upstream.ok) {
+      throw createAiError('network', `${target.host} answered ${upstream.status}`, { status: 502 });
+    }
+    const length = Number(upstream.headers.get('content-length'));
+    if (length > PROXY_LIMITS.maxFetchBytes) {
+      throw new PayloadTooLargeError(`${target.href} is ${length} bytes; the proxy relays up to ${PROXY_LIMITS.maxFetchBytes}`, { status: 413 });
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": upstream.headers.get('content-type') || 'application/octet-stream',
+      // Only the requesting browser may cache it; shared caches would serve it to anyone
+      "Cache-Control": "private, max-age=300",
+    };
+    if (length) headers["Content-Length"] = String(length);
+    return new Response(upstream.body && limitBody(upstream.body, target), { status: 200, headers });
+  } catch (error) {
+    const aiError = toAiError(error);
+    if (aiError.kind === 'unknown' && aiError.status !== 400 && aiError.status !== 403) console.error("[API] fetch failed", error);
+    return errorResponse(aiError);
+  }
+};
@@ -0,0 +1,31 @@
+// Sliding one-minute window per key (client and capability). The state lives in the
+// worker isolate, so this stops a single client from hammering one isolate; it is not
+// a global quota across Cloudflare's edge.
+
+const WINDOW_MS = 60_000;
+const MAX_TRACKED_KEYS = 10_000;
+
+const hits = new Map<string, number[]>();
+
+const prune = (now: number) => {
+  for (const [key, times] of hits) {
+    if (times.every(t => now - t >= WINDOW_MS)) hits.delete(key);
+  }
+};
+
+/**
+ * Records a request for `key` if it fits within `limit` per minute. Returns 0 when
+ * allowed, otherwise the milliseconds until a slot frees up.
+ */
+export const takeRateLimitSlot = (key: string, limit: number, now = Date.now()): number => {
+  if (hits.size > MAX_TRACKED_KEYS) prune(now);
+
+  const recent = (hits.get(key) || []).filter(t => now - t < WINDOW_MS);
+  if (recent.length >= limit) {
+    hits.set(key, recent);
+    return recent[0] + WINDOW_MS - now;
+  }
+  recent.push(now);
+  hits.set(key, recent);
+  return 0;
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { unzipSync, strFromU8 } from 'fflate';
+import initSqlJs from 'sql.js';
+import { TranscriptionSegment, VocabularyEntry } from '../types';
+import { exportAnkiDeck } from './ankiExport';
+
+// Node has no Web Audio, so "decoding" yields three seconds of a known ramp at the clip rate
+vi.mock('./audioUtils', async importOriginal => ({
+  ...await importOriginal<typeof import('./audioUtils')>(),
+  decodeAudioBlob: async () => ({}),
+  resampleToMono: async () => Float32Array.from({ length: 3 * 24000 }, (_, i) => (i % 100) / 100),
+}));
+
+// The browser build fetches the wasm from a URL; here sql.js reads it from disk
+vi.mock('sql.js/dist/sql-wasm.wasm?url', () => ({
+  default: fileURLToPath(new URL('../node_modules/sql.js/dist/sql-wasm.wasm', import.meta.url)),
+}));
+
+const segments: TranscriptionSegment[] = [
+  { start: 0, end: 1.5, text: 'Guten <b>Morgen</b>', translation: 'Good morning', idiomatic: 'Morning!' },
+  { start: 1.5, end: 3, text: 'Bis bald', translation: 'See you soon', idiomatic: '' },
+];
+
+const vocabulary: VocabularyEntry[] = [{
+  id: 'de:morgen', word: 'Morgen', sourceLanguage: 'de', definition: 'morning, "tomorrow"', example: 'Bis morgen!',
+  sources: [{ libraryItemId: 'item', itemName: 'Episode', segmentStart: 0, sentence: 'Guten Morgen', lookedUpAt: 0 }],
+  lookupCount: 1, firstLookedUpAt: 0, lastLookedUpAt: 0,
+}];
+
+const unzip = async (blob: Blob) => unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+// Size of a WAV clip's sample data, from its RIFF header
+const wavDataBytes = (wav: Uint8Array) => new DataView(wav.buffer, wav.byteOffset).getUint32(40, true);
+
+describe('exportAnkiDeck as .apkg', () => {
+  it('numbers the media files and maps them to the clip names used in the notes', async () => {
+    const files = await unzip(await exportAnkiDeck(segments, new Blob(), [], { deckName: 'German A1', template: 'listening', format: 'apkg' }));
+    expect(Object.keys(files).sort()).toEqual(['0', '1', 'collection.anki2', 'media']);
+    expect(JSON.parse(strFromU8(files['media']))).toEqual({ 0: 'linguasync-german-a1-0.wav', 1: 'linguasync-german-a1-1500.wav' });
+    // 1.5 s of 16-bit mono at 24 kHz
+    expect(wavDataBytes(files['0'])).toBe(1.5 * 24000 * 2);
+  });
+
+  it('writes one note per segment or word and one card per template', async () => {
+    const files = await unzip(await exportAnkiDeck(segments, new Blob(), vocabulary, { deckName: 'German A1', template: 'both', format: 'apkg' }));
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(files['collection.anki2']);
+    try {
+      const notes = db.exec('SELECT flds, sfld, tags FROM notes ORDER BY id')[0].values;
+      expect(notes.map(([flds]) => String(flds).split('\x1f'))).toEqual([
+        ['[sound:linguasync-german-a1-0.wav]', 'Guten &lt;b&gt;Morgen&lt;/b&gt;', 'Good morning', 'Morning!'],
+        ['[sound:linguasync-german-a1-1500.wav]', 'Bis bald', 'See you soon', ''],
+        ['Morgen', '', 'morning, &quot;tomorrow&quot;', 'Bis morgen!', 'Guten Morgen'],
+      ]);
+      expect(notes.slice(1).map(([, sfld]) => sfld)).toEqual(['Bis bald', 'Morgen']);
+      expect(notes[0][2]).toBe(' linguasync ');
+
+      const cards = db.exec('SELECT nid, ord FROM cards ORDER BY id')[0].values;
+      expect(cards.map(([, ord]) => ord)).toEqual([0, 1, 0, 1, 0]);
+
+      const [models, decks] = db.exec('SELECT models, decks FROM col')[0].values[0].map(v => JSON.parse(String(v)));
+      const modelList: { tmpls: { name: string }[] }[] = Object.values(models);
+      const deckList: { name: string }[] = Object.values(decks);
+      expect(modelList.map(m => m.tmpls.map(t => t.name))).toEqual([['Listening', 'Reading'], ['Word']]);
+      expect(deckList.map(d => d.name)).toEqual(['Default', 'German A1']);
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe('exportAnkiDeck as CSV', () => {
+  it('puts clips in a media folder next to CSVs with importer headers', async () => {
+    const files = await unzip(await exportAnkiDeck(segments, new Blob(), vocabulary, { deckName: 'German A1', template: 'reading', format: 'csv' }));
+    expect(Object.keys(files).filter(name => !name.endsWith('/')).sort()).toEqual([
+      'german-a1-vocabulary.csv', 'german-a1.csv', 'media/linguasync-german-a1-0.wav', 'media/linguasync-german-a1-1500.wav',
+    ]);
+    expect(strFromU8(files['german-a1.csv']).split('\r\n').slice(0, 5)).toEqual([
+      '#separator:Comma', '#html:true', '#tags:linguasync', '#columns:Audio,Text,Translation,Idiomatic',
+      '[sound:linguasync-german-a1-0.wav],Guten &lt;b&gt;Morgen&lt;/b&gt;,Good morning,Morning!',
+    ]);
+    expect(strFromU8(files['german-a1-vocabulary.csv'])).toContain('Morgen,,"morning, &quot;tomorrow&quot;",Bis morgen!,Guten Morgen\r\n');
+  });
+});
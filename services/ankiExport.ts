@@ -0,0 +1,319 @@
+import type { Database, SqlJsStatic } from "sql.js";
+import sqlWasmUrl from "sql.js/dist/sql-wasm.wasm?url";
+import { Zippable, strToU8, zipSync } from "fflate";
+import { TranscriptionSegment, VocabularyEntry } from "../types";
+import { decodeAudioBlob, encodeWav, resampleToMono } from "./audioUtils";
+import { csvField } from "./vocabulary";
+
+// Anki deck export: an .apkg package (SQLite collection + numbered media files),
+// or CSV files with a media folder for Anki's plain-text importer.
+
+export type AnkiCardTemplate = 'listening' | 'reading' | 'both';
+export type AnkiExportFormat = 'apkg' | 'csv';
+
+export interface AnkiExportOptions {
+  deckName: string;
+  template: AnkiCardTemplate;
+  format: AnkiExportFormat;
+}
+
+const CLIP_SAMPLE_RATE = 24000;
+const FIELD_SEPARATOR = '\x1f';
+const NOTE_TAG = 'linguasync';
+
+const SEGMENT_FIELDS = ['Audio', 'Text', 'Translation', 'Idiomatic'];
+const VOCABULARY_FIELDS = ['Word', 'Phonetic', 'Definition', 'Example', 'Sentence'];
+
+const SEGMENT_ANSWER = '<div class="translation">{{Translation}}</div>{{#Idiomatic}}<div class="idiomatic">{{Idiomatic}}</div>{{/Idiomatic}}';
+
+const SEGMENT_TEMPLATES = {
+  listening: {
+    name: 'Listening',
+    qfmt: '{{Audio}}<div class="hint">What was said?</div>',
+    afmt: `{{FrontSide}}<hr id=answer><div class="text">{{Text}}</div>${SEGMENT_ANSWER}`,
+  },
+  reading: {
+    name: 'Reading',
+    qfmt: '<div class="text">{{Text}}</div>',
+    afmt: `{{FrontSide}}<hr id=answer>{{Audio}}${SEGMENT_ANSWER}`,
+  },
+};
+
+const VOCABULARY_TEMPLATE = {
+  name: 'Word',
+  qfmt: '<div class="text">{{Word}}</div>{{#Phonetic}}<div class="hint">{{Phonetic}}</div>{{/Phonetic}}',
+  afmt: '{{FrontSide}}<hr id=answer><div>{{Definition}}</div>{{#Example}}<div class="idiomatic">{{Example}}</div>{{/Example}}{{#Sentence}}<div class="translation">{{Sentence}}</div>{{/Sentence}}',
+};
+
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 20px; text-align: center; color: #1e293b; background: #fff; }
+.text { font-size: 24px; font-weight: bold; }
+.translation { margin-top: 12px; color: #475569; }
+.idiomatic { margin-top: 12px; color: #2563eb; font-style: italic; }
+.hint { margin-top: 8px; font-size: 14px; color: #94a3b8; }`;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);`;
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+  new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+};
+
+interface AnkiNote {
+  guidSource: string; // stable per segment/word, so re-importing updates notes instead of duplicating them
+  fields: string[];
+  sortField: number;
+  templateCount: number;
+}
+
+interface AnkiModel {
+  id: number;
+  name: string;
+  fields: string[];
+  templates: { name: string; qfmt: string; afmt: string }[];
+  sortField: number;
+  notes: AnkiNote[];
+}
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its wasm binary are only fetched the first time a deck is built
+const loadSql = () => {
+  if (!sqlPromise) {
+    sqlPromise = import('sql.js').then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }));
+    sqlPromise.catch(() => { sqlPromise = null; });
+  }
+  return sqlPromise;
+};
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const stripHtml = (value: string) => value.replace(/<[^>]*>/g, '').replace(/&[a-z]+;/g, ' ').trim();
+
+const sha1Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Deterministic ids for decks and note types, so repeated exports land in the same deck
+const idFromText = async (value: string) => parseInt((await sha1Hex(value)).slice(0, 12), 16);
+
+const slugify = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'deck';
+
+/**
+ * Cuts each segment's [start, end) range out of the original audio as a mono WAV clip.
+ */
+const cutClips = async (audioFile: Blob, segments: TranscriptionSegment[]): Promise<Uint8Array[]> => {
+  const samples = await resampleToMono(await decodeAudioBlob(audioFile), CLIP_SAMPLE_RATE);
+  return Promise.all(segments.map(async segment => {
+    const from = Math.max(0, Math.floor(segment.start * CLIP_SAMPLE_RATE));
+    const to = Math.min(samples.length, Math.ceil(segment.end * CLIP_SAMPLE_RATE));
+    const clip = encodeWav(samples.subarray(from, Math.max(from, to)), CLIP_SAMPLE_RATE);
+    return new Uint8Array(await clip.arrayBuffer());
+  }));
+};
+
+const clipFileName = (deckName: string, segment: TranscriptionSegment) =>
+  `linguasync-${slugify(deckName)}-${Math.round(segment.start * 1000)}.wav`;
+
+const segmentFields = (segment: TranscriptionSegment, clipName: string) => [
+  `[sound:${clipName}]`,
+  escapeHtml(segment.text),
+  escapeHtml(segment.translation),
+  escapeHtml(segment.idiomatic || ''),
+];
+
+const vocabularyFields = (entry: VocabularyEntry) => [
+  escapeHtml(entry.word),
+  escapeHtml(entry.phonetic || ''),
+  escapeHtml(entry.definition),
+  escapeHtml(entry.example),
+  escapeHtml(entry.sources[0]?.sentence || ''),
+];
+
+const segmentTemplates = (template: AnkiCardTemplate) =>
+  template === 'both' ? [SEGMENT_TEMPLATES.listening, SEGMENT_TEMPLATES.reading] : [SEGMENT_TEMPLATES[template]];
+
+const buildModelJson = (model: AnkiModel, deckId: number, now: number) => ({
+  id: model.id,
+  name: model.name,
+  type: 0,
+  mod: now,
+  usn: -1,
+  sortf: model.sortField,
+  did: deckId,
+  tmpls: model.templates.map((t, ord) => ({ name: t.name, ord, qfmt: t.qfmt, afmt: t.afmt, did: null, bqfmt: '', bafmt: '' })),
+  flds: model.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: CARD_CSS,
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  tags: [],
+  vers: [],
+  // Each card only needs the field shown on its front
+  req: model.templates.map((t, ord) => [ord, 'any', [model.fields.findIndex(f => t.qfmt.includes(`{{${f}}}`))]]),
+});
+
+const buildDeckJson = (id: number, name: string, now: number) => ({
+  id, name, mod: now, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0], extendNew: 0, extendRev: 0,
+});
+
+const writeCollection = async (db: Database, deckName: string, models: AnkiModel[]) => {
+  const nowMs = Date.now();
+  const now = Math.floor(nowMs / 1000);
+  const deckId = await idFromText(`deck:${deckName}`);
+
+  db.run(SCHEMA);
+  db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+    now,
+    nowMs,
+    nowMs,
+    JSON.stringify({ activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true, curModel: null, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true }),
+    JSON.stringify(Object.fromEntries(models.map(m => [m.id, buildModelJson(m, deckId, now)]))),
+    JSON.stringify({ 1: buildDeckJson(1, 'Default', now), [deckId]: buildDeckJson(deckId, deckName, now) }),
+    JSON.stringify({ 1: DEFAULT_DECK_CONFIG }),
+    '{}',
+  ]);
+
+  // Note and card ids are millisecond timestamps in Anki; consecutive values keep them unique
+  let nextId = nowMs;
+  let due = 1;
+  for (const model of models) {
+    for (const note of model.notes) {
+      const noteId = nextId++;
+      const sortValue = stripHtml(note.fields[note.sortField]);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId,
+        (await sha1Hex(note.guidSource)).slice(0, 10),
+        model.id,
+        now,
+        ` ${NOTE_TAG} `,
+        note.fields.join(FIELD_SEPARATOR),
+        sortValue,
+        parseInt((await sha1Hex(sortValue)).slice(0, 8), 16),
+      ]);
+      for (let ord = 0; ord < note.templateCount; ord++) {
+        db.run('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [nextId++, noteId, deckId, ord, now, due]);
+      }
+      due++;
+    }
+  }
+};
+
+const buildApkg = async (
+  segments: TranscriptionSegment[],
+  clips: Uint8Array[],
+  vocabulary: VocabularyEntry[],
+  options: AnkiExportOptions
+): Promise<Blob> => {
+  const clipNames = segments.map(s => clipFileName(options.deckName, s));
+  const templates = segmentTemplates(options.template);
+  const models: AnkiModel[] = [];
+
+  if (segments.length > 0) {
+    models.push({
+      id: await idFromText(`model:segment:${options.template}`),
+      name: `LinguaSync Segment (${templates.map(t => t.name).join(' + ')})`,
+      fields: SEGMENT_FIELDS,
+      templates,
+      sortField: 1,
+      notes: segments.map((s, i) => ({
+        guidSource: `${options.deckName}:segment:${s.start}`,
+        fields: segmentFields(s, clipNames[i]),
+        sortField: 1,
+        templateCount: templates.length,
+      })),
+    });
+  }
+  if (vocabulary.length > 0) {
+    models.push({
+      id: await idFromText('model:vocabulary'),
+      name: 'LinguaSync Vocabulary',
+      fields: VOCABULARY_FIELDS,
+      templates: [VOCABULARY_TEMPLATE],
+      sortField: 0,
+      notes: vocabulary.map(e => ({
+        guidSource: `vocabulary:${e.id}`,
+        fields: vocabularyFields(e),
+        sortField: 0,
+        templateCount: 1,
+      })),
+    });
+  }
+
+  const SQL = await loadSql();
+  const db = new SQL.Database();
+  let collection: Uint8Array;
+  try {
+    await writeCollection(db, options.deckName, models);
+    collection = db.export();
+  } finally {
+    db.close();
+  }
+
+  // Media files are stored as "0", "1", ... with a JSON map back to their names
+  const files: Zippable = { 'collection.anki2': collection };
+  clips.forEach((clip, i) => { files[String(i)] = [clip, { level: 0 }]; });
+  files['media'] = strToU8(JSON.stringify(Object.fromEntries(clipNames.map((name, i) => [String(i), name]))));
+
+  return new Blob([zipSync(files)], { type: 'application/octet-stream' });
+};
+
+// Header lines understood by Anki's plain-text importer
+const csvFile = (columns: string[], rows: string[][]) =>
+  ['#separator:Comma', '#html:true', `#tags:${NOTE_TAG}`, `#columns:${columns.join(',')}`, ...rows.map(row => row.map(csvField).join(','))]
+    .join('\r\n') + '\r\n';
+
+const buildCsvZip = (
+  segments: TranscriptionSegment[],
+  clips: Uint8Array[],
+  vocabulary: VocabularyEntry[],
+  options: AnkiExportOptions
+): Blob => {
+  const slug = slugify(options.deckName);
+  const files: Zippable = {};
+
+  if (segments.length > 0) {
+    const clipNames = segments.map(s => clipFileName(options.deckName, s));
+    files[`${slug}.csv`] = strToU8(csvFile(SEGMENT_FIELDS, segments.map((s, i) => segmentFields(s, clipNames[i]))));
+    // Copy these into Anki's collection.media folder before importing the CSV
+    files['media'] = Object.fromEntries(clipNames.map((name, i) => [name, [clips[i], { level: 0 }]]));
+  }
+  if (vocabulary.length > 0) {
+    files[`${slug}-vocabulary.csv`] = strToU8(csvFile(VOCABULARY_FIELDS, vocabulary.map(vocabularyFields)));
+  }
+
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+/**
+ * Packages segments (with audio clips cut from `audioFile`) and vocabulary into an Anki deck.
+ */
+export const exportAnkiDeck = async (
+  segments: TranscriptionSegment[],
+  audioFile: Blob,
+  vocabulary: VocabularyEntry[],
+  options: AnkiExportOptions
+): Promise<Blob> => {
+  const clips = segments.length > 0 ? await cutClips(audioFile, segments) : [];
+  return options.format === 'apkg'
+    ? buildApkg(segments, clips, vocabulary, options)
+    : buildCsvZip(segments, clips, vocabulary, options);
+};
@@ -0,0 +1,85 @@
+import { decodeAudioBlob, encodeWav, resampleToMono } from "./audioUtils";
+
+// Splits long recordings into transcription-sized chunks at quiet points.
+
+export interface AudioChunk {
+  blob: Blob; // 16 kHz mono WAV
+  offset: number; // start of the chunk in the original audio, seconds
+  duration: number; // seconds
+}
+
+const CHUNK_SAMPLE_RATE = 16000; // plenty for speech, keeps each chunk well under the inline limit
+const TARGET_CHUNK_SECONDS = 300;
+const SEARCH_WINDOW_SECONDS = 20; // how far around the target we look for silence
+const FRAME_SECONDS = 0.05;
+
+// Files above either limit are transcribed chunk by chunk
+const MAX_SINGLE_REQUEST_BYTES = 10 * 1024 * 1024;
+const MAX_SINGLE_REQUEST_SECONDS = 10 * 60;
+
+export const shouldChunkAudio = (file: Blob, duration: number) =>
+  file.size > MAX_SINGLE_REQUEST_BYTES || duration > MAX_SINGLE_REQUEST_SECONDS;
+
+const frameEnergy = (samples: Float32Array, start: number, length: number) => {
+  let sum = 0;
+  for (let i = start; i < start + length; i++) sum += samples[i] * samples[i];
+  return sum / length;
+};
+
+/**
+ * Returns sample indices to cut at: roughly every `targetSeconds`, moved to the
+ * quietest frame within `searchSeconds` of each target.
+ */
+export const findSilenceBoundaries = (
+  samples: Float32Array,
+  sampleRate: number,
+  targetSeconds = TARGET_CHUNK_SECONDS,
+  searchSeconds = SEARCH_WINDOW_SECONDS
+): number[] => {
+  const frame = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const target = targetSeconds * sampleRate;
+  const search = searchSeconds * sampleRate;
+  const boundaries: number[] = [];
+  let last = 0;
+
+  // Stop once the remainder fits in one chunk without leaving a tiny tail
+  while (samples.length - last > target * 1.25) {
+    const center = last + target;
+    const from = Math.max(last + frame, center - search);
+    const to = Math.min(samples.length - frame, center + search);
+
+    let best = center;
+    let bestEnergy = Infinity;
+    for (let start = from; start + frame <= to; start += frame) {
+      const energy = frameEnergy(samples, start, frame);
+      if (energy < bestEnergy) {
+        bestEnergy = energy;
+        best = start + Math.floor(frame / 2);
+      }
+    }
+
+    boundaries.push(best);
+    last = best;
+  }
+  return boundaries;
+};
+
+/**
+ * Decodes a file and cuts it into WAV chunks at silence boundaries.
+ */
+export const splitAudioIntoChunks = async (file: Blob): Promise<AudioChunk[]> => {
+  const buffer = await decodeAudioBlob(file);
+  const samples = await resampleToMono(buffer, CHUNK_SAMPLE_RATE);
+  const cuts = [0, ...findSilenceBoundaries(samples, CHUNK_SAMPLE_RATE), samples.length];
+
+  const chunks: AudioChunk[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const slice = samples.subarray(cuts[i], cuts[i + 1]);
+    chunks.push({
+      blob: encodeWav(slice, CHUNK_SAMPLE_RATE),
+      offset: cuts[i] / CHUNK_SAMPLE_RATE,
+      duration: slice.length / CHUNK_SAMPLE_RATE,
+    });
+  }
+  return chunks;
+};
@@ -1,5 +1,8 @@
 // Utilities for Audio Recording and PCM Playback
 
+import { UnsupportedFormatError } from "./errors";
+import { baseName } from "./downloadUtils";
+
 let audioContext: AudioContext | null = null;
 
 export const getAudioContext = () => {
@@ -9,9 +12,30 @@ export const getAudioContext = () => {
   return audioContext;
 };
 
+/**
+ * Reads the duration of an audio file from its metadata (seconds, 0 if unknown).
+ */
+export const getMediaDuration = (file: Blob): Promise<number> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const finish = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish(0);
+    audio.src = url;
+  });
+};
+
 // --- PCM Player for Gemini TTS ---
 
-export const playPcmData = async (base64String: string) => {
+/**
+ * Converts base64 24kHz 16-bit mono PCM (as returned by TTS) into an AudioBuffer.
+ */
+export const pcmToAudioBuffer = (base64String: string): AudioBuffer => {
   const ctx = getAudioContext();
   
   // Base64 decoding
@@ -31,13 +55,145 @@ export const playPcmData = async (base64String: string) => {
   for (let i = 0; i < int16Data.length; i++) {
     channelData[i] = int16Data[i] / 32768.0;
   }
+  return audioBuffer;
+};
 
+export const playPcmData = async (base64String: string) => {
+  const ctx = getAudioContext();
   const source = ctx.createBufferSource();
-  source.buffer = audioBuffer;
+  source.buffer = pcmToAudioBuffer(base64String);
   source.connect(ctx.destination);
   source.start(0);
 };
 
+// --- Original Audio Playback ---
+
+const decodedAudioCache = new WeakMap<Blob, Promise<AudioBuffer>>();
+let activeRangeSource: AudioBufferSourceNode | null = null;
+
+/**
+ * Decodes an audio file into an AudioBuffer. Each Blob is decoded only once.
+ */
+export const decodeAudioBlob = (blob: Blob): Promise<AudioBuffer> => {
+  let decoded = decodedAudioCache.get(blob);
+  if (!decoded) {
+    decoded = blob.arrayBuffer().then(data => getAudioContext().decodeAudioData(data));
+    decoded.catch(() => decodedAudioCache.delete(blob));
+    decodedAudioCache.set(blob, decoded);
+  }
+  return decoded;
+};
+
+/**
+ * Plays [start, end) seconds of a decoded buffer, stopping any range that is still playing.
+ * Resolves when playback finishes or is interrupted.
+ */
+export const playAudioBufferRange = (
+  buffer: AudioBuffer,
+  start: number,
+  end: number,
+  playbackRate = 1
+): Promise<void> => {
+  const ctx = getAudioContext();
+  if (ctx.state === 'suspended') ctx.resume();
+  stopAudioBufferRange();
+
+  const offset = Math.max(0, Math.min(start, buffer.duration));
+  const length = Math.max(0, Math.min(end, buffer.duration) - offset);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.playbackRate.value = playbackRate;
+  source.connect(ctx.destination);
+  activeRangeSource = source;
+
+  return new Promise((resolve) => {
+    source.onended = () => {
+      if (activeRangeSource === source) activeRangeSource = null;
+      resolve();
+    };
+    source.start(0, offset, length);
+  });
+};
+
+export const stopAudioBufferRange = () => {
+  if (activeRangeSource) {
+    try { activeRangeSource.stop(); } catch { /* already stopped */ }
+    activeRangeSource = null;
+  }
+};
+
+// --- PCM Conversion ---
+
+/**
+ * Downmixes and resamples a decoded buffer to mono Float32 samples at `sampleRate`.
+ */
+export const resampleToMono = async (buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> => {
+  const length = Math.max(1, Math.ceil(buffer.duration * sampleRate));
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start(0);
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+/**
+ * Encodes mono Float32 samples as a 16-bit PCM WAV file.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+// --- Video ---
+
+const EXTRACTED_AUDIO_SAMPLE_RATE = 16000; // the rate the chunker transcribes at
+
+export const VIDEO_FILE_PATTERN = /\.(mp4|m4v|webm|mov)$/i;
+
+export const isVideoFile = (file: { name: string; type: string }) =>
+  file.type.startsWith('video/') || VIDEO_FILE_PATTERN.test(file.name);
+
+/**
+ * Decodes a video's audio track and re-encodes it as 16 kHz mono WAV, so transcription
+ * uploads speech only. Uses the browser's decoders, so codecs it can't play fail here.
+ */
+export const extractAudioTrack = async (video: File): Promise<File> => {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioBlob(video);
+  } catch (e) {
+    throw new UnsupportedFormatError(`Could not decode an audio track from ${video.name}`, { cause: e });
+  }
+  const samples = await resampleToMono(buffer, EXTRACTED_AUDIO_SAMPLE_RATE);
+  return new File([encodeWav(samples, EXTRACTED_AUDIO_SAMPLE_RATE)], `${baseName(video.name)}.wav`, { type: 'audio/wav' });
+};
+
 // --- Microphone Recorder ---
 
 export class AudioRecorder {
@@ -0,0 +1,113 @@
+// Minimal IndexedDB wrapper shared by the local persistence services.
+
+const DB_NAME = 'linguasync';
+const DB_VERSION = 5;
+
+export const STORE_LIBRARY = 'library';
+export const STORE_LIBRARY_AUDIO = 'libraryAudio';
+export const STORE_REVIEW_CARDS = 'reviewCards';
+export const STORE_PRACTICE_ATTEMPTS = 'practiceAttempts';
+export const STORE_LISTENING_LOG = 'listeningLog';
+export const STORE_VOCABULARY = 'vocabulary';
+export const STORE_TTS_CACHE = 'ttsCache';
+export const STORE_TTS_AUDIO = 'ttsAudio';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily upgrades) the app database. The connection is reused.
+ */
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_LIBRARY)) {
+          db.createObjectStore(STORE_LIBRARY, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_LIBRARY_AUDIO)) {
+          db.createObjectStore(STORE_LIBRARY_AUDIO);
+        }
+        if (!db.objectStoreNames.contains(STORE_REVIEW_CARDS)) {
+          db.createObjectStore(STORE_REVIEW_CARDS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_PRACTICE_ATTEMPTS)) {
+          db.createObjectStore(STORE_PRACTICE_ATTEMPTS, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_LISTENING_LOG)) {
+          db.createObjectStore(STORE_LISTENING_LOG, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_VOCABULARY)) {
+          db.createObjectStore(STORE_VOCABULARY, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORE_TTS_CACHE)) {
+          db.createObjectStore(STORE_TTS_CACHE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(STORE_TTS_AUDIO)) {
+          db.createObjectStore(STORE_TTS_AUDIO);
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const dbGet = async <T>(store: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return requestToPromise<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const dbGetAll = async <T>(store: string): Promise<T[]> => {
+  const db = await openDb();
+  return requestToPromise<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+/**
+ * Writes a value. `key` is only needed for stores without a keyPath.
+ */
+export const dbPut = async <T>(store: string, value: T, key?: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+/**
+ * Reads, changes and writes one record in a single transaction, so concurrent updates of the
+ * same record can't overwrite each other. Returning undefined from `update` leaves it as is.
+ */
+export const dbUpdate = async <T>(store: string, key: IDBValidKey, update: (value: T | undefined) => T | undefined): Promise<T | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    let updated: T | undefined;
+    // The put is issued from the get's callback; awaiting in between could let the transaction commit
+    const request = objectStore.get(key);
+    request.onsuccess = () => {
+      updated = update(request.result as T | undefined);
+      if (updated !== undefined) objectStore.put(updated);
+    };
+    transaction.oncomplete = () => resolve(updated);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const dbDelete = async (store: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
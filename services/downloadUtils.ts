@@ -0,0 +1,19 @@
+/**
+ * Triggers a browser download for generated content.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Strips the extension from a file name, e.g. for naming exports after the source audio.
+ */
+export const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
@@ -0,0 +1,22 @@
+// Build-time configuration, injected by the `define` block in vite.config.ts.
+// Provider keys are only inlined in development builds; production goes through API_PROXY_URL.
+
+// Fix for "Cannot find name 'process'" in TypeScript without node types
+declare const process: {
+  env: {
+    [key: string]: string | undefined;
+  }
+};
+
+export const env = {
+  API_KEY: process.env.API_KEY,
+  DEEPSEEK_API_KEY: process.env.DEEPSEEK_API_KEY,
+  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+  OPENAI_CHAT_MODEL: process.env.OPENAI_CHAT_MODEL,
+  OPENAI_TRANSCRIBE_MODEL: process.env.OPENAI_TRANSCRIBE_MODEL,
+  OPENAI_TTS_MODEL: process.env.OPENAI_TTS_MODEL,
+  AI_PROVIDERS: process.env.AI_PROVIDERS,
+  API_PROXY_URL: process.env.API_PROXY_URL,
+  FEED_PROXY_URL: process.env.FEED_PROXY_URL,
+};
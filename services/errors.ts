@@ -0,0 +1,188 @@
+// Typed errors for AI calls. Providers throw whatever their SDK or fetch throws;
+// the scheduler normalizes it with toAiError, so everything that reaches the UI
+// carries a kind, whether trying again can help, and a message fit to show.
+
+export type AiErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'payload-too-large'
+  | 'unsupported-format'
+  | 'parse-failure'
+  | 'network'
+  | 'provider-down'
+  | 'unknown';
+
+interface AiErrorOptions {
+  status?: number;
+  retryAfterMs?: number; // server-suggested wait before retrying
+  cause?: unknown;
+}
+
+export abstract class AiError extends Error {
+  abstract readonly kind: AiErrorKind;
+  abstract readonly retryable: boolean; // whether the same request can succeed later
+  abstract readonly title: string;
+  abstract readonly userMessage: string;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: AiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+export class AuthError extends AiError {
+  readonly kind = 'auth';
+  readonly retryable = false;
+  readonly title = 'API Key Problem';
+  readonly userMessage = 'The API key is missing or was rejected by the AI provider.';
+}
+
+export class QuotaError extends AiError {
+  readonly kind = 'quota';
+  readonly retryable = false;
+  readonly title = 'Quota Used Up';
+  readonly userMessage = 'The AI provider quota for this key is used up. Try again tomorrow or check your plan.';
+}
+
+export class RateLimitError extends AiError {
+  readonly kind = 'rate-limit';
+  readonly retryable = true;
+  readonly title = 'Too Many Requests';
+  readonly userMessage = 'The AI provider is limiting requests right now. Wait a moment and try again.';
+}
+
+export class PayloadTooLargeError extends AiError {
+  readonly kind = 'payload-too-large';
+  readonly retryable = false;
+  readonly title = 'File Too Large';
+  readonly userMessage = 'This audio is too large for the AI provider. Try a shorter or smaller file.';
+}
+
+export class UnsupportedFormatError extends AiError {
+  readonly kind = 'unsupported-format';
+  readonly retryable = false;
+  readonly title = 'Unsupported Format';
+  readonly userMessage = "This audio format can't be read. Try converting it to MP3 or WAV.";
+}
+
+export class ParseFailureError extends AiError {
+  readonly kind = 'parse-failure';
+  readonly retryable = true;
+  readonly title = 'Unreadable Response';
+  readonly userMessage = 'The AI returned a response the app could not read. Trying again usually helps.';
+}
+
+export class NetworkError extends AiError {
+  readonly kind = 'network';
+  readonly retryable = true;
+  readonly title = 'Network Error';
+  readonly userMessage = 'Cannot reach the AI service. Please check your internet connection.';
+}
+
+export class ProviderDownError extends AiError {
+  readonly kind = 'provider-down';
+  readonly retryable = true;
+  readonly title = 'AI Service Busy';
+  readonly userMessage = 'The AI service is overloaded or down. Please wait a minute and try again.';
+}
+
+export class UnknownAiError extends AiError {
+  readonly kind = 'unknown';
+  readonly retryable = false;
+  readonly title = 'Something Went Wrong';
+  get userMessage() {
+    return this.message || 'An unknown error occurred.';
+  }
+}
+
+// Anything can be thrown, so properties are read only off objects that have them
+const readField = (error: unknown, name: string): unknown =>
+  typeof error === 'object' && error !== null && name in error ? (error as Record<string, unknown>)[name] : undefined;
+
+const messageOf = (error: unknown) => String(readField(error, 'message') || '');
+
+/**
+ * HTTP status of a failed call. The Gemini SDK sets `status`; other providers attach it
+ * (see httpError), and anything else falls back to a status the Gemini SDK wrote into the
+ * message ("[429 Too Many Requests]", "got status: 503"). Other numbers in a message,
+ * e.g. "a limit of 500 words", are not statuses.
+ */
+const getStatus = (error: unknown): number | undefined => {
+  const status = readField(error, 'status');
+  if (typeof status === 'number') return status;
+  const message = messageOf(error);
+  if (/RESOURCE_EXHAUSTED/.test(message)) return 429;
+  const match = message.match(/(?:\[|got status:? )(400|401|403|413|415|429|500|502|503|504)\b/);
+  return match ? Number(match[1]) : undefined;
+};
+
+/**
+ * Server-suggested wait: a Retry-After header captured by httpError, or Gemini's
+ * RetryInfo ("retryDelay": "12s") embedded in the error message.
+ */
+const getRetryAfterMs = (error: unknown): number | undefined => {
+  const retryAfterMs = readField(error, 'retryAfterMs');
+  if (typeof retryAfterMs === 'number') return retryAfterMs;
+  const match = messageOf(error).match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Classifies anything thrown by a provider call. AiErrors pass through unchanged.
+ */
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+
+  const message = messageOf(error) || String(error || '');
+  const status = getStatus(error);
+  const options: AiErrorOptions = { status, retryAfterMs: getRetryAfterMs(error), cause: error };
+
+  if (error instanceof SyntaxError) return new ParseFailureError(message, options);
+  // fetch rejects with a TypeError when the request never got a response
+  if (status === undefined && (error instanceof TypeError || /failed to fetch|fetch failed|network|load failed/i.test(message))) {
+    return new NetworkError(message, options);
+  }
+
+  if (status === 401 || status === 403 || /API_KEY_INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) {
+    return new AuthError(message, options);
+  }
+  if (status === 429) {
+    // Daily and billing quotas don't recover within a retry window, per-minute limits do
+    return /PerDay|insufficient_quota|billing|check your plan/i.test(message)
+      ? new QuotaError(message, options)
+      : new RateLimitError(message, options);
+  }
+  if (status === 413) return new PayloadTooLargeError(message, options);
+  if (status === 415 || (status === 400 && /mime|unsupported|audio format|file format/i.test(message))) {
+    return new UnsupportedFormatError(message, options);
+  }
+  if ((status !== undefined && status >= 500) || /internal error|service unavailable|overloaded/i.test(message)) {
+    return new ProviderDownError(message, options);
+  }
+  return new UnknownAiError(message, options);
+};
+
+const ERROR_CLASSES: Record<AiErrorKind, new (message: string, options?: AiErrorOptions) => AiError> = {
+  'auth': AuthError,
+  'quota': QuotaError,
+  'rate-limit': RateLimitError,
+  'payload-too-large': PayloadTooLargeError,
+  'unsupported-format': UnsupportedFormatError,
+  'parse-failure': ParseFailureError,
+  'network': NetworkError,
+  'provider-down': ProviderDownError,
+  'unknown': UnknownAiError,
+};
+
+/**
+ * Rebuilds an error of the given kind, e.g. one reported by the API worker.
+ */
+export const createAiError = (kind: AiErrorKind, message: string, options: AiErrorOptions = {}): AiError =>
+  new (ERROR_CLASSES[kind] || UnknownAiError)(message, options);
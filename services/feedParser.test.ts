@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { getSubtitleTranscript, parseChaptersJson, parseClockTime, parseFeed, parseFeedFile } from './feedParser';
+import podcast20Xml from './__fixtures__/feeds/podcast20.xml?raw';
+import relativeUrlsXml from './__fixtures__/feeds/relative-urls.xml?raw';
+import atomXml from './__fixtures__/feeds/atom.xml?raw';
+import subscriptionsOpml from './__fixtures__/feeds/subscriptions.opml?raw';
+import chaptersJson from './__fixtures__/feeds/chapters.json?raw';
+
+// The checks run in Node, so the parsers get jsdom's DOMParser instead of the browser's
+const xmlParser = new new JSDOM().window.DOMParser();
+
+describe('parseFeed', () => {
+  it('reads an RSS feed with iTunes and Podcasting 2.0 tags', () => {
+    const feed = parseFeed(podcast20Xml, undefined, xmlParser);
+    expect(feed.url).toBe('https://stories.example.com/feed.xml');
+    expect(feed.title).toBe('Slow German Stories');
+    expect(feed.description).toBe('Short stories, read slowly.');
+    expect(feed.imageUrl).toBe('https://stories.example.com/cover.jpg');
+    expect(feed.episodes).toHaveLength(2);
+
+    const [fox, cat] = feed.episodes;
+    expect(fox).toMatchObject({
+      id: 'story-2',
+      title: 'Der Fuchs',
+      publishedAt: Date.UTC(2024, 0, 2, 8),
+      duration: 3723,
+      audioUrl: 'https://cdn.example.com/fuchs.mp3',
+      audioType: 'audio/mpeg',
+      description: 'A fox & a crow.',
+      chaptersUrl: 'https://stories.example.com/fuchs-chapters.json',
+    });
+    expect(fox.transcripts).toEqual([
+      { url: 'https://stories.example.com/fuchs.json', type: 'application/json', language: undefined },
+      { url: 'https://stories.example.com/fuchs.vtt', type: 'text/vtt', language: 'de' },
+    ]);
+
+    expect(cat).toMatchObject({
+      id: 'https://cdn.example.com/katze.m4a',
+      title: 'Die Katze',
+      duration: 754,
+      description: 'A cat story.',
+      chaptersUrl: undefined,
+    });
+    expect(cat.chapters).toEqual([
+      { start: 0, title: 'Intro', url: undefined },
+      { start: 90.5, title: 'Story', url: 'https://stories.example.com/katze#story' },
+    ]);
+  });
+
+  it('resolves relative links against the self link', () => {
+    const feed = parseFeed(relativeUrlsXml, undefined, xmlParser);
+    const [episode] = feed.episodes;
+    expect(feed.imageUrl).toBe('https://relative.example.com/shows/art/cover.png');
+    expect(episode.audioUrl).toBe('https://relative.example.com/media/ep1.mp3');
+    expect(episode.transcripts[0].url).toBe('https://relative.example.com/shows/transcripts/ep1.srt');
+    expect(episode.chaptersUrl).toBe('https://relative.example.com/chapters/ep1.json');
+  });
+
+  it('prefers the URL the feed was fetched from as the base', () => {
+    const feed = parseFeed(relativeUrlsXml, 'https://mirror.example.org/a/feed.rss', xmlParser);
+    expect(feed.url).toBe('https://mirror.example.org/a/feed.rss');
+    expect(feed.episodes[0].audioUrl).toBe('https://mirror.example.org/media/ep1.mp3');
+  });
+
+  it('reads an Atom feed', () => {
+    const feed = parseFeed(atomXml, undefined, xmlParser);
+    expect(feed).toMatchObject({
+      url: 'https://atom.example.com/feed.atom',
+      title: 'Atom Cast',
+      description: 'Plain Atom podcast',
+      imageUrl: 'https://atom.example.com/logo.png',
+    });
+    expect(feed.episodes).toEqual([expect.objectContaining({
+      id: 'urn:uuid:episode-1',
+      title: 'First entry',
+      publishedAt: Date.UTC(2024, 2, 5, 10),
+      duration: 2730,
+      audioUrl: 'https://atom.example.com/audio/1.ogg',
+      audioType: 'audio/ogg',
+      description: 'Summary text',
+      transcripts: [],
+    })]);
+  });
+
+  it('rejects OPML and invalid XML', () => {
+    expect(() => parseFeed(subscriptionsOpml, undefined, xmlParser)).toThrow(/OPML/);
+    expect(() => parseFeed('<rss><channel>', undefined, xmlParser)).toThrow(/not valid XML/);
+    expect(() => parseFeed('<html></html>', undefined, xmlParser)).toThrow(/Unsupported feed format/);
+  });
+});
+
+describe('parseFeedFile', () => {
+  it('lists every feed of an OPML file once', () => {
+    expect(parseFeedFile(subscriptionsOpml, undefined, xmlParser)).toEqual({
+      kind: 'opml',
+      feeds: [
+        { url: 'https://stories.example.com/feed.xml', title: 'Slow German Stories' },
+        { url: 'https://news.example.com/rss', title: 'Nachrichten' },
+        { url: 'https://atom.example.com/feed.atom', title: 'https://atom.example.com/feed.atom' },
+      ],
+    });
+  });
+
+  it('accepts a single feed', () => {
+    const result = parseFeedFile(atomXml, undefined, xmlParser);
+    expect(result.kind).toBe('feed');
+  });
+});
+
+describe('parseChaptersJson', () => {
+  it('keeps table-of-contents chapters in start order', () => {
+    expect(parseChaptersJson(chaptersJson)).toEqual([
+      { start: 0, title: 'Intro', url: undefined },
+      { start: 95, title: 'Story', url: 'https://stories.example.com/fuchs#story' },
+    ]);
+  });
+});
+
+describe('parseClockTime', () => {
+  it('reads clock and plain-second durations', () => {
+    expect(parseClockTime('1:02:03')).toBe(3723);
+    expect(parseClockTime('62:03')).toBe(3723);
+    expect(parseClockTime('3723.5')).toBe(3723.5);
+    expect(parseClockTime('soon')).toBeUndefined();
+    expect(parseClockTime(undefined)).toBeUndefined();
+  });
+});
+
+describe('getSubtitleTranscript', () => {
+  it('picks the first transcript the subtitle importer reads', () => {
+    const [fox, cat] = parseFeed(podcast20Xml, undefined, xmlParser).episodes;
+    expect(getSubtitleTranscript(fox)).toMatchObject({ extension: 'vtt', link: { url: 'https://stories.example.com/fuchs.vtt' } });
+    expect(getSubtitleTranscript(cat)).toMatchObject({ extension: 'srt' });
+    expect(getSubtitleTranscript({ ...cat, transcripts: [] })).toBeUndefined();
+  });
+});
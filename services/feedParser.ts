@@ -0,0 +1,215 @@
+import { PodcastChapter, PodcastEpisode, PodcastFeed, PodcastTranscriptLink, SavedFeed } from "../types";
+
+// Pure parsers for podcast feeds (RSS 2.0, Atom), OPML subscription lists and JSON chapters.
+// They take the document text and never fetch, so they can run against fixture files; outside
+// a browser, pass a DOMParser implementation (e.g. jsdom's) as `xmlParser`.
+
+const NS = {
+  atom: 'http://www.w3.org/2005/Atom',
+  itunes: 'http://www.itunes.com/dtds/podcast-1.0.dtd',
+  content: 'http://purl.org/rss/1.0/modules/content/',
+  psc: 'http://podlove.org/simple-chapters',
+  // The Podcasting 2.0 namespace was published under two URLs
+  podcast: ['https://podcastindex.org/namespace/1.0', 'https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md'],
+};
+
+/** The part of DOMParser the parsers use; the browser's is the default. */
+export type XmlParser = Pick<DOMParser, 'parseFromString'>;
+
+export type ParsedFeedFile =
+  | { kind: 'feed'; feed: PodcastFeed }
+  | { kind: 'opml'; feeds: SavedFeed[] };
+
+const parseXml = (xml: string, xmlParser: XmlParser): Document => {
+  const doc = xmlParser.parseFromString(xml.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error("The feed is not valid XML.");
+  }
+  return doc;
+};
+
+/**
+ * Direct children named `localName` in one of `namespaces` (null for un-namespaced RSS elements).
+ */
+const children = (parent: Element, localName: string, namespaces: (string | null)[] = [null]) =>
+  Array.from(parent.children).filter(el => el.localName === localName && namespaces.includes(el.namespaceURI));
+
+const child = (parent: Element, localName: string, namespaces?: (string | null)[]) =>
+  children(parent, localName, namespaces)[0] as Element | undefined;
+
+const text = (el: Element | undefined) => el?.textContent?.trim() || undefined;
+
+const parseDate = (value: string | undefined) => {
+  const time = value ? Date.parse(value) : NaN;
+  return isNaN(time) ? undefined : time;
+};
+
+/**
+ * "1:02:03", "62:03", "3723" or "3723.5" to seconds.
+ */
+export const parseClockTime = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(isNaN)) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Descriptions are often HTML; the episode list only shows a plain-text excerpt
+const stripHtml = (html: string | undefined, xmlParser: XmlParser) => {
+  if (!html) return undefined;
+  const plain = xmlParser.parseFromString(html, 'text/html').body.textContent || '';
+  return plain.replace(/\s+/g, ' ').trim() || undefined;
+};
+
+const resolveUrl = (url: string | undefined, base: string | undefined) => {
+  if (!url) return undefined;
+  try {
+    return new URL(url, base).href;
+  } catch {
+    return url;
+  }
+};
+
+const parsePodcastExtensions = (item: Element, base: string | undefined) => {
+  const transcripts: PodcastTranscriptLink[] = children(item, 'transcript', NS.podcast)
+    .map(el => ({
+      url: resolveUrl(el.getAttribute('url') || undefined, base) || '',
+      type: el.getAttribute('type') || '',
+      language: el.getAttribute('language') || undefined,
+    }))
+    .filter(t => t.url);
+
+  const pscChapters = child(item, 'chapters', [NS.psc]);
+  const chapters: PodcastChapter[] | undefined = pscChapters && children(pscChapters, 'chapter', [NS.psc])
+    .map(el => ({
+      start: parseClockTime(el.getAttribute('start') || undefined) ?? 0,
+      title: el.getAttribute('title') || '',
+      url: resolveUrl(el.getAttribute('href') || undefined, base),
+    }));
+
+  return {
+    transcripts,
+    chapters: chapters?.length ? chapters : undefined,
+    chaptersUrl: resolveUrl(child(item, 'chapters', NS.podcast)?.getAttribute('url') || undefined, base),
+  };
+};
+
+const parseRssItem = (item: Element, base: string | undefined, xmlParser: XmlParser): PodcastEpisode => {
+  const enclosure = child(item, 'enclosure');
+  const audioUrl = resolveUrl(enclosure?.getAttribute('url') || undefined, base);
+  return {
+    id: text(child(item, 'guid')) || audioUrl || text(child(item, 'title')) || '',
+    title: text(child(item, 'title')) || text(child(item, 'title', [NS.itunes])) || 'Untitled episode',
+    publishedAt: parseDate(text(child(item, 'pubDate'))),
+    duration: parseClockTime(text(child(item, 'duration', [NS.itunes]))),
+    audioUrl,
+    audioType: enclosure?.getAttribute('type') || undefined,
+    description: stripHtml(text(child(item, 'description')) || text(child(item, 'summary', [NS.itunes])) || text(child(item, 'encoded', [NS.content])), xmlParser),
+    ...parsePodcastExtensions(item, base),
+  };
+};
+
+const parseRss = (rss: Element, sourceUrl: string | undefined, xmlParser: XmlParser): PodcastFeed => {
+  const channel = child(rss, 'channel');
+  if (!channel) throw new Error("The RSS feed has no channel.");
+  const selfUrl = children(channel, 'link', [NS.atom]).find(l => l.getAttribute('rel') === 'self')?.getAttribute('href') || undefined;
+  const base = sourceUrl || selfUrl;
+  const rssImage = text(children(channel, 'image').map(image => child(image, 'url'))[0]);
+  return {
+    url: base,
+    title: text(child(channel, 'title')) || 'Untitled podcast',
+    description: stripHtml(text(child(channel, 'description')), xmlParser),
+    imageUrl: resolveUrl(child(channel, 'image', [NS.itunes])?.getAttribute('href') || rssImage, base),
+    episodes: children(channel, 'item').map(item => parseRssItem(item, base, xmlParser)),
+  };
+};
+
+const parseAtomEntry = (entry: Element, base: string | undefined, xmlParser: XmlParser): PodcastEpisode => {
+  const links = children(entry, 'link', [NS.atom]);
+  const enclosure = links.find(l => l.getAttribute('rel') === 'enclosure');
+  const audioUrl = resolveUrl(enclosure?.getAttribute('href') || undefined, base);
+  return {
+    id: text(child(entry, 'id', [NS.atom])) || audioUrl || '',
+    title: text(child(entry, 'title', [NS.atom])) || 'Untitled episode',
+    publishedAt: parseDate(text(child(entry, 'published', [NS.atom])) || text(child(entry, 'updated', [NS.atom]))),
+    duration: parseClockTime(text(child(entry, 'duration', [NS.itunes]))),
+    audioUrl,
+    audioType: enclosure?.getAttribute('type') || undefined,
+    description: stripHtml(text(child(entry, 'summary', [NS.atom])) || text(child(entry, 'content', [NS.atom])), xmlParser),
+    ...parsePodcastExtensions(entry, base),
+  };
+};
+
+const parseAtom = (feed: Element, sourceUrl: string | undefined, xmlParser: XmlParser): PodcastFeed => {
+  const selfUrl = children(feed, 'link', [NS.atom]).find(l => l.getAttribute('rel') === 'self')?.getAttribute('href') || undefined;
+  const base = sourceUrl || selfUrl;
+  return {
+    url: base,
+    title: text(child(feed, 'title', [NS.atom])) || 'Untitled podcast',
+    description: stripHtml(text(child(feed, 'subtitle', [NS.atom])), xmlParser),
+    imageUrl: resolveUrl(text(child(feed, 'logo', [NS.atom])) || text(child(feed, 'icon', [NS.atom])), base),
+    episodes: children(feed, 'entry', [NS.atom]).map(entry => parseAtomEntry(entry, base, xmlParser)),
+  };
+};
+
+const parseOpmlDocument = (opml: Element): SavedFeed[] => {
+  // Outlines nest into folders; every outline with an xmlUrl is a feed
+  const outlines = Array.from(opml.getElementsByTagName('outline'));
+  const feeds = outlines
+    .filter(el => el.getAttribute('xmlUrl'))
+    .map(el => ({
+      url: el.getAttribute('xmlUrl')!.trim(),
+      title: el.getAttribute('title') || el.getAttribute('text') || el.getAttribute('xmlUrl')!,
+    }));
+  return feeds.filter((feed, i) => feeds.findIndex(f => f.url === feed.url) === i);
+};
+
+/**
+ * Parses an RSS 2.0 or Atom podcast feed. Episodes keep the feed's order (usually newest first).
+ * `sourceUrl` resolves relative links.
+ */
+export const parseFeed = (xml: string, sourceUrl?: string, xmlParser?: XmlParser): PodcastFeed => {
+  const result = parseFeedFile(xml, sourceUrl, xmlParser);
+  if (result.kind !== 'feed') throw new Error("This is an OPML subscription list, not a feed.");
+  return result.feed;
+};
+
+/**
+ * Parses an uploaded file, which may be a single feed or an OPML list of feeds.
+ */
+export const parseFeedFile = (xml: string, sourceUrl?: string, xmlParser: XmlParser = new DOMParser()): ParsedFeedFile => {
+  const root = parseXml(xml, xmlParser).documentElement;
+  switch (root.localName) {
+    case 'rss':
+      return { kind: 'feed', feed: parseRss(root, sourceUrl, xmlParser) };
+    case 'feed':
+      return { kind: 'feed', feed: parseAtom(root, sourceUrl, xmlParser) };
+    case 'opml':
+      return { kind: 'opml', feeds: parseOpmlDocument(root) };
+    default:
+      throw new Error(`Unsupported feed format <${root.localName}>; expected RSS, Atom or OPML.`);
+  }
+};
+
+/**
+ * Parses a Podcasting 2.0 JSON chapters file.
+ */
+export const parseChaptersJson = (json: string): PodcastChapter[] => {
+  const data = JSON.parse(json) as { chapters?: { startTime?: number; title?: string; url?: string; toc?: boolean }[] };
+  return (data.chapters || [])
+    .filter(c => typeof c.startTime === 'number' && c.toc !== false)
+    .map(c => ({ start: c.startTime!, title: c.title || '', url: c.url }))
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Transcripts in a format the subtitle importer reads, with the extension it expects.
+ */
+export const getSubtitleTranscript = (episode: PodcastEpisode): { link: PodcastTranscriptLink; extension: 'vtt' | 'srt' } | undefined => {
+  for (const link of episode.transcripts) {
+    const path = link.url.split(/[?#]/)[0];
+    if (/vtt/i.test(link.type) || /\.vtt$/i.test(path)) return { link, extension: 'vtt' };
+    if (/subrip|srt/i.test(link.type) || /\.srt$/i.test(path)) return { link, extension: 'srt' };
+  }
+  return undefined;
+};
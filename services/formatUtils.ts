@@ -0,0 +1,27 @@
+// Display helpers shared across views.
+
+/**
+ * Formats seconds as m:ss.
+ */
+export const formatTime = (time: number) => {
+  const min = Math.floor(time / 60);
+  const sec = Math.floor(time % 60);
+  return `${min}:${sec < 10 ? '0' : ''}${sec}`;
+};
+
+/**
+ * Formats a timestamp as a short, locale-aware date.
+ */
+export const formatDate = (timestamp: number) => {
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+/**
+ * Formats seconds as m:ss.s, for editing segment boundaries.
+ */
+export const formatPreciseTime = (time: number) => {
+  const tenths = Math.round(time * 10);
+  const min = Math.floor(tenths / 600);
+  const sec = (tenths % 600) / 10;
+  return `${min}:${sec < 10 ? '0' : ''}${sec.toFixed(1)}`;
+};
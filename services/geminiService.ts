@@ -1,107 +1,15 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { TranscriptionResponse, WordDefinition, PronunciationScore, TranscriptionSegment } from "../types";
+import { TranscriptionResponse, WordDefinition, PronunciationScore, TranscriptionSegment, TranscriptionProgress, LanguageSettings, SpeechOptions, VoiceOption, SentenceExplanation } from "../types";
+import { getMediaDuration } from "./audioUtils";
+import { shouldChunkAudio, splitAudioIntoChunks } from "./audioChunker";
+import { AiProvider, RequestOptions, getConfiguredProviders, resolveSpeech, runWithFallback } from "./providers";
+import { cacheSpeech, getCachedSpeech, speechCacheKey } from "./ttsCache";
+import { DEFAULT_SPEECH_OPTIONS } from "./voices";
+import { DEFAULT_LANGUAGE_SETTINGS, getSourceLocale, getTranscriptLanguageSettings } from "./languages";
+import { countWords, joinText } from "./tokenizer";
 
-// Fix for "Cannot find name 'process'" in TypeScript without node types
-declare const process: {
-  env: {
-    API_KEY?: string;
-    DEEPSEEK_API_KEY?: string;
-    [key: string]: string | undefined;
-  }
-};
-
-const TRANSCRIPTION_MODEL = "gemini-2.5-flash"; 
-const TTS_MODEL = "gemini-2.5-flash-preview-tts";
-
-/**
- * Lazy initialization of the AI client.
- */
-const getAi = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please check your deployment environment variables.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
-
-/**
- * Helper to retry async functions (e.g., API calls)
- */
-const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delayMs = 1000): Promise<T> => {
-  let lastError: any;
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      // Retry on 5xx server errors or "internal error" messages
-      const isInternalError = error.message?.toLowerCase().includes("internal error") || 
-                              error.message?.includes("500") || 
-                              error.message?.includes("503");
-      
-      if (isInternalError && i < retries - 1) {
-        console.warn(`API call failed (attempt ${i + 1}/${retries}). Retrying in ${delayMs}ms...`, error);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        delayMs *= 2; // Exponential backoff
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw lastError;
-};
-
-/**
- * DeepSeek Client Helper
- */
-const callDeepSeek = async (systemPrompt: string, userPrompt: string): Promise<string> => {
-    const deepSeekKey = process.env.DEEPSEEK_API_KEY;
-    if (!deepSeekKey) {
-        throw new Error("DeepSeek API Key is missing");
-    }
-
-    console.log("[Fallback] Switching to DeepSeek API...");
-
-    const response = await fetch("https://api.deepseek.com/chat/completions", {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${deepSeekKey}`
-        },
-        body: JSON.stringify({
-            model: "deepseek-chat",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            stream: false,
-            response_format: { type: 'json_object' } // DeepSeek supports JSON mode
-        })
-    });
-
-    if (!response.ok) {
-        throw new Error(`DeepSeek API Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
-};
-
-/**
- * Converts a File/Blob to Base64 string (without Data URI prefix).
- */
-const fileToBase64 = async (file: File | Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1] || result;
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
+// Entry point for every AI job. Each call is routed through the provider
+// fallback chain for its capability and queued by the shared request scheduler
+// (see services/providers).
 
 /**
  * Post-processes segments to merge short "filler" segments.
@@ -116,16 +24,17 @@ const mergeShortSegments = (segments: TranscriptionSegment[]): TranscriptionSegm
 
   for (let i = 1; i < segments.length; i++) {
     const next = segments[i];
-    const currentWordCount = current.text.split(/\s+/).length;
+    const currentWordCount = countWords(current.text);
     const duration = current.end - current.start;
 
     if (currentWordCount < MIN_WORDS && duration < 2.0) {
       current = {
         ...current,
         end: next.end,
-        text: `${current.text} ${next.text}`,
-        translation: `${current.translation} ${next.translation}`,
+        text: joinText(current.text, next.text),
+        translation: joinText(current.translation, next.translation),
         idiomatic: next.idiomatic || current.idiomatic, 
+        words: current.words && next.words ? [...current.words, ...next.words] : undefined,
       };
     } else {
       merged.push(current);
@@ -137,212 +46,230 @@ const mergeShortSegments = (segments: TranscriptionSegment[]): TranscriptionSegm
 };
 
 /**
- * Helper to parse JSON that might be wrapped in Markdown code blocks
+ * Transcribes one piece of audio. Segments come back unmerged, relative to the start of `audio`.
  */
-const cleanAndParseJson = <T>(text: string): T => {
-    try {
-        // Remove ```json and ``` wrap if present
-        const cleanText = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        return JSON.parse(cleanText) as T;
-    } catch (e) {
-        console.error("JSON Parse Error on text:", text);
-        throw new Error("Failed to parse AI response");
-    }
-};
+const transcribeSingle = (audio: Blob, mimeType: string, settings: LanguageSettings): Promise<TranscriptionResponse> =>
+  runWithFallback('transcribe', provider => provider.transcribe!(audio, mimeType, settings));
 
 /**
- * Transcribes audio with Translation and Idiomatic Expressions.
- * NOTE: Strictly requires Gemini (Multimodal). DeepSeek cannot handle audio files.
+ * Combines per-chunk results. Segments are merged across the whole list so
+ * filler fragments at chunk seams are joined like any other.
  */
-export const transcribeAudio = async (file: File): Promise<TranscriptionResponse> => {
-  const base64Audio = await fileToBase64(file);
+const stitchChunks = (
+  results: TranscriptionResponse[],
+  rawSegments: TranscriptionSegment[],
+  durationSeconds: number,
+  settings: LanguageSettings
+): TranscriptionResponse => {
+  const wordCount = results.reduce((sum, r) => sum + (r.meta?.wordCount || 0), 0);
 
-  const systemPrompt = `
-    You are an expert English learning assistant.
-    1. Transcribe the audio accurately (en-US). 
-       IMPORTANT: Combine short filler phrases (e.g., "Okay now", "So then") with the following sentence. Avoid creating segments with fewer than 4 words unless it is a complete, standalone sentence.
-    2. For EACH segment, provide:
-       - 'text': The original English text.
-       - 'translation': A natural Chinese translation.
-       - 'idiomatic': An alternative American idiomatic expression conveying the same meaning (e.g., "I'm very hungry" -> "I could eat a horse").
-    3. Analyze the overall audio to estimate word count, CEFR level (A1-C2), and speed.
-  `;
+  // Most common level across chunks
+  const levelCounts: Record<string, number> = {};
+  results.forEach(r => {
+    const level = r.meta?.estimatedLevel;
+    if (level) levelCounts[level] = (levelCounts[level] || 0) + 1;
+  });
+  const estimatedLevel = Object.keys(levelCounts).sort((a, b) => levelCounts[b] - levelCounts[a])[0] || '';
 
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      language: { type: Type.STRING },
-      meta: {
-        type: Type.OBJECT,
-        properties: {
-            wordCount: { type: Type.NUMBER },
-            estimatedLevel: { type: Type.STRING },
-            speed: { type: Type.STRING }
-        }
-      },
-      segments: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            start: { type: Type.NUMBER },
-            end: { type: Type.NUMBER },
-            text: { type: Type.STRING },
-            translation: { type: Type.STRING },
-            idiomatic: { type: Type.STRING },
-          },
-          required: ["start", "end", "text", "translation", "idiomatic"],
-        },
-      },
+  return {
+    language: results[0]?.language || getSourceLocale(settings),
+    segments: mergeShortSegments(rawSegments),
+    languageSettings: settings,
+    meta: {
+      wordCount,
+      estimatedLevel,
+      speed: durationSeconds > 0 ? `${Math.round(wordCount / (durationSeconds / 60))} wpm` : '',
     },
-    required: ["language", "segments", "meta"],
   };
+};
+
+interface TranscribeOptions {
+  settings?: LanguageSettings;
+  onProgress?: (progress: TranscriptionProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Transcribes audio with Translation and Idiomatic Expressions.
+ * Long files are split at silences and transcribed chunk by chunk, reporting partial results.
+ */
+export const transcribeAudio = async (file: File, options: TranscribeOptions = {}): Promise<TranscriptionResponse> => {
+  const { settings = DEFAULT_LANGUAGE_SETTINGS, onProgress, signal } = options;
+  const duration = await getMediaDuration(file);
+
+  if (!shouldChunkAudio(file, duration)) {
+    onProgress?.({ stage: 'transcribe', completedChunks: 0, totalChunks: 1, partial: null });
+    const result = await transcribeSingle(file, file.type || 'audio/mp3', settings);
+    result.segments = mergeShortSegments(result.segments);
+    result.languageSettings = settings;
+    onProgress?.({ stage: 'transcribe', completedChunks: 1, totalChunks: 1, partial: result });
+    return result;
+  }
 
-  return withRetry(async () => {
-    const response = await getAi().models.generateContent({
-      model: TRANSCRIPTION_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: file.type || 'audio/mp3',
-              data: base64Audio
-            }
-          },
-          { text: "Transcribe and analyze this audio for an English learner." }
-        ]
-      },
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      }
+  const chunks = await splitAudioIntoChunks(file);
+  const results: TranscriptionResponse[] = [];
+  const rawSegments: TranscriptionSegment[] = [];
+  let processedSeconds = 0;
+  let stitched: TranscriptionResponse | null = null;
+  onProgress?.({ stage: 'transcribe', completedChunks: 0, totalChunks: chunks.length, partial: null });
+
+  for (let i = 0; i < chunks.length; i++) {
+    if (signal?.aborted) throw new DOMException("Transcription cancelled", "AbortError");
+    const chunk = chunks[i];
+    const result = await transcribeSingle(chunk.blob, 'audio/wav', settings);
+
+    // Shift chunk-relative timestamps back into global time
+    result.segments.forEach(segment => {
+      rawSegments.push({
+        ...segment,
+        start: segment.start + chunk.offset,
+        end: segment.end + chunk.offset,
+        words: segment.words?.map(w => ({ ...w, start: w.start + chunk.offset, end: w.end + chunk.offset })),
+      });
     });
+    results.push(result);
+    processedSeconds += chunk.duration;
 
-    if (response.text) {
-      const parsed = JSON.parse(response.text) as TranscriptionResponse;
-      parsed.segments = mergeShortSegments(parsed.segments);
-      return parsed;
-    }
-    throw new Error("Empty response from Gemini");
-  });
+    stitched = stitchChunks(results, rawSegments, processedSeconds, settings);
+    onProgress?.({ stage: 'transcribe', completedChunks: i + 1, totalChunks: chunks.length, partial: stitched });
+  }
+
+  if (!stitched) throw new Error("Empty transcription response");
+  return stitched;
 };
 
+const speechKey = (provider: AiProvider, text: string, speech: SpeechOptions) =>
+  speechCacheKey(`${provider.id}:${provider.ttsModel || 'default'}:${speech.voice}:${speech.rate}:${speech.accent || ''}`, text);
+
 /**
- * Text-to-Speech.
- * NOTE: Strictly requires Gemini (Multimodal).
+ * Voices offered by the first configured TTS provider, for the voice picker.
  */
-export const generateSpeech = async (text: string): Promise<string> => {
-  return withRetry(async () => {
-    const response = await getAi().models.generateContent({
-      model: TTS_MODEL,
-      contents: { parts: [{ text }] },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, 
-          },
-        },
-      },
+export const getAvailableVoices = (): VoiceOption[] => getConfiguredProviders('tts')[0]?.voices || [];
+
+/**
+ * Text-to-Speech. Pass `priority: 'interactive'` when the user is waiting and 'background' for prefetching.
+ * Results are cached persistently per voice, rate and accent; a clip from any configured provider is reused.
+ */
+export const generateSpeech = async (
+  text: string,
+  speech: SpeechOptions = DEFAULT_SPEECH_OPTIONS,
+  options: RequestOptions = {}
+): Promise<string> => {
+  for (const provider of getConfiguredProviders('tts')) {
+    const cached = await getCachedSpeech(speechKey(provider, text, resolveSpeech(provider, speech))).catch(e => {
+      console.error("Failed to read speech cache", e);
+      return undefined;
     });
+    if (cached) return cached;
+  }
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (audioData) return audioData;
-    throw new Error("No audio data returned");
-  });
+  const dedupeKey = `tts:${speech.voice}:${speech.rate}:${speech.accent || ''}:${text}`;
+  return runWithFallback('tts', async provider => {
+    const resolved = resolveSpeech(provider, speech);
+    const audio = await provider.tts!(text, resolved);
+    cacheSpeech(speechKey(provider, text, resolved), audio).catch(e => console.error("Failed to cache speech", e));
+    return audio;
+  }, { dedupeKey, ...options });
 };
 
 /**
- * Scores user pronunciation.
- * NOTE: Strictly requires Gemini (Multimodal) to listen to user audio.
+ * Fills the speech cache for `texts` at background priority. Runs one clip at a time so
+ * `signal` can stop it between clips; the first failure stops the run.
  */
-export const scorePronunciation = async (userAudio: Blob, referenceText: string): Promise<PronunciationScore> => {
-  const base64Audio = await fileToBase64(userAudio);
-
-  const prompt = `
-    Listen to this user recording and compare it to the text: "${referenceText}".
-    Grade the pronunciation accuracy from 0 to 100.
-    Provide brief feedback.
-    Return JSON: { score: number, feedback: string, accuracy: 'good'|'average'|'poor' }
-  `;
+export const pregenerateSpeech = async (
+  texts: string[],
+  speech: SpeechOptions,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const unique = [...new Set(texts.filter(Boolean))];
+  for (let i = 0; i < unique.length; i++) {
+    if (signal?.aborted) return;
+    await generateSpeech(unique[i], speech, { priority: 'background' });
+    onProgress?.(i + 1, unique.length);
+  }
+};
 
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      score: { type: Type.NUMBER },
-      feedback: { type: Type.STRING },
-      accuracy: { type: Type.STRING, enum: ['good', 'average', 'poor'] }
-    },
-    required: ["score", "feedback", "accuracy"]
-  };
+/**
+ * Scores user pronunciation.
+ */
+export const scorePronunciation = async (
+  userAudio: Blob,
+  referenceText: string,
+  settings: LanguageSettings = DEFAULT_LANGUAGE_SETTINGS
+): Promise<PronunciationScore> => {
+  return runWithFallback('score', provider => provider.score!(userAudio, referenceText, settings), { priority: 'interactive' });
+};
 
-  return withRetry(async () => {
-    const response = await getAi().models.generateContent({
-      model: TRANSCRIPTION_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'audio/webm', data: base64Audio } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      }
-    });
+/**
+ * Get Word Definition.
+ */
+export const getWordDefinition = async (
+  word: string,
+  contextSentence: string,
+  settings: LanguageSettings = DEFAULT_LANGUAGE_SETTINGS
+): Promise<WordDefinition> => {
+  const dedupeKey = `define:${settings.sourceLanguage}:${settings.translationLanguage}:${word}:${contextSentence}`;
+  return runWithFallback('define', provider => provider.define!(word, contextSentence, settings), { priority: 'interactive', dedupeKey });
+};
 
-    if (response.text) {
-      return JSON.parse(response.text) as PronunciationScore;
-    }
-    throw new Error("Scoring failed");
-  });
+/**
+ * Grammar and usage breakdown of one sentence.
+ */
+export const explainSentence = async (
+  sentence: string,
+  settings: LanguageSettings = DEFAULT_LANGUAGE_SETTINGS
+): Promise<SentenceExplanation> => {
+  const dedupeKey = `explain:${settings.sourceLanguage}:${settings.translationLanguage}:${sentence}`;
+  return runWithFallback('explain', provider => provider.explain!(sentence, settings), { priority: 'interactive', dedupeKey });
 };
 
+const ENRICH_BATCH_SIZE = 20;
+
 /**
- * Get Word Definition.
- * STRATEGY: Try Gemini -> Fail -> Try DeepSeek.
+ * Fills `translation` and `idiomatic` for segments that lack them, in batches.
+ * Segments that already have both are left untouched. Progress is reported per batch.
  */
-export const getWordDefinition = async (word: string, contextSentence: string): Promise<WordDefinition> => {
-  const prompt = `Define "${word}" in context: "${contextSentence}". Return JSON with: word, definition (English), example, phonetic.`;
-  
-  // 1. Try Google Gemini First
-  try {
-    const responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-        word: { type: Type.STRING },
-        definition: { type: Type.STRING },
-        example: { type: Type.STRING },
-        phonetic: { type: Type.STRING },
-        },
-        required: ["word", "definition", "example"],
-    };
+export const enrichSegments = async (
+  segments: TranscriptionSegment[],
+  settings: LanguageSettings,
+  onProgress?: (segments: TranscriptionSegment[], completedBatches: number, totalBatches: number) => void
+): Promise<TranscriptionSegment[]> => {
+  const result = [...segments];
+  const pending = segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => !segment.translation || !segment.idiomatic);
+  const totalBatches = Math.ceil(pending.length / ENRICH_BATCH_SIZE);
 
-    return await withRetry(async () => {
-        const response = await getAi().models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: { responseMimeType: "application/json", responseSchema }
-        });
-        return JSON.parse(response.text!) as WordDefinition;
+  for (let i = 0; i < pending.length; i += ENRICH_BATCH_SIZE) {
+    const batch = pending.slice(i, i + ENRICH_BATCH_SIZE);
+    const enrichments = await runWithFallback('enrich', provider => provider.enrich!(batch.map(b => b.segment.text), settings));
+    batch.forEach(({ segment, index }, j) => {
+      result[index] = {
+        ...segment,
+        translation: segment.translation || enrichments[j]?.translation || '',
+        idiomatic: segment.idiomatic || enrichments[j]?.idiomatic || '',
+      };
     });
-    
-  } catch (geminiError) {
-      console.warn("Gemini definition failed, attempting DeepSeek fallback...", geminiError);
-      
-      // 2. Fallback to DeepSeek if configured
-      if (process.env.DEEPSEEK_API_KEY) {
-          try {
-              const systemPrompt = "You are an English dictionary API. Output purely JSON.";
-              const responseText = await callDeepSeek(systemPrompt, prompt);
-              return cleanAndParseJson<WordDefinition>(responseText);
-          } catch (deepSeekError) {
-              console.error("DeepSeek fallback also failed:", deepSeekError);
-              throw deepSeekError; // Throw the DeepSeek error if both fail
-          }
-      }
-      
-      throw geminiError; // If no DeepSeek key, throw original error
+    onProgress?.([...result], i / ENRICH_BATCH_SIZE + 1, totalBatches);
   }
-};
\ No newline at end of file
+  return result;
+};
+
+/**
+ * Completes a transcript imported from subtitles: only the missing translation and
+ * idiomatic fields are requested. Partial results are usable while batches are running.
+ */
+export const enrichTranscript = async (
+  transcript: TranscriptionResponse,
+  options: TranscribeOptions = {}
+): Promise<TranscriptionResponse> => {
+  const { onProgress, signal } = options;
+  onProgress?.({ stage: 'enrich', completedChunks: 0, totalChunks: 1, partial: transcript });
+
+  const segments = await enrichSegments(transcript.segments, getTranscriptLanguageSettings(transcript), (partialSegments, completed, total) => {
+    if (signal?.aborted) throw new DOMException("Transcription cancelled", "AbortError");
+    onProgress?.({ stage: 'enrich', completedChunks: completed, totalChunks: total, partial: { ...transcript, segments: partialSegments } });
+  });
+  return { ...transcript, segments };
+};
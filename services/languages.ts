@@ -0,0 +1,136 @@
+import { LanguageSettings, TranscriptionResponse } from "../types";
+
+export interface LanguageVariety {
+  code: string; // region, e.g. 'US'
+  name: string; // adjective used in prompts and labels, e.g. 'American'
+  flag: string;
+}
+
+export interface SourceLanguage {
+  code: string;
+  name: string;
+  varieties: LanguageVariety[]; // first entry is the default
+}
+
+export interface TranslationLanguage {
+  code: string;
+  name: string;
+}
+
+export const SOURCE_LANGUAGES: SourceLanguage[] = [
+  {
+    code: 'en',
+    name: 'English',
+    varieties: [
+      { code: 'US', name: 'American', flag: '🇺🇸' },
+      { code: 'GB', name: 'British', flag: '🇬🇧' },
+      { code: 'AU', name: 'Australian', flag: '🇦🇺' },
+      { code: 'CA', name: 'Canadian', flag: '🇨🇦' },
+    ],
+  },
+  {
+    code: 'es',
+    name: 'Spanish',
+    varieties: [
+      { code: 'ES', name: 'Castilian', flag: '🇪🇸' },
+      { code: 'MX', name: 'Mexican', flag: '🇲🇽' },
+      { code: 'AR', name: 'Argentinian', flag: '🇦🇷' },
+    ],
+  },
+  {
+    code: 'ja',
+    name: 'Japanese',
+    varieties: [{ code: 'JP', name: 'Standard Japanese', flag: '🇯🇵' }],
+  },
+  {
+    code: 'fr',
+    name: 'French',
+    varieties: [
+      { code: 'FR', name: 'Parisian', flag: '🇫🇷' },
+      { code: 'CA', name: 'Québécois', flag: '🇨🇦' },
+    ],
+  },
+  {
+    code: 'de',
+    name: 'German',
+    varieties: [
+      { code: 'DE', name: 'German', flag: '🇩🇪' },
+      { code: 'AT', name: 'Austrian', flag: '🇦🇹' },
+    ],
+  },
+];
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: 'zh-CN', name: 'Chinese (Simplified)' },
+  { code: 'zh-TW', name: 'Chinese (Traditional)' },
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'vi', name: 'Vietnamese' },
+];
+
+// What every transcript used before languages were configurable
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+  sourceLanguage: 'en',
+  translationLanguage: 'zh-CN',
+  idiomVariety: 'US',
+};
+
+const STORAGE_KEY = 'languageSettings';
+
+export const getSourceLanguage = (code: string): SourceLanguage =>
+  SOURCE_LANGUAGES.find(l => l.code === code) || SOURCE_LANGUAGES[0];
+
+export const getTranslationLanguageName = (code: string) =>
+  TRANSLATION_LANGUAGES.find(l => l.code === code)?.name || code;
+
+export const getIdiomVariety = (settings: LanguageSettings): LanguageVariety => {
+  const { varieties } = getSourceLanguage(settings.sourceLanguage);
+  return varieties.find(v => v.code === settings.idiomVariety) || varieties[0];
+};
+
+/**
+ * BCP-47 tag of the spoken audio, e.g. 'en-US'.
+ */
+export const getSourceLocale = (settings: LanguageSettings) =>
+  `${settings.sourceLanguage}-${getIdiomVariety(settings).code}`;
+
+/**
+ * Badge shown above the idiomatic rewrite, e.g. "🇺🇸 American Native".
+ */
+export const getIdiomLabel = (settings: LanguageSettings) => {
+  const variety = getIdiomVariety(settings);
+  return `${variety.flag} ${variety.name} Native`;
+};
+
+/**
+ * Settings a transcript was made with; older transcripts were all English → Chinese.
+ */
+export const getTranscriptLanguageSettings = (transcript: TranscriptionResponse | null | undefined): LanguageSettings =>
+  transcript?.languageSettings || DEFAULT_LANGUAGE_SETTINGS;
+
+/**
+ * The choice last made on the upload screen, reused as the default for the next file.
+ */
+export const loadPreferredLanguageSettings = (): LanguageSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_LANGUAGE_SETTINGS, ...(JSON.parse(saved) as Partial<LanguageSettings>) };
+  } catch (e) {
+    console.error("Failed to read language settings", e);
+  }
+  return DEFAULT_LANGUAGE_SETTINGS;
+};
+
+export const savePreferredLanguageSettings = (settings: LanguageSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save language settings", e);
+  }
+};
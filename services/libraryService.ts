@@ -0,0 +1,78 @@
+import { LibraryItem, TranscriptionResponse } from "../types";
+import { STORE_LIBRARY, STORE_LIBRARY_AUDIO, dbDelete, dbGet, dbGetAll, dbPut, dbUpdate } from "./db";
+import { deleteCardsForItem } from "./reviewDeck";
+import { deleteAttemptsForItem } from "./practiceHistory";
+import { removeVocabularySourcesForItem } from "./vocabulary";
+
+/**
+ * Lists saved items, most recently opened first.
+ * Audio blobs live in a separate store so listing stays cheap.
+ */
+export const listLibraryItems = async (): Promise<LibraryItem[]> => {
+  const items = await dbGetAll<LibraryItem>(STORE_LIBRARY);
+  return items.sort((a, b) => b.lastOpenedAt - a.lastOpenedAt);
+};
+
+export const getLibraryItem = (id: string) => dbGet<LibraryItem>(STORE_LIBRARY, id);
+
+/**
+ * Saves a freshly transcribed file together with its original audio.
+ */
+export const createLibraryItem = async (
+  file: File,
+  transcription: TranscriptionResponse,
+  duration: number
+): Promise<LibraryItem> => {
+  const now = Date.now();
+  const item: LibraryItem = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    duration,
+    transcription,
+    practice: { lastPosition: 0, shadowingIndex: 0 },
+    createdAt: now,
+    lastOpenedAt: now,
+  };
+
+  await dbPut(STORE_LIBRARY_AUDIO, file as Blob, item.id);
+  await dbPut(STORE_LIBRARY, item);
+  return item;
+};
+
+/**
+ * Merges a partial update into a stored item. Missing items are ignored.
+ */
+export const updateLibraryItem = async (
+  id: string,
+  patch: Partial<Omit<LibraryItem, 'id'>>
+): Promise<LibraryItem | undefined> => {
+  // One transaction, so the practice autosave can't drop a concurrent transcript save or vice versa
+  return dbUpdate<LibraryItem>(STORE_LIBRARY, id, item => item && { ...item, ...patch });
+};
+
+/**
+ * Loads an item's original audio without marking it as opened.
+ */
+export const loadLibraryAudio = (id: string) => dbGet<Blob>(STORE_LIBRARY_AUDIO, id);
+
+/**
+ * Loads the original audio and marks the item as opened.
+ */
+export const openLibraryItem = async (id: string): Promise<{ item: LibraryItem; file: File }> => {
+  const item = await updateLibraryItem(id, { lastOpenedAt: Date.now() });
+  const blob = await loadLibraryAudio(id);
+  if (!item || !blob) {
+    throw new Error("This library item could not be found.");
+  }
+  return { item, file: new File([blob], item.name, { type: item.type }) };
+};
+
+export const deleteLibraryItem = async (id: string): Promise<void> => {
+  await deleteCardsForItem(id);
+  await deleteAttemptsForItem(id);
+  await removeVocabularySourcesForItem(id);
+  await dbDelete(STORE_LIBRARY_AUDIO, id);
+  await dbDelete(STORE_LIBRARY, id);
+};
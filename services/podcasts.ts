@@ -0,0 +1,148 @@
+import { PodcastChapter, PodcastEpisode, PodcastFeed, SavedFeed } from "../types";
+import { env } from "./env";
+import { getSubtitleTranscript, parseChaptersJson, parseFeed } from "./feedParser";
+import { ApiErrorBody, PROXY_LIMITS } from "./providers/proxyProtocol";
+
+// Podcast subscriptions and downloads. Podcast hosts rarely send CORS headers, so every
+// request goes through FEED_PROXY_URL, or the API worker's /fetch when only API_PROXY_URL is set.
+
+const STORAGE_KEY = 'podcastFeeds';
+
+const FEED_PROXY = env.FEED_PROXY_URL || (env.API_PROXY_URL ? `${env.API_PROXY_URL.replace(/\/+$/, '')}/fetch?url=` : '');
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/flac': 'flac',
+};
+
+/**
+ * The URL to request for `url`: FEED_PROXY_URL is either a prefix the encoded URL is
+ * appended to ("/api/fetch?url=") or a template containing "{url}".
+ */
+export const proxiedUrl = (url: string) => {
+  if (!FEED_PROXY) return url;
+  const encoded = encodeURIComponent(url);
+  return FEED_PROXY.includes('{url}') ? FEED_PROXY.replace('{url}', encoded) : FEED_PROXY + encoded;
+};
+
+const fetchViaProxy = async (url: string, signal?: AbortSignal): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(proxiedUrl(url), { signal });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    throw new Error(FEED_PROXY
+      ? `Could not reach the feed proxy for ${url}.`
+      : `Could not fetch ${url}. The host may block browser requests; set FEED_PROXY_URL or API_PROXY_URL.`);
+  }
+  if (!response.ok) {
+    // The API worker explains its refusals in an ApiErrorBody
+    const body = await response.json().catch(() => null) as ApiErrorBody | null;
+    throw new Error(body?.error?.message || `Fetching ${url} failed (${response.status}).`);
+  }
+  return response;
+};
+
+export const fetchFeed = async (url: string, signal?: AbortSignal): Promise<PodcastFeed> => {
+  const response = await fetchViaProxy(url, signal);
+  return parseFeed(await response.text(), url);
+};
+
+/**
+ * Inline chapters, or the episode's JSON chapters file.
+ */
+export const loadChapters = async (episode: PodcastEpisode, signal?: AbortSignal): Promise<PodcastChapter[]> => {
+  if (episode.chapters) return episode.chapters;
+  if (!episode.chaptersUrl) return [];
+  const response = await fetchViaProxy(episode.chaptersUrl, signal);
+  return parseChaptersJson(await response.text());
+};
+
+const episodeFileName = (episode: PodcastEpisode) =>
+  episode.title.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'episode';
+
+const audioExtension = (episode: PodcastEpisode, type: string) => {
+  const fromUrl = episode.audioUrl?.split(/[?#]/)[0].match(/\.(mp3|m4a|aac|ogg|oga|opus|wav|flac)$/i)?.[1];
+  return (fromUrl || AUDIO_EXTENSIONS[type.split(';')[0].trim().toLowerCase()] || 'mp3').toLowerCase();
+};
+
+/**
+ * Downloads the episode's audio as a File for the transcription flow.
+ * `onProgress` receives the bytes so far and the total when the server sends one.
+ */
+export const downloadEpisode = async (
+  episode: PodcastEpisode,
+  onProgress?: (received: number, total?: number) => void,
+  signal?: AbortSignal
+): Promise<File> => {
+  if (!episode.audioUrl) throw new Error("This episode has no audio file.");
+  const response = await fetchViaProxy(episode.audioUrl, signal);
+  const total = Number(response.headers.get('content-length')) || undefined;
+  const tooLarge = () => new Error(`The episode is larger than ${PROXY_LIMITS.maxFetchBytes / 1024 / 1024} MB.`);
+  if (total && total > PROXY_LIMITS.maxFetchBytes) throw tooLarge();
+
+  const chunks: BlobPart[] = [];
+  let received = 0;
+  const reader = response.body!.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (received > PROXY_LIMITS.maxFetchBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    onProgress?.(received, total);
+  }
+
+  const type = episode.audioType || response.headers.get('content-type') || 'audio/mpeg';
+  return new File(chunks, `${episodeFileName(episode)}.${audioExtension(episode, type)}`, { type });
+};
+
+/**
+ * The episode's SRT or WebVTT transcript as a subtitle file, if the feed links one.
+ */
+export const downloadEpisodeTranscript = async (episode: PodcastEpisode, signal?: AbortSignal): Promise<File | undefined> => {
+  const transcript = getSubtitleTranscript(episode);
+  if (!transcript) return undefined;
+  const response = await fetchViaProxy(transcript.link.url, signal);
+  return new File([await response.text()], `${episodeFileName(episode)}.${transcript.extension}`, { type: transcript.link.type || 'text/plain' });
+};
+
+export const loadSavedFeeds = (): SavedFeed[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as SavedFeed[];
+  } catch (e) {
+    console.error("Failed to read podcast feeds", e);
+  }
+  return [];
+};
+
+export const saveFeeds = (feeds: SavedFeed[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(feeds));
+  } catch (e) {
+    console.error("Failed to save podcast feeds", e);
+  }
+};
+
+/**
+ * Adds feeds to a subscription list, updating titles of ones already in it.
+ */
+export const mergeFeeds = (current: SavedFeed[], added: SavedFeed[]): SavedFeed[] => {
+  const result = [...current];
+  added.forEach(feed => {
+    const index = result.findIndex(f => f.url === feed.url);
+    if (index === -1) result.push(feed); else result[index] = feed;
+  });
+  return result;
+};
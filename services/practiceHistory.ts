@@ -0,0 +1,48 @@
+import { ListeningLogEntry, PracticeAttempt } from "../types";
+import { STORE_LISTENING_LOG, STORE_PRACTICE_ATTEMPTS, dbDelete, dbGetAll, dbPut, dbUpdate } from "./db";
+import { toDayKey } from "./practiceStats";
+import { SegmentStartMapping } from "./transcriptEdits";
+
+// Scored practice attempts and listening time, shared by every transcript in the library.
+
+export const recordAttempt = async (attempt: Omit<PracticeAttempt, 'id' | 'createdAt'>): Promise<PracticeAttempt> => {
+  const saved: PracticeAttempt = { ...attempt, id: crypto.randomUUID(), createdAt: Date.now() };
+  await dbPut(STORE_PRACTICE_ATTEMPTS, saved);
+  return saved;
+};
+
+export const listAttempts = () => dbGetAll<PracticeAttempt>(STORE_PRACTICE_ATTEMPTS);
+
+export const listListeningLog = () => dbGetAll<ListeningLogEntry>(STORE_LISTENING_LOG);
+
+/**
+ * Adds playback time to the item's entry for today.
+ */
+export const addListeningTime = async (libraryItemId: string, seconds: number, now = Date.now()): Promise<void> => {
+  const day = toDayKey(now);
+  const id = `${day}:${libraryItemId}`;
+  // Read and write in one transaction so overlapping flushes both add up
+  await dbUpdate<ListeningLogEntry>(STORE_LISTENING_LOG, id, existing =>
+    ({ id, day, libraryItemId, seconds: (existing?.seconds || 0) + seconds }));
+};
+
+/**
+ * Moves the item's attempts along with transcript edits, so the dashboard and
+ * "practice again" keep pointing at a real segment.
+ */
+export const moveAttemptsToSegments = async (libraryItemId: string, segmentFor: SegmentStartMapping): Promise<void> => {
+  const attempts = (await listAttempts()).filter(a => a.libraryItemId === libraryItemId);
+  await Promise.all(attempts.map(attempt => {
+    const segment = segmentFor(attempt.segmentStart);
+    if (!segment || (segment.start === attempt.segmentStart && segment.end === attempt.segmentEnd)) return undefined;
+    return dbPut(STORE_PRACTICE_ATTEMPTS, { ...attempt, segmentStart: segment.start, segmentEnd: segment.end });
+  }));
+};
+
+/**
+ * Attempts point at segments of the item, so they go with it. Listening time is kept for streaks and totals.
+ */
+export const deleteAttemptsForItem = async (libraryItemId: string): Promise<void> => {
+  const attempts = await listAttempts();
+  await Promise.all(attempts.filter(a => a.libraryItemId === libraryItemId).map(a => dbDelete(STORE_PRACTICE_ATTEMPTS, a.id)));
+};
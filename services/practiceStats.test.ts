@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ListeningLogEntry, PracticeAttempt, PracticeMode } from '../types';
+import { computePracticeStats, toDayKey } from './practiceStats';
+
+// Local noon on a day of March 2024, so the checks don't depend on the time zone
+const at = (date: number, hour = 12) => new Date(2024, 2, date, hour).getTime();
+
+const attempt = (date: number, segmentStart: number, score: number, mode: PracticeMode = 'shadowing'): PracticeAttempt => ({
+  id: `${date}:${segmentStart}:${score}`, libraryItemId: 'item', itemName: 'Episode', segmentStart, segmentEnd: segmentStart + 2,
+  text: `segment ${segmentStart}`, mode, score, createdAt: at(date),
+});
+
+const listened = (date: number, seconds: number): ListeningLogEntry =>
+  ({ id: `${toDayKey(at(date))}:item`, day: toDayKey(at(date)), libraryItemId: 'item', seconds });
+
+describe('toDayKey', () => {
+  it('uses the local calendar day', () => {
+    expect(toDayKey(at(5, 0))).toBe('2024-03-05');
+    expect(toDayKey(at(5, 23))).toBe('2024-03-05');
+  });
+});
+
+describe('computePracticeStats', () => {
+  it('averages scores per day in date order', () => {
+    const stats = computePracticeStats([attempt(3, 0, 90), attempt(1, 0, 60), attempt(1, 2, 81)], [], at(3));
+    expect(stats.daily).toEqual([
+      { day: '2024-03-01', average: 71, attempts: 2 },
+      { day: '2024-03-03', average: 90, attempts: 1 },
+    ]);
+    expect(stats.attemptCount).toBe(3);
+  });
+
+  it('keeps best and latest per segment and mode, and lists the weakest by latest score', () => {
+    const stats = computePracticeStats([
+      attempt(1, 0, 90), attempt(2, 0, 50),
+      attempt(1, 2, 70), attempt(2, 2, 85),
+      attempt(2, 4, 40, 'dictation'), attempt(2, 4, 95, 'shadowing'),
+    ], [], at(2));
+    const first = stats.segments.find(s => s.segmentStart === 0)!;
+    expect(first).toMatchObject({ best: 90, latest: 50, attempts: 2 });
+    expect(stats.segments).toHaveLength(4);
+    expect(stats.weakest.map(s => [s.segmentStart, s.mode])).toEqual([[4, 'dictation'], [0, 'shadowing']]);
+  });
+
+  it('counts streaks over practice and listening days, keeping one that ended yesterday', () => {
+    const attempts = [attempt(1, 0, 80), attempt(2, 0, 80), attempt(3, 0, 80), attempt(6, 0, 80)];
+    const listening = [listened(7, 120), listened(8, 0)];
+    expect(computePracticeStats(attempts, listening, at(8))).toMatchObject({ currentStreak: 2, longestStreak: 3 });
+    expect(computePracticeStats(attempts, listening, at(9)).currentStreak).toBe(0);
+  });
+
+  it('carries a streak across a month boundary', () => {
+    const attempts = [{ ...attempt(1, 0, 80), createdAt: new Date(2024, 1, 29, 12).getTime() }, attempt(1, 0, 80)];
+    expect(computePracticeStats(attempts, [], at(1)).currentStreak).toBe(2);
+  });
+
+  it('totals listening minutes overall and for the last seven days', () => {
+    const stats = computePracticeStats([], [listened(1, 600), listened(9, 300), listened(15, 150)], at(15));
+    expect(stats.totalMinutes).toBe(18);
+    expect(stats.weekMinutes).toBe(8);
+  });
+});
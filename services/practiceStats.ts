@@ -0,0 +1,101 @@
+import { ListeningLogEntry, PracticeAttempt, PracticeStats, SegmentProgress } from "../types";
+
+// Aggregates practice history for the progress dashboard. Pure, so it can run on any snapshot.
+
+const WEEK_DAYS = 7;
+const WEAK_SCORE = 80; // segments whose latest score is below this are worth another pass
+const WEAKEST_LIMIT = 5;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD.
+ */
+export const toDayKey = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const shiftDay = (day: string, offset: number) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, date + offset).getTime());
+};
+
+const computeStreaks = (activeDays: Set<string>, now: number) => {
+  const sorted = [...activeDays].sort();
+  let longestStreak = 0;
+  let run = 0;
+  sorted.forEach((day, i) => {
+    run = i > 0 && shiftDay(sorted[i - 1], 1) === day ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  // Today still counts as "in progress", so a streak ending yesterday is kept
+  const today = toDayKey(now);
+  let cursor = activeDays.has(today) ? today : shiftDay(today, -1);
+  let currentStreak = 0;
+  while (activeDays.has(cursor)) {
+    currentStreak++;
+    cursor = shiftDay(cursor, -1);
+  }
+  return { currentStreak, longestStreak };
+};
+
+const summarizeSegments = (attempts: PracticeAttempt[]): SegmentProgress[] => {
+  const byKey = new Map<string, SegmentProgress>();
+  [...attempts].sort((a, b) => a.createdAt - b.createdAt).forEach(attempt => {
+    const key = `${attempt.libraryItemId}:${attempt.segmentStart}:${attempt.mode}`;
+    const existing = byKey.get(key);
+    byKey.set(key, {
+      key,
+      libraryItemId: attempt.libraryItemId,
+      itemName: attempt.itemName,
+      segmentStart: attempt.segmentStart,
+      text: attempt.text,
+      mode: attempt.mode,
+      best: Math.max(existing?.best ?? 0, attempt.score),
+      latest: attempt.score,
+      attempts: (existing?.attempts ?? 0) + 1,
+      lastAttemptAt: attempt.createdAt,
+    });
+  });
+  return [...byKey.values()].sort((a, b) => b.lastAttemptAt - a.lastAttemptAt);
+};
+
+export const computePracticeStats = (
+  attempts: PracticeAttempt[],
+  listening: ListeningLogEntry[],
+  now = Date.now()
+): PracticeStats => {
+  const dailyTotals = new Map<string, { sum: number; attempts: number }>();
+  attempts.forEach(a => {
+    const day = toDayKey(a.createdAt);
+    const total = dailyTotals.get(day) || { sum: 0, attempts: 0 };
+    dailyTotals.set(day, { sum: total.sum + a.score, attempts: total.attempts + 1 });
+  });
+  const daily = [...dailyTotals.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([day, { sum, attempts: count }]) => ({ day, average: Math.round(sum / count), attempts: count }));
+
+  const segments = summarizeSegments(attempts);
+  const weakest = segments
+    .filter(s => s.latest < WEAK_SCORE)
+    .sort((a, b) => a.latest - b.latest || a.best - b.best)
+    .slice(0, WEAKEST_LIMIT);
+
+  const weekStart = shiftDay(toDayKey(now), -(WEEK_DAYS - 1));
+  const totalSeconds = listening.reduce((sum, e) => sum + e.seconds, 0);
+  const weekSeconds = listening.filter(e => e.day >= weekStart).reduce((sum, e) => sum + e.seconds, 0);
+
+  const activeDays = new Set([...dailyTotals.keys(), ...listening.filter(e => e.seconds > 0).map(e => e.day)]);
+
+  return {
+    daily,
+    segments,
+    weakest,
+    totalMinutes: Math.round(totalSeconds / 60),
+    weekMinutes: Math.round(weekSeconds / 60),
+    ...computeStreaks(activeDays, now),
+    attemptCount: attempts.length,
+  };
+};
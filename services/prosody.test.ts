@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { compareProsody, extractProsody } from './prosody';
+
+const SAMPLE_RATE = 8000;
+
+// Synthetic "speech": tones whose pitch glides from `from` to `to` Hz, with silences (`from` 0) between them
+const render = (parts: { seconds: number; from: number; to?: number }[]) => {
+  const samples = new Float32Array(Math.round(parts.reduce((sum, p) => sum + p.seconds, 0) * SAMPLE_RATE));
+  let offset = 0;
+  let phase = 0;
+  for (const { seconds, from, to = from } of parts) {
+    const length = Math.round(seconds * SAMPLE_RATE);
+    for (let i = 0; i < length; i++) {
+      const frequency = from + (to - from) * (i / length);
+      phase += (2 * Math.PI * frequency) / SAMPLE_RATE;
+      samples[offset + i] = from > 0 ? 0.5 * Math.sin(phase) : 0;
+    }
+    offset += length;
+  }
+  return samples;
+};
+
+const phrase = (scale = 1, rising = true) => render([
+  { seconds: 0.2, from: 0 },
+  { seconds: 0.6 * scale, from: rising ? 140 : 260, to: rising ? 260 : 140 },
+  { seconds: 0.3 * scale, from: 0 },
+  { seconds: 0.5 * scale, from: rising ? 180 : 240, to: rising ? 240 : 180 },
+  { seconds: 0.2, from: 0 },
+]);
+
+describe('extractProsody', () => {
+  it('tracks the pitch of a steady tone', () => {
+    const { pitch } = extractProsody(render([{ seconds: 0.5, from: 200 }]), SAMPLE_RATE);
+    const voiced = pitch.filter(p => p > 0);
+    expect(voiced.length).toBe(pitch.length);
+    voiced.forEach(p => expect(p).toBeCloseTo(200, 0));
+  });
+
+  it('finds the speech span and the pause inside it, but not the silence around it', () => {
+    const features = extractProsody(phrase(), SAMPLE_RATE);
+    expect(features.speechStart).toBeCloseTo(0.2, 1);
+    expect(features.speechEnd).toBeCloseTo(1.6, 1);
+    expect(features.pauses).toHaveLength(1);
+    expect(features.pauses[0].start).toBeCloseTo(0.8, 1);
+    expect(features.pauses[0].end).toBeCloseTo(1.1, 1);
+  });
+
+  it('reports no speech in silence', () => {
+    const features = extractProsody(new Float32Array(SAMPLE_RATE), SAMPLE_RATE);
+    expect(features.pitch.every(p => p === 0)).toBe(true);
+    expect(features.pauses).toEqual([]);
+  });
+});
+
+describe('compareProsody', () => {
+  const reference = extractProsody(phrase(), SAMPLE_RATE);
+
+  it('scores a take identical to the original at the top', () => {
+    const comparison = compareProsody(reference, reference)!;
+    expect(comparison.pitchScore).toBe(100);
+    expect(comparison.rhythmScore).toBe(100);
+    expect(comparison.pauseScore).toBe(100);
+    expect(comparison.tempoRatio).toBe(1);
+  });
+
+  it('follows a slower take of the same melody', () => {
+    const comparison = compareProsody(reference, extractProsody(phrase(1.5), SAMPLE_RATE))!;
+    expect(comparison.pitchScore).toBeGreaterThan(80);
+    expect(comparison.pauseScore).toBe(100);
+    expect(comparison.tempoRatio).toBeCloseTo(1.5, 1);
+  });
+
+  it('marks down a take whose intonation falls where the original rises', () => {
+    const comparison = compareProsody(reference, extractProsody(phrase(1, false), SAMPLE_RATE))!;
+    expect(comparison.pitchScore).toBeLessThan(50);
+  });
+
+  it('gives up when either side is silent', () => {
+    expect(compareProsody(reference, extractProsody(new Float32Array(SAMPLE_RATE), SAMPLE_RATE))).toBeNull();
+  });
+});
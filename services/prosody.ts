@@ -0,0 +1,262 @@
+import { ProsodyComparison, ProsodyFeatures } from "../types";
+import { decodeAudioBlob } from "./audioUtils";
+
+// Local intonation and rhythm analysis: pitch (YIN), loudness and pauses, with the
+// learner's take aligned to the original by DTW. Runs offline, no AI call involved.
+
+const HOP_SECONDS = 0.02;
+const WINDOW_SECONDS = 0.04; // must hold two periods of MIN_F0
+const MIN_F0 = 75;
+const MAX_F0 = 400;
+const YIN_THRESHOLD = 0.15;
+const SILENCE_DB = -35; // relative to the loudest frame
+const MIN_PEAK_DB = -70; // absolute; a quieter clip (e.g. a muted microphone) holds no speech at all
+const ENERGY_FLOOR_DB = -50; // energy maps to 0-1 over [ENERGY_FLOOR_DB, 0]
+const MIN_PAUSE_SECONDS = 0.15;
+const PAUSE_POSITION_TOLERANCE = 0.1; // fraction of the utterance a reproduced pause may drift
+const MIN_VOICED_PAIRS = 10;
+const MAX_DTW_FRAMES = 1500; // longer clips are decimated to keep the cost matrix small
+
+type Span = { start: number; end: number };
+
+/**
+ * Fundamental frequency of one frame using YIN, or 0 when the frame is unvoiced.
+ * `diff` is scratch space of at least `windowSize` entries.
+ */
+const yinPitch = (samples: Float32Array, offset: number, windowSize: number, sampleRate: number, diff: Float32Array): number => {
+  const tauMin = Math.max(2, Math.floor(sampleRate / MAX_F0));
+  const tauMax = Math.min(Math.floor(sampleRate / MIN_F0), Math.floor(windowSize / 2));
+  const span = windowSize - tauMax;
+
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let j = 0; j < span; j++) {
+      const d = samples[offset + j] - samples[offset + j + tau];
+      sum += d * d;
+    }
+    diff[tau] = sum;
+  }
+
+  // Cumulative mean normalized difference
+  diff[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    runningSum += diff[tau];
+    diff[tau] = runningSum > 0 ? (diff[tau] * tau) / runningSum : 1;
+  }
+
+  for (let tau = tauMin; tau <= tauMax; tau++) {
+    if (diff[tau] >= YIN_THRESHOLD) continue;
+    // Settle on the bottom of the dip, then refine with a parabola through its neighbours
+    while (tau < tauMax && diff[tau + 1] < diff[tau]) tau++;
+    const prev = diff[tau - 1];
+    const next = tau < tauMax ? diff[tau + 1] : diff[tau];
+    const curvature = prev + next - 2 * diff[tau];
+    const shift = curvature > 0 ? (prev - next) / (2 * curvature) : 0;
+    return sampleRate / (tau + shift);
+  }
+  return 0;
+};
+
+/**
+ * Pitch contour, loudness envelope and pauses of mono samples.
+ */
+export const extractProsody = (samples: Float32Array, sampleRate: number): ProsodyFeatures => {
+  const hop = Math.max(1, Math.round(HOP_SECONDS * sampleRate));
+  const windowSize = Math.round(WINDOW_SECONDS * sampleRate);
+  const hopSeconds = hop / sampleRate;
+  const frameCount = samples.length >= windowSize ? Math.floor((samples.length - windowSize) / hop) + 1 : 0;
+
+  const rawDb: number[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * hop; i < f * hop + windowSize; i++) sum += samples[i] * samples[i];
+    rawDb.push(10 * Math.log10(sum / windowSize + 1e-12));
+  }
+  const peak = rawDb.length > 0 ? Math.max(...rawDb) : 0;
+  const energy = rawDb.map(db => db - peak);
+
+  const isSpeech = energy.map(db => peak > MIN_PEAK_DB && db > SILENCE_DB);
+  const diff = new Float32Array(windowSize);
+  const pitch = isSpeech.map((speech, f) => speech ? yinPitch(samples, f * hop, windowSize, sampleRate, diff) : 0);
+
+  const first = isSpeech.indexOf(true);
+  const last = isSpeech.lastIndexOf(true);
+
+  const pauses: Span[] = [];
+  let runStart = -1;
+  for (let f = Math.max(0, first); f <= last; f++) {
+    if (!isSpeech[f] && runStart < 0) runStart = f;
+    if (isSpeech[f] && runStart >= 0) {
+      if ((f - runStart) * hopSeconds >= MIN_PAUSE_SECONDS) {
+        pauses.push({ start: runStart * hopSeconds, end: f * hopSeconds });
+      }
+      runStart = -1;
+    }
+  }
+
+  return {
+    hopSeconds,
+    pitch,
+    energy,
+    pauses,
+    speechStart: first >= 0 ? first * hopSeconds : 0,
+    speechEnd: last >= 0 ? (last + 1) * hopSeconds : 0,
+  };
+};
+
+// Semitones from the speaker's median pitch, so different voices compare by contour shape
+const toSemitones = (pitch: number[]): (number | null)[] => {
+  const voiced = pitch.filter(p => p > 0).sort((a, b) => a - b);
+  if (voiced.length === 0) return pitch.map(() => null);
+  const median = voiced[Math.floor(voiced.length / 2)];
+  return pitch.map(p => p > 0 ? 12 * Math.log2(p / median) : null);
+};
+
+const normalizeEnergy = (db: number) => Math.max(0, Math.min(1, (db - ENERGY_FLOOR_DB) / -ENERGY_FLOOR_DB));
+
+const correlation = (xs: number[], ys: number[]) => {
+  const n = xs.length;
+  if (n === 0) return 0;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let cov = 0, varX = 0, varY = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (xs[i] - meanX) * (ys[i] - meanY);
+    varX += (xs[i] - meanX) ** 2;
+    varY += (ys[i] - meanY) ** 2;
+  }
+  return varX > 0 && varY > 0 ? cov / Math.sqrt(varX * varY) : 0;
+};
+
+/**
+ * Dynamic time warping over an n×m cost function. Returns the optimal path as [i, j] pairs from start to end.
+ */
+const dtw = (n: number, m: number, cost: (i: number, j: number) => number): [number, number][] => {
+  const acc = new Float32Array(n * m);
+  const at = (i: number, j: number) => (i < 0 || j < 0 ? Infinity : acc[i * m + j]);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      const best = i === 0 && j === 0 ? 0 : Math.min(at(i - 1, j), at(i, j - 1), at(i - 1, j - 1));
+      acc[i * m + j] = cost(i, j) + best;
+    }
+  }
+
+  const path: [number, number][] = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    const diagonal = at(i - 1, j - 1);
+    const up = at(i - 1, j);
+    const left = at(i, j - 1);
+    if (diagonal <= up && diagonal <= left) { i--; j--; }
+    else if (up <= left) i--;
+    else j--;
+    path.push([i, j]);
+  }
+  return path.reverse();
+};
+
+// Frames of the speech span only, every `stride`-th frame
+const speechFrames = <T>(values: T[], features: ProsodyFeatures, stride: number): T[] => {
+  const from = Math.round(features.speechStart / features.hopSeconds);
+  const to = Math.round(features.speechEnd / features.hopSeconds);
+  return values.slice(from, to).filter((_, i) => i % stride === 0);
+};
+
+// Pause midpoints as a fraction of the speech span
+const pausePositions = (features: ProsodyFeatures) => {
+  const length = features.speechEnd - features.speechStart;
+  return features.pauses.map(p => ((p.start + p.end) / 2 - features.speechStart) / length);
+};
+
+const shiftSpans = (spans: Span[], offset: number) => spans.map(s => ({ start: s.start - offset, end: s.end - offset }));
+
+/**
+ * Time-aligns a take with the original and scores how closely it follows the
+ * original's intonation, loudness rhythm, pauses and tempo. Null when either is silent.
+ */
+export const compareProsody = (reference: ProsodyFeatures, take: ProsodyFeatures): ProsodyComparison | null => {
+  const referenceSpeech = reference.speechEnd - reference.speechStart;
+  const takeSpeech = take.speechEnd - take.speechStart;
+  if (referenceSpeech <= 0 || takeSpeech <= 0) return null;
+
+  const longest = Math.max(referenceSpeech / reference.hopSeconds, takeSpeech / take.hopSeconds);
+  const stride = Math.max(1, Math.ceil(longest / MAX_DTW_FRAMES));
+  const hopSeconds = take.hopSeconds * stride;
+
+  const refPitch = speechFrames(toSemitones(reference.pitch), reference, stride);
+  const userPitch = speechFrames(toSemitones(take.pitch), take, stride);
+  const refEnergy = speechFrames(reference.energy.map(normalizeEnergy), reference, stride);
+  const userEnergy = speechFrames(take.energy.map(normalizeEnergy), take, stride);
+  if (refEnergy.length === 0 || userEnergy.length === 0) return null;
+
+  const path = dtw(refEnergy.length, userEnergy.length, (i, j) => {
+    let cost = Math.abs(refEnergy[i] - userEnergy[j]);
+    const a = refPitch[i];
+    const b = userPitch[j];
+    if (a !== null && b !== null) cost += Math.min(1, Math.abs(a - b) / 12);
+    else if ((a === null) !== (b === null)) cost += 0.5;
+    return cost;
+  });
+
+  const voicedPairs = path.filter(([i, j]) => refPitch[i] !== null && userPitch[j] !== null);
+  const pitchScore = voicedPairs.length >= MIN_VOICED_PAIRS
+    ? Math.round(Math.max(0, correlation(voicedPairs.map(([i]) => refPitch[i]!), voicedPairs.map(([, j]) => userPitch[j]!))) * 100)
+    : null;
+  const rhythmScore = Math.round(Math.max(0, correlation(path.map(([i]) => refEnergy[i]), path.map(([, j]) => userEnergy[j]))) * 100);
+
+  // Warp the original onto the take's timeline
+  const refFrameForUser: number[] = [];
+  const userFrameForRef: number[] = [];
+  path.forEach(([i, j]) => {
+    refFrameForUser[j] = i;
+    if (userFrameForRef[i] === undefined) userFrameForRef[i] = j;
+  });
+  const toTakeTime = (referenceTime: number) => {
+    const frame = Math.min(userFrameForRef.length - 1, Math.max(0, Math.round((referenceTime - reference.speechStart) / (reference.hopSeconds * stride))));
+    return userFrameForRef[frame] * hopSeconds;
+  };
+  const referencePauses = reference.pauses.map(p => ({ start: toTakeTime(p.start), end: toTakeTime(p.end) }));
+  const userPauses = shiftSpans(take.pauses, take.speechStart);
+
+  // Pauses are matched by their position within the utterance, not after warping,
+  // since DTW would otherwise line up any pause with any other
+  const referencePositions = pausePositions(reference);
+  const takePositions = pausePositions(take);
+  const reproduced = referencePositions.filter(r => takePositions.some(u => Math.abs(u - r) <= PAUSE_POSITION_TOLERANCE)).length;
+
+  return {
+    pitchScore,
+    rhythmScore,
+    pauseScore: referencePositions.length > 0 ? Math.round((reproduced / referencePositions.length) * 100) : null,
+    tempoRatio: takeSpeech / referenceSpeech,
+    overlay: {
+      hopSeconds,
+      referencePitch: userPitch.map((_, j) => refPitch[refFrameForUser[j]]),
+      userPitch,
+      referenceEnergy: userEnergy.map((_, j) => refEnergy[refFrameForUser[j]]),
+      userEnergy,
+      referencePauses,
+      userPauses,
+    },
+  };
+};
+
+/**
+ * Compares a recorded take with [start, end) seconds of the original.
+ */
+export const compareTakeToReference = async (
+  reference: AudioBuffer,
+  start: number,
+  end: number,
+  take: Blob
+): Promise<ProsodyComparison | null> => {
+  const takeBuffer = await decodeAudioBlob(take);
+  const rate = reference.sampleRate;
+  const referenceSamples = reference.getChannelData(0).subarray(Math.floor(start * rate), Math.ceil(end * rate));
+  return compareProsody(
+    extractProsody(referenceSamples, rate),
+    extractProsody(takeBuffer.getChannelData(0), takeBuffer.sampleRate)
+  );
+};
@@ -0,0 +1,336 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { TranscriptionResponse, WordDefinition, PronunciationScore, LanguageSettings, SpeechOptions, VoiceOption, SentenceExplanation } from "../../types";
+import { AuthError, ParseFailureError } from "../errors";
+import { AiProvider, SegmentEnrichment } from "./types";
+import { fileToBase64 } from "./utils";
+import {
+  buildTranscriptionSystemPrompt,
+  buildTranscriptionUserPrompt,
+  buildEnrichSystemPrompt,
+  buildEnrichUserPrompt,
+  buildDefineSystemPrompt,
+  buildDefinePrompt,
+  buildExplainSystemPrompt,
+  buildExplainPrompt,
+  buildScorePrompt,
+  buildSpeechPrompt,
+} from "./prompts";
+
+const TRANSCRIPTION_MODEL = "gemini-2.5-flash"; 
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Prebuilt voices of the Gemini TTS models, default first
+export const GEMINI_VOICES: VoiceOption[] = [
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Zephyr', description: 'Bright' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Callirrhoe', description: 'Easy-going' },
+  { name: 'Autonoe', description: 'Bright' },
+  { name: 'Enceladus', description: 'Breathy' },
+  { name: 'Iapetus', description: 'Clear' },
+  { name: 'Umbriel', description: 'Easy-going' },
+  { name: 'Algieba', description: 'Smooth' },
+  { name: 'Despina', description: 'Smooth' },
+  { name: 'Erinome', description: 'Clear' },
+  { name: 'Algenib', description: 'Gravelly' },
+  { name: 'Rasalgethi', description: 'Informative' },
+  { name: 'Laomedeia', description: 'Upbeat' },
+  { name: 'Achernar', description: 'Soft' },
+  { name: 'Alnilam', description: 'Firm' },
+  { name: 'Schedar', description: 'Even' },
+  { name: 'Gacrux', description: 'Mature' },
+  { name: 'Pulcherrima', description: 'Forward' },
+  { name: 'Achird', description: 'Friendly' },
+  { name: 'Zubenelgenubi', description: 'Casual' },
+  { name: 'Vindemiatrix', description: 'Gentle' },
+  { name: 'Sadachbia', description: 'Lively' },
+  { name: 'Sadaltager', description: 'Knowledgeable' },
+  { name: 'Sulafat', description: 'Warm' },
+];
+
+// Free-tier quotas; every text and audio-understanding job shares the flash model's budget
+const TRANSCRIPTION_LIMIT = { model: TRANSCRIPTION_MODEL, maxConcurrent: 2, requestsPerMinute: 10 };
+const TTS_LIMIT = { model: TTS_MODEL, maxConcurrent: 1, requestsPerMinute: 3 };
+
+const transcriptionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    language: { type: Type.STRING },
+    meta: {
+      type: Type.OBJECT,
+      properties: {
+          wordCount: { type: Type.NUMBER },
+          estimatedLevel: { type: Type.STRING },
+          speed: { type: Type.STRING }
+      }
+    },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER },
+          end: { type: Type.NUMBER },
+          text: { type: Type.STRING },
+          translation: { type: Type.STRING },
+          idiomatic: { type: Type.STRING },
+          words: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                start: { type: Type.NUMBER },
+                end: { type: Type.NUMBER },
+              },
+              required: ["text", "start", "end"],
+            },
+          },
+        },
+        required: ["start", "end", "text", "translation", "idiomatic"],
+      },
+    },
+  },
+  required: ["language", "segments", "meta"],
+};
+
+const enrichSchema = {
+  type: Type.OBJECT,
+  properties: {
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.NUMBER },
+          translation: { type: Type.STRING },
+          idiomatic: { type: Type.STRING },
+        },
+        required: ["index", "translation", "idiomatic"],
+      },
+    },
+  },
+  required: ["items"],
+};
+
+const definitionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    word: { type: Type.STRING },
+    definition: { type: Type.STRING },
+    example: { type: Type.STRING },
+    phonetic: { type: Type.STRING },
+  },
+  required: ["word", "definition", "example"],
+};
+
+const explanationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    expressions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          phrase: { type: Type.STRING },
+          type: { type: Type.STRING, enum: ['phrasal-verb', 'collocation', 'idiom'] },
+          meaning: { type: Type.STRING },
+        },
+        required: ["phrase", "type", "meaning"],
+      },
+    },
+    grammar: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          structure: { type: Type.STRING },
+          excerpt: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+        },
+        required: ["structure", "excerpt", "explanation"],
+      },
+    },
+    connectedSpeech: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          excerpt: { type: Type.STRING },
+          heardAs: { type: Type.STRING },
+          phenomenon: { type: Type.STRING, enum: ['reduction', 'linking', 'elision', 'assimilation', 'weak-form'] },
+          explanation: { type: Type.STRING },
+        },
+        required: ["excerpt", "heardAs", "phenomenon", "explanation"],
+      },
+    },
+  },
+  required: ["expressions", "grammar", "connectedSpeech"],
+};
+
+const scoreSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    feedback: { type: Type.STRING },
+    accuracy: { type: Type.STRING, enum: ['good', 'average', 'poor'] },
+    words: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING },
+          status: { type: Type.STRING, enum: ['correct', 'mispronounced', 'omitted', 'inserted'] },
+          phonemeNote: { type: Type.STRING },
+          stressNote: { type: Type.STRING },
+        },
+        required: ["word", "status"],
+      },
+    },
+  },
+  required: ["score", "feedback", "accuracy"]
+};
+
+/**
+ * Transcription, TTS and scoring need Gemini's multimodal models; DeepSeek cannot handle audio.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): AiProvider => {
+  /**
+   * Lazy initialization of the AI client.
+   */
+  const getAi = () => {
+    if (!apiKey) {
+      throw new AuthError("API Key is missing. Please check your deployment environment variables.");
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: 'gemini',
+    isConfigured: () => !!apiKey,
+    rateLimits: {
+      transcribe: TRANSCRIPTION_LIMIT,
+      enrich: TRANSCRIPTION_LIMIT,
+      define: TRANSCRIPTION_LIMIT,
+      explain: TRANSCRIPTION_LIMIT,
+      score: TRANSCRIPTION_LIMIT,
+      tts: TTS_LIMIT,
+    },
+    ttsModel: TTS_MODEL,
+    voices: GEMINI_VOICES,
+
+    transcribe: async (audio: Blob, mimeType: string, settings: LanguageSettings): Promise<TranscriptionResponse> => {
+      const base64Audio = await fileToBase64(audio);
+
+      const response = await getAi().models.generateContent({
+        model: TRANSCRIPTION_MODEL,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType,
+                data: base64Audio
+              }
+            },
+            { text: buildTranscriptionUserPrompt(settings) }
+          ]
+        },
+        config: {
+          systemInstruction: buildTranscriptionSystemPrompt(settings),
+          responseMimeType: "application/json",
+          responseSchema: transcriptionSchema,
+        }
+      });
+
+      if (response.text) {
+        return JSON.parse(response.text) as TranscriptionResponse;
+      }
+      throw new ParseFailureError("Empty response from Gemini");
+    },
+
+    enrich: async (texts: string[], settings: LanguageSettings): Promise<SegmentEnrichment[]> => {
+      const response = await getAi().models.generateContent({
+        model: TRANSCRIPTION_MODEL,
+        contents: buildEnrichUserPrompt(texts),
+        config: {
+          systemInstruction: buildEnrichSystemPrompt(settings),
+          responseMimeType: "application/json",
+          responseSchema: enrichSchema,
+        }
+      });
+      if (!response.text) throw new ParseFailureError("Empty response from Gemini");
+      const { items } = JSON.parse(response.text) as { items: (SegmentEnrichment & { index: number })[] };
+      return texts.map((_, i) => {
+        const item = items.find(it => it.index === i);
+        return { translation: item?.translation || '', idiomatic: item?.idiomatic || '' };
+      });
+    },
+
+    define: async (word: string, contextSentence: string, settings: LanguageSettings): Promise<WordDefinition> => {
+      const response = await getAi().models.generateContent({
+        model: TRANSCRIPTION_MODEL,
+        contents: buildDefinePrompt(word, contextSentence, settings),
+        config: { systemInstruction: buildDefineSystemPrompt(settings), responseMimeType: "application/json", responseSchema: definitionSchema }
+      });
+      return JSON.parse(response.text!) as WordDefinition;
+    },
+
+    explain: async (sentence: string, settings: LanguageSettings): Promise<SentenceExplanation> => {
+      const response = await getAi().models.generateContent({
+        model: TRANSCRIPTION_MODEL,
+        contents: buildExplainPrompt(sentence),
+        config: { systemInstruction: buildExplainSystemPrompt(settings), responseMimeType: "application/json", responseSchema: explanationSchema }
+      });
+      if (!response.text) throw new ParseFailureError("Empty explanation response from Gemini");
+      return JSON.parse(response.text) as SentenceExplanation;
+    },
+
+    // Rate and accent are requested in the prompt; the model follows style instructions
+    tts: async (text: string, speech: SpeechOptions): Promise<string> => {
+      const response = await getAi().models.generateContent({
+        model: TTS_MODEL,
+        contents: { parts: [{ text: buildSpeechPrompt(text, speech) }] },
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: speech.voice },
+            },
+          },
+        },
+      });
+
+      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (audioData) return audioData;
+      throw new ParseFailureError("No audio data returned");
+    },
+
+    score: async (userAudio: Blob, referenceText: string, settings: LanguageSettings): Promise<PronunciationScore> => {
+      const base64Audio = await fileToBase64(userAudio);
+
+      const response = await getAi().models.generateContent({
+        model: TRANSCRIPTION_MODEL,
+        contents: {
+          parts: [
+            { inlineData: { mimeType: 'audio/webm', data: base64Audio } },
+            { text: buildScorePrompt(referenceText, settings) }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: scoreSchema,
+        }
+      });
+
+      if (response.text) {
+        return JSON.parse(response.text) as PronunciationScore;
+      }
+      throw new ParseFailureError("Empty scoring response from Gemini");
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { env } from "../env";
+import { AuthError } from "../errors";
+import { AiCapability, AiProvider } from "./types";
+import { createProviders, parseChains, selectProviders } from "./registry";
+import { createProxyProvider } from "./proxy";
+import { DEFAULT_RATE_LIMIT, RequestOptions, scheduleRequest } from "./scheduler";
+
+export type { AiCapability, AiProvider, SegmentEnrichment } from "./types";
+export type { RequestOptions, RequestPriority } from "./scheduler";
+export { resolveSpeech } from "./registry";
+
+const PROVIDERS: AiProvider[] = [...createProviders(env), createProxyProvider(env.API_PROXY_URL)];
+
+// With an API worker configured every job goes through it; AI_PROVIDERS can still route some elsewhere
+const PROXY_CHAINS: Record<AiCapability, string[]> = {
+  transcribe: ['proxy'],
+  enrich: ['proxy'],
+  define: ['proxy'],
+  explain: ['proxy'],
+  tts: ['proxy'],
+  score: ['proxy'],
+};
+
+let chains = parseChains(env.AI_PROVIDERS, env.API_PROXY_URL ? PROXY_CHAINS : undefined);
+
+export const getProviderChain = (capability: AiCapability) => chains[capability];
+
+export const setProviderChain = (capability: AiCapability, providerIds: string[]) => {
+  chains = { ...chains, [capability]: providerIds };
+};
+
+/**
+ * Configured providers that implement the capability, in chain order.
+ */
+export const getConfiguredProviders = (capability: AiCapability): AiProvider[] =>
+  selectProviders(PROVIDERS, chains[capability], capability);
+
+/**
+ * Runs a job against each configured provider in the capability's chain until one succeeds.
+ * Each attempt is queued on the provider model's lane, which handles rate limits and retries;
+ * failures surface as AiErrors.
+ */
+export const runWithFallback = async <T>(
+  capability: AiCapability,
+  call: (provider: AiProvider) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const candidates = getConfiguredProviders(capability);
+
+  if (candidates.length === 0) {
+    throw new AuthError("API Key is missing. Please check your deployment environment variables.");
+  }
+
+  let lastError: unknown;
+  for (const provider of candidates) {
+    try {
+      const limit = provider.rateLimits?.[capability] || DEFAULT_RATE_LIMIT;
+      return await scheduleRequest(`${provider.id}:${limit.model}`, limit, () => call(provider), options);
+    } catch (error) {
+      lastError = error;
+      if (provider !== candidates[candidates.length - 1]) {
+        console.warn(`[Fallback] ${provider.id} failed to ${capability}, trying next provider...`, error);
+      }
+    }
+  }
+  throw lastError;
+};
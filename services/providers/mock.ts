@@ -0,0 +1,170 @@
+import { TranscriptionResponse, TranscriptionSegment, WordDefinition, PronunciationScore, LanguageSettings, WordPronunciation, SentenceExplanation, SentenceExpression, ConnectedSpeechNote } from "../../types";
+import { getMediaDuration } from "../audioUtils";
+import { getSourceLocale } from "../languages";
+import { countWords, splitWords } from "../tokenizer";
+import { AiProvider, SegmentEnrichment } from "./types";
+import { bytesToBase64 } from "./utils";
+
+// Offline provider returning deterministic canned data, for development and demos without keys.
+
+const MOCK_LATENCY_MS = 400;
+const MOCK_SEGMENT_SECONDS = 4;
+const PCM_SAMPLE_RATE = 24000;
+
+const CANNED_SCRIPT: Omit<TranscriptionSegment, 'start' | 'end'>[] = [
+  { text: "Welcome back to the show, it's great to have you here again.", translation: "欢迎回到节目，很高兴你再次来到这里。", idiomatic: "Good to see you back in the saddle." },
+  { text: "Today we're going to talk about how to learn a language faster.", translation: "今天我们要谈谈如何更快地学习一门语言。", idiomatic: "Today we're diving into how to fast-track a new language." },
+  { text: "The secret is listening to real conversations every single day.", translation: "秘诀是每天都听真实的对话。", idiomatic: "The trick is to soak up real conversations day in and day out." },
+  { text: "Don't worry if you can't understand everything at first.", translation: "如果一开始不能全部听懂，别担心。", idiomatic: "Don't sweat it if it goes over your head at first." },
+  { text: "Repeat the sentences out loud and copy the speaker's rhythm.", translation: "大声重复这些句子，模仿说话者的节奏。", idiomatic: "Say it out loud and match the speaker beat for beat." },
+  { text: "Little by little, it will start to feel natural.", translation: "一点一点地，它会开始变得自然。", idiomatic: "Bit by bit, it'll become second nature." },
+];
+
+// The canned translations are Chinese; other target languages get a tagged copy of the text
+const mockTranslation = (text: string, settings: LanguageSettings) =>
+  settings.translationLanguage === 'zh-CN' ? `[译] ${text}` : `[${settings.translationLanguage}] ${text}`;
+
+const cannedLine = (index: number, settings: LanguageSettings) => {
+  const line = CANNED_SCRIPT[index % CANNED_SCRIPT.length];
+  return settings.translationLanguage === 'zh-CN' ? line : { ...line, translation: mockTranslation(line.text, settings) };
+};
+
+// Expressions and reductions the mock explainer recognizes, covering the canned script
+const MOCK_EXPRESSIONS: SentenceExpression[] = [
+  { phrase: 'talk about', type: 'phrasal-verb', meaning: 'to discuss a topic' },
+  { phrase: 'out loud', type: 'collocation', meaning: 'so that others can hear' },
+  { phrase: 'every single day', type: 'collocation', meaning: 'each day without exception' },
+  { phrase: 'at first', type: 'collocation', meaning: 'in the beginning' },
+  { phrase: 'little by little', type: 'idiom', meaning: 'gradually' },
+  { phrase: 'great to have you', type: 'idiom', meaning: 'a friendly way to welcome someone' },
+];
+
+const MOCK_REDUCTIONS: Omit<ConnectedSpeechNote, 'explanation'>[] = [
+  { excerpt: 'going to', heardAs: 'gonna', phenomenon: 'reduction' },
+  { excerpt: 'want to', heardAs: 'wanna', phenomenon: 'reduction' },
+  { excerpt: 'got to', heardAs: 'gotta', phenomenon: 'reduction' },
+  { excerpt: "don't know", heardAs: 'dunno', phenomenon: 'reduction' },
+];
+
+const mockExplanation = (sentence: string): SentenceExplanation => {
+  const lower = sentence.toLowerCase();
+  const words = splitWords(sentence).map(w => w.replace(/[^\w']/g, ''));
+  const linkIndex = words.findIndex((w, i) => /[bcdfgklmnprstvxz]$/i.test(w) && /^[aeiou]/i.test(words[i + 1] || ''));
+  const contraction = words.find(w => /'(re|s|ll|ve|d|t)$/i.test(w));
+
+  return {
+    expressions: MOCK_EXPRESSIONS.filter(e => lower.includes(e.phrase)),
+    grammar: [
+      ...(lower.includes('going to') ? [{ structure: 'future with "going to"', excerpt: 'going to', explanation: 'Mock note: a plan decided before speaking.' }] : []),
+      ...(contraction ? [{ structure: 'contraction', excerpt: contraction, explanation: 'Mock note: the short form is standard in speech.' }] : []),
+      { structure: 'main clause', excerpt: words.slice(0, 3).join(' '), explanation: 'Mock note: the subject and verb come first.' },
+    ],
+    connectedSpeech: [
+      ...MOCK_REDUCTIONS
+        .filter(r => lower.includes(r.excerpt))
+        .map(r => ({ ...r, explanation: `Mock note: "${r.excerpt}" is usually said as "${r.heardAs}" in fast speech.` })),
+      ...(linkIndex !== -1 ? [{
+        excerpt: `${words[linkIndex]} ${words[linkIndex + 1]}`,
+        heardAs: `${words[linkIndex]}‿${words[linkIndex + 1]}`,
+        phenomenon: 'linking' as const,
+        explanation: 'Mock note: the final consonant runs into the next vowel.',
+      }] : []),
+    ],
+  };
+};
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+// Small stable hash so the same input always yields the same mock output
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+/**
+ * A short beep per word, so playback is audible and roughly as long as real speech.
+ */
+const synthesizeBeeps = (text: string): Uint8Array => {
+  const words = Math.max(1, countWords(text));
+  const wordSamples = Math.round(PCM_SAMPLE_RATE * 0.25);
+  const gapSamples = Math.round(PCM_SAMPLE_RATE * 0.1);
+  const pcm = new Int16Array(words * (wordSamples + gapSamples));
+  for (let w = 0; w < words; w++) {
+    const frequency = 330 + (w % 4) * 55;
+    const offset = w * (wordSamples + gapSamples);
+    for (let i = 0; i < wordSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / wordSamples);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / PCM_SAMPLE_RATE) * envelope * 8000);
+    }
+  }
+  return new Uint8Array(pcm.buffer);
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  isConfigured: () => true,
+
+  transcribe: async (audio: Blob, _mimeType: string, settings: LanguageSettings): Promise<TranscriptionResponse> => {
+    // The API worker has no media elements, so there it falls back to the canned script's length
+    const duration = (typeof Audio !== 'undefined' && await getMediaDuration(audio)) || MOCK_SEGMENT_SECONDS * CANNED_SCRIPT.length;
+    await delay();
+    const count = Math.max(1, Math.floor(duration / MOCK_SEGMENT_SECONDS));
+    const segments: TranscriptionSegment[] = Array.from({ length: count }, (_, i) => ({
+      ...cannedLine(i, settings),
+      start: i * MOCK_SEGMENT_SECONDS,
+      end: Math.min(duration, (i + 1) * MOCK_SEGMENT_SECONDS),
+    }));
+    const wordCount = segments.reduce((sum, s) => sum + countWords(s.text), 0);
+    return {
+      language: getSourceLocale(settings),
+      segments,
+      meta: { wordCount, estimatedLevel: 'B1', speed: `${Math.round(wordCount / (duration / 60))} wpm` },
+    };
+  },
+
+  enrich: async (texts: string[], settings: LanguageSettings): Promise<SegmentEnrichment[]> => {
+    await delay();
+    return texts.map(text => ({ translation: mockTranslation(text, settings), idiomatic: text }));
+  },
+
+  define: async (word: string, contextSentence: string): Promise<WordDefinition> => {
+    await delay();
+    return {
+      word,
+      definition: `A mock definition of "${word}" for offline development.`,
+      example: contextSentence,
+      phonetic: `/${word.toLowerCase()}/`,
+    };
+  },
+
+  explain: async (sentence: string): Promise<SentenceExplanation> => {
+    await delay();
+    return mockExplanation(sentence);
+  },
+
+  tts: async (text: string): Promise<string> => {
+    await delay();
+    return bytesToBase64(synthesizeBeeps(text));
+  },
+
+  score: async (userAudio: Blob, referenceText: string): Promise<PronunciationScore> => {
+    await delay();
+    const score = 55 + (hashString(`${referenceText}:${userAudio.size}`) % 45);
+    // Lower scores flag more words
+    const words = splitWords(referenceText).map((word, i): WordPronunciation => {
+      const roll = hashString(`${word}:${i}:${userAudio.size}`) % 100;
+      if (roll < (100 - score) / 3) {
+        return { word, status: 'mispronounced', phonemeNote: `Mock note: the vowel in "${word}" was too short.`, stressNote: 'Stress the first syllable.' };
+      }
+      if (roll < (100 - score) / 2) return { word, status: 'omitted' };
+      return { word, status: 'correct' };
+    });
+    return {
+      score,
+      feedback: "Mock feedback: watch the linking between words and keep the stress on key syllables.",
+      accuracy: score >= 80 ? 'good' : score >= 65 ? 'average' : 'poor',
+      words,
+    };
+  },
+};
@@ -0,0 +1,184 @@
+import { LanguageSettings, SentenceExplanation, SpeechOptions, TranscriptionResponse, TranscriptionSegment, VoiceOption, WordDefinition } from "../../types";
+import { getSourceLocale } from "../languages";
+import { AuthError } from "../errors";
+import { AiProvider, SegmentEnrichment } from "./types";
+import { httpError, cleanAndParseJson, bytesToBase64 } from "./utils";
+import { countWords } from "../tokenizer";
+import { RateLimit, scheduleRequest } from "./scheduler";
+import { buildEnrichSystemPrompt, buildEnrichUserPrompt, buildDefineSystemPrompt, buildDefinePrompt, buildExplainSystemPrompt, buildExplainPrompt } from "./prompts";
+
+export interface OpenAiCompatibleConfig {
+  id: string;
+  label: string; // used in error messages
+  baseUrl: string;
+  apiKey?: string;
+  chatModel: string;
+  transcribeModel?: string; // omit when the endpoint has no /audio/transcriptions
+  ttsModel?: string; // omit when the endpoint has no /audio/speech
+  ttsVoice?: string; // default voice, listed first in `voices`
+  requestsPerMinute?: number; // per model, defaults to DEFAULT_REQUESTS_PER_MINUTE
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 60;
+const SLOW_SPEECH_SPEED = 0.8;
+
+const VOICES: VoiceOption[] = [
+  { name: 'alloy', description: 'Neutral' },
+  { name: 'ash', description: 'Clear' },
+  { name: 'coral', description: 'Warm' },
+  { name: 'echo', description: 'Resonant' },
+  { name: 'fable', description: 'Expressive' },
+  { name: 'onyx', description: 'Deep' },
+  { name: 'nova', description: 'Bright' },
+  { name: 'sage', description: 'Calm' },
+  { name: 'shimmer', description: 'Soft' },
+];
+
+/**
+ * Builds a provider for any endpoint that speaks the OpenAI REST API.
+ * Text jobs use chat completions in JSON mode; audio jobs are enabled per config.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): AiProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const authHeaders = (): Record<string, string> => {
+    if (!config.apiKey) {
+      throw new AuthError(`${config.label} API Key is missing`);
+    }
+    return { "Authorization": `Bearer ${config.apiKey}` };
+  };
+
+  const chatJson = async (systemPrompt: string, userPrompt: string): Promise<string> => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({
+        model: config.chatModel,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt }
+        ],
+        stream: false,
+        response_format: { type: 'json_object' }
+      })
+    });
+
+    if (!response.ok) {
+      throw httpError(config.label, response);
+    }
+
+    const data = await response.json();
+    return data.choices[0].message.content;
+  };
+
+  const enrich = async (texts: string[], settings: LanguageSettings): Promise<SegmentEnrichment[]> => {
+    const responseText = await chatJson(buildEnrichSystemPrompt(settings), buildEnrichUserPrompt(texts));
+    const { items = [] } = cleanAndParseJson<{ items?: (SegmentEnrichment & { index: number })[] }>(responseText);
+    return texts.map((_, i) => {
+      const item = items.find(it => it.index === i);
+      return { translation: item?.translation || '', idiomatic: item?.idiomatic || '' };
+    });
+  };
+
+  const limitFor = (model: string): RateLimit => ({
+    model,
+    maxConcurrent: 4,
+    requestsPerMinute: config.requestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE,
+  });
+  const chatLimit = limitFor(config.chatModel);
+
+  const provider: AiProvider = {
+    id: config.id,
+    isConfigured: () => !!config.apiKey,
+    rateLimits: {
+      enrich: chatLimit,
+      define: chatLimit,
+      explain: chatLimit,
+      ...(config.transcribeModel && { transcribe: limitFor(config.transcribeModel) }),
+      ...(config.ttsModel && { tts: limitFor(config.ttsModel) }),
+    },
+    enrich,
+
+    define: async (word: string, contextSentence: string, settings: LanguageSettings): Promise<WordDefinition> => {
+      const responseText = await chatJson(buildDefineSystemPrompt(settings), buildDefinePrompt(word, contextSentence, settings));
+      return cleanAndParseJson<WordDefinition>(responseText);
+    },
+
+    explain: async (sentence: string, settings: LanguageSettings): Promise<SentenceExplanation> => {
+      const responseText = await chatJson(buildExplainSystemPrompt(settings), buildExplainPrompt(sentence));
+      // JSON mode has no schema, so missing lists are normalized here
+      const { expressions = [], grammar = [], connectedSpeech = [] } = cleanAndParseJson<Partial<SentenceExplanation>>(responseText);
+      return { expressions, grammar, connectedSpeech };
+    },
+  };
+
+  if (config.transcribeModel) {
+    const transcribeModel = config.transcribeModel;
+    provider.transcribe = async (audio: Blob, mimeType: string, settings: LanguageSettings): Promise<TranscriptionResponse> => {
+      const form = new FormData();
+      const extension = mimeType.split('/')[1]?.split(';')[0] || 'mp3';
+      form.append('file', audio, `audio.${extension}`);
+      form.append('model', transcribeModel);
+      form.append('language', settings.sourceLanguage); // ISO-639-1, skips language detection
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'segment');
+
+      const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: authHeaders(),
+        body: form,
+      });
+      if (!response.ok) {
+        throw httpError(config.label, response);
+      }
+      const data = await response.json() as { duration?: number; segments?: { start: number; end: number; text: string }[] };
+
+      // Speech-to-text endpoints only return text, so translations come from a follow-up chat call
+      const rawSegments = (data.segments || []).map(s => ({ start: s.start, end: s.end, text: s.text.trim() }));
+      const enrichments = rawSegments.length > 0
+        ? await scheduleRequest(`${config.id}:${config.chatModel}`, chatLimit, () => enrich(rawSegments.map(s => s.text), settings))
+        : [];
+      const segments: TranscriptionSegment[] = rawSegments.map((s, i) => ({ ...s, ...enrichments[i] }));
+
+      const wordCount = segments.reduce((sum, s) => sum + countWords(s.text), 0);
+      const minutes = (data.duration || segments[segments.length - 1]?.end || 0) / 60;
+      return {
+        language: getSourceLocale(settings),
+        segments,
+        meta: {
+          wordCount,
+          estimatedLevel: '',
+          speed: minutes > 0 ? `${Math.round(wordCount / minutes)} wpm` : '',
+        },
+      };
+    };
+  }
+
+  if (config.ttsModel) {
+    const ttsModel = config.ttsModel;
+    const defaultVoice = config.ttsVoice || VOICES[0].name;
+    provider.ttsModel = ttsModel;
+    provider.voices = [...VOICES].sort((a, b) => Number(b.name === defaultVoice) - Number(a.name === defaultVoice));
+    // The speech endpoint has a speed parameter but no accent control
+    provider.tts = async (text: string, speech: SpeechOptions): Promise<string> => {
+      const response = await fetch(`${baseUrl}/audio/speech`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...authHeaders() },
+        // 'pcm' is 24kHz 16-bit mono, the same format Gemini TTS returns
+        body: JSON.stringify({
+          model: ttsModel,
+          input: text,
+          voice: speech.voice,
+          speed: speech.rate === 'slow' ? SLOW_SPEECH_SPEED : 1,
+          response_format: 'pcm',
+        }),
+      });
+      if (!response.ok) {
+        throw httpError(config.label, response);
+      }
+      return bytesToBase64(new Uint8Array(await response.arrayBuffer()));
+    };
+  }
+
+  return provider;
+};
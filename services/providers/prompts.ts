@@ -0,0 +1,86 @@
+import { LanguageSettings, SpeechOptions } from "../../types";
+import { getSourceLanguage, getSourceLocale, getIdiomVariety, getTranslationLanguageName } from "../languages";
+
+// Prompts shared by every provider, so switching backends doesn't change what we ask for.
+
+const describe = (settings: LanguageSettings) => ({
+  source: getSourceLanguage(settings.sourceLanguage).name,
+  locale: getSourceLocale(settings),
+  translation: getTranslationLanguageName(settings.translationLanguage),
+  variety: getIdiomVariety(settings).name,
+});
+
+export const buildTranscriptionSystemPrompt = (settings: LanguageSettings) => {
+  const { source, locale, translation, variety } = describe(settings);
+  return `
+    You are an expert ${source} learning assistant.
+    1. Transcribe the audio accurately (${locale}).
+       IMPORTANT: Combine short filler phrases (e.g., "Okay now", "So then") with the following sentence. Avoid creating segments with fewer than 4 words unless it is a complete, standalone sentence.
+    2. For EACH segment, provide:
+       - 'text': The original ${source} text.
+       - 'translation': A natural ${translation} translation.
+       - 'idiomatic': An alternative ${variety} ${source} idiomatic expression conveying the same meaning (e.g., "I'm very hungry" -> "I could eat a horse").
+       - 'words': Every space-separated word of 'text' in order, each with its own start and end time in seconds.
+    3. Analyze the overall audio to estimate word count, CEFR level (A1-C2), and speed.
+  `;
+};
+
+export const buildTranscriptionUserPrompt = (settings: LanguageSettings) =>
+  `Transcribe and analyze this audio for a learner of ${describe(settings).source}.`;
+
+export const buildEnrichSystemPrompt = (settings: LanguageSettings) => {
+  const { source, translation, variety } = describe(settings);
+  return `
+    You are an expert ${source} learning assistant. You receive numbered ${source} sentences.
+    For EACH sentence, provide:
+      - 'translation': A natural ${translation} translation.
+      - 'idiomatic': An alternative ${variety} ${source} idiomatic expression conveying the same meaning.
+    Return JSON: { items: [{ index: number, translation: string, idiomatic: string }] } with one item per sentence.
+  `;
+};
+
+export const buildEnrichUserPrompt = (texts: string[]) =>
+  texts.map((text, i) => `${i}. ${text}`).join('\n');
+
+export const buildDefineSystemPrompt = (settings: LanguageSettings) =>
+  `You are a dictionary API for ${describe(settings).source}. Output purely JSON.`;
+
+export const buildDefinePrompt = (word: string, contextSentence: string, settings: LanguageSettings) =>
+  `Define "${word}" in context: "${contextSentence}". Return JSON with: word, definition (${describe(settings).source}), example, phonetic.`;
+
+export const buildExplainSystemPrompt = (settings: LanguageSettings) => {
+  const { source, locale, translation } = describe(settings);
+  return `
+    You are an expert ${source} teacher explaining a sentence from real speech (${locale}) to a learner whose native language is ${translation}.
+    Write every 'meaning' and 'explanation' in ${translation}; quote ${source} words as they appear in the sentence.
+    Return JSON with:
+      - 'expressions': phrasal verbs, collocations and idioms in the sentence: [{ phrase, type: 'phrasal-verb'|'collocation'|'idiom', meaning }].
+      - 'grammar': the structures worth noticing (tense and aspect, clauses, conditionals, informal reductions like "gonna" or "wanna"): [{ structure, excerpt, explanation }].
+      - 'connectedSpeech': how the sentence changes when spoken naturally: [{ excerpt, heardAs, phenomenon: 'reduction'|'linking'|'elision'|'assimilation'|'weak-form', explanation }].
+    Use empty arrays when there is nothing to point out. Keep each explanation to one or two sentences.
+  `;
+};
+
+export const buildExplainPrompt = (sentence: string) => `Explain this sentence: "${sentence}"`;
+
+export const buildScorePrompt = (referenceText: string, settings: LanguageSettings) => `
+    Listen to this user recording and compare it to the ${describe(settings).locale} text: "${referenceText}".
+    Grade the pronunciation accuracy from 0 to 100.
+    Provide brief feedback.
+    Then judge every space-separated word of the text in order, with status:
+      'correct', 'mispronounced', or 'omitted' (not spoken). Add an 'inserted' entry where the speaker said a word that is not in the text.
+      For words that were not correct, add a short 'phonemeNote' (which sound was off) and, if relevant, a 'stressNote' (stress or intonation).
+    Return JSON: { score: number, feedback: string, accuracy: 'good'|'average'|'poor', words: [{ word: string, status: string, phonemeNote?: string, stressNote?: string }] }
+  `;
+
+/**
+ * TTS input with a natural-language style prefix for rate and accent, e.g. "Say slowly and clearly: ...".
+ * Plain text when neither is set, so default requests read exactly the sentence.
+ */
+export const buildSpeechPrompt = (text: string, speech: SpeechOptions) => {
+  const style = [
+    speech.rate === 'slow' ? 'slowly and clearly' : '',
+    speech.accent ? `in a ${speech.accent} accent` : '',
+  ].filter(Boolean);
+  return style.length > 0 ? `Say ${style.join(' ')}: ${text}` : text;
+};
@@ -0,0 +1,99 @@
+import { LanguageSettings, PronunciationScore, SentenceExplanation, SpeechOptions, TranscriptionResponse, WordDefinition } from "../../types";
+import { PayloadTooLargeError, createAiError } from "../errors";
+import { AiCapability, AiProvider, SegmentEnrichment } from "./types";
+import { RateLimit } from "./scheduler";
+import { GEMINI_VOICES } from "./gemini";
+import { httpError } from "./utils";
+import { ApiErrorBody, DefineRequest, EnrichRequest, ExplainRequest, PROXY_LIMITS, PROXY_REQUESTS_PER_MINUTE, TtsRequest, TtsResponse } from "./proxyProtocol";
+
+/**
+ * Rebuilds the worker's typed error, keeping the status and Retry-After hint for the scheduler.
+ * Responses that aren't from the worker (e.g. a 404 page) fall back to the plain HTTP error.
+ */
+const proxyError = async (response: Response) => {
+  const fallback = httpError('API proxy', response);
+  try {
+    const { error } = await response.json() as ApiErrorBody;
+    return createAiError(error.kind, error.message, { status: response.status, retryAfterMs: fallback.retryAfterMs });
+  } catch {
+    return fallback;
+  }
+};
+
+const limitFor = (capability: AiCapability): RateLimit => ({
+  model: capability, // the worker limits each capability separately
+  maxConcurrent: 2,
+  requestsPerMinute: PROXY_REQUESTS_PER_MINUTE[capability],
+});
+
+/**
+ * Thin client for the API worker in functions/, which holds the provider keys and runs
+ * its own fallback chain. `baseUrl` is usually "/api" on the same origin.
+ */
+export const createProxyProvider = (baseUrl: string | undefined): AiProvider => {
+  const post = async <T>(capability: AiCapability, body: FormData | object): Promise<T> => {
+    const isForm = body instanceof FormData;
+    const response = await fetch(`${baseUrl!.replace(/\/+$/, '')}/${capability}`, {
+      method: "POST",
+      headers: isForm ? undefined : { "Content-Type": "application/json" },
+      body: isForm ? body : JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw await proxyError(response);
+    }
+    return await response.json() as T;
+  };
+
+  // Fail before uploading what the worker would reject anyway
+  const audioForm = (audio: Blob, fields: Record<string, string>) => {
+    if (audio.size > PROXY_LIMITS.maxAudioBytes) {
+      throw new PayloadTooLargeError(`Audio is ${audio.size} bytes; the API accepts up to ${PROXY_LIMITS.maxAudioBytes}`, { status: 413 });
+    }
+    const form = new FormData();
+    form.append('audio', audio);
+    Object.entries(fields).forEach(([name, value]) => form.append(name, value));
+    return form;
+  };
+
+  return {
+    id: 'proxy',
+    isConfigured: () => !!baseUrl,
+    rateLimits: {
+      transcribe: limitFor('transcribe'),
+      enrich: limitFor('enrich'),
+      define: limitFor('define'),
+      explain: limitFor('explain'),
+      tts: limitFor('tts'),
+      score: limitFor('score'),
+    },
+    // The worker resolves unknown voices to its provider's default, like the browser does
+    ttsModel: 'default',
+    voices: GEMINI_VOICES,
+
+    transcribe: (audio: Blob, mimeType: string, settings: LanguageSettings) =>
+      post<TranscriptionResponse>('transcribe', audioForm(audio, { mimeType, settings: JSON.stringify(settings) })),
+
+    enrich: async (texts: string[], settings: LanguageSettings) => {
+      const request: EnrichRequest = { texts, settings };
+      return (await post<{ items: SegmentEnrichment[] }>('enrich', request)).items;
+    },
+
+    define: (word: string, contextSentence: string, settings: LanguageSettings) => {
+      const request: DefineRequest = { word, contextSentence, settings };
+      return post<WordDefinition>('define', request);
+    },
+
+    explain: (sentence: string, settings: LanguageSettings) => {
+      const request: ExplainRequest = { sentence, settings };
+      return post<SentenceExplanation>('explain', request);
+    },
+
+    tts: async (text: string, speech: SpeechOptions) => {
+      const request: TtsRequest = { text, speech };
+      return (await post<TtsResponse>('tts', request)).audio;
+    },
+
+    score: (userAudio: Blob, referenceText: string, settings: LanguageSettings) =>
+      post<PronunciationScore>('score', audioForm(userAudio, { referenceText, settings: JSON.stringify(settings) })),
+  };
+};
@@ -0,0 +1,61 @@
+import { LanguageSettings, SpeechOptions } from "../../types";
+import { AiErrorKind } from "../errors";
+import { AiCapability } from "./types";
+
+// Wire format between the proxy provider (browser) and the API worker (functions/api).
+// Each capability is a POST to `${API_PROXY_URL}/${capability}`. Audio jobs send multipart
+// form data; text jobs send JSON. Failures answer with an ApiErrorBody.
+
+export const PROXY_LIMITS = {
+  maxAudioBytes: 20 * 1024 * 1024, // Gemini's inline request limit
+  maxJsonBytes: 256 * 1024,
+  maxTtsChars: 5000,
+  maxEnrichTexts: 200,
+  maxFetchBytes: 300 * 1024 * 1024, // feeds and episodes via GET /fetch; the upload screen's limit
+};
+
+// Per client and capability. The worker enforces them; the proxy provider's lanes stay under them
+export const PROXY_REQUESTS_PER_MINUTE: Record<AiCapability, number> = {
+  transcribe: 10,
+  enrich: 20,
+  define: 30,
+  explain: 20,
+  tts: 20,
+  score: 20,
+};
+
+// GET `${API_PROXY_URL}/fetch?url=...` relays feeds, chapters and episode audio that lack CORS headers
+export const FETCH_REQUESTS_PER_MINUTE = 30;
+
+// Multipart bodies:
+//   transcribe: audio (file), mimeType, settings (JSON)
+//   score:      audio (file), referenceText, settings (JSON)
+
+export interface EnrichRequest {
+  texts: string[];
+  settings: LanguageSettings;
+}
+
+export interface DefineRequest {
+  word: string;
+  contextSentence: string;
+  settings: LanguageSettings;
+}
+
+export interface ExplainRequest {
+  sentence: string;
+  settings: LanguageSettings;
+}
+
+export interface TtsRequest {
+  text: string;
+  speech: SpeechOptions;
+}
+
+export interface TtsResponse {
+  audio: string; // base64 PCM, as AiProvider.tts returns
+}
+
+export interface ApiErrorBody {
+  error: { kind: AiErrorKind; message: string };
+}
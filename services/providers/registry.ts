@@ -0,0 +1,96 @@
+import { SpeechOptions } from "../../types";
+import { AiCapability, AiProvider } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible";
+import { mockProvider } from "./mock";
+
+// Provider setup shared by the browser (keys inlined in local development) and the
+// API worker in functions/ (keys held as secrets).
+
+export interface ProviderConfig {
+  API_KEY?: string;
+  DEEPSEEK_API_KEY?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_CHAT_MODEL?: string;
+  OPENAI_TRANSCRIBE_MODEL?: string;
+  OPENAI_TTS_MODEL?: string;
+  AI_PROVIDERS?: string;
+}
+
+export const DEFAULT_CHAINS: Record<AiCapability, string[]> = {
+  transcribe: ['gemini', 'openai'],
+  enrich: ['gemini', 'deepseek', 'openai'],
+  define: ['gemini', 'deepseek', 'openai'],
+  explain: ['gemini', 'deepseek', 'openai'],
+  tts: ['gemini', 'openai'],
+  score: ['gemini'],
+};
+
+export const createProviders = (config: ProviderConfig): AiProvider[] => [
+  createGeminiProvider(config.API_KEY),
+  createOpenAiCompatibleProvider({
+    id: 'deepseek',
+    label: 'DeepSeek',
+    baseUrl: 'https://api.deepseek.com',
+    apiKey: config.DEEPSEEK_API_KEY,
+    chatModel: 'deepseek-chat',
+  }),
+  createOpenAiCompatibleProvider({
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    baseUrl: config.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: config.OPENAI_API_KEY,
+    chatModel: config.OPENAI_CHAT_MODEL || 'gpt-4o-mini',
+    transcribeModel: config.OPENAI_TRANSCRIBE_MODEL || 'whisper-1',
+    ttsModel: config.OPENAI_TTS_MODEL || 'tts-1',
+  }),
+  mockProvider,
+];
+
+/**
+ * Reads AI_PROVIDERS: either a comma list applied to every capability
+ * (e.g. "mock" or "openai,mock"), or a JSON object of per-capability chains
+ * (e.g. {"define":["deepseek","gemini"]}). Unlisted capabilities keep `defaults`.
+ */
+export const parseChains = (
+  raw: string | undefined,
+  defaults: Record<AiCapability, string[]> = DEFAULT_CHAINS
+): Record<AiCapability, string[]> => {
+  const value = raw?.trim();
+  if (!value) return { ...defaults };
+
+  if (value.startsWith('{')) {
+    try {
+      return { ...defaults, ...(JSON.parse(value) as Partial<Record<AiCapability, string[]>>) };
+    } catch (e) {
+      console.error("Invalid AI_PROVIDERS JSON, using defaults", e);
+      return { ...defaults };
+    }
+  }
+
+  const ids = value.split(',').map(id => id.trim()).filter(Boolean);
+  return {
+    transcribe: ids,
+    enrich: ids,
+    define: ids,
+    explain: ids,
+    tts: ids,
+    score: ids,
+  };
+};
+
+/**
+ * Configured providers that implement the capability, in chain order.
+ */
+export const selectProviders = (providers: AiProvider[], chain: string[], capability: AiCapability): AiProvider[] =>
+  chain
+    .map(id => providers.find(p => p.id === id))
+    .filter((p): p is AiProvider => !!p && !!p[capability] && p.isConfigured());
+
+// Providers fall back to their default voice when they don't offer the requested one
+export const resolveSpeech = (provider: AiProvider, speech: SpeechOptions): SpeechOptions => {
+  const voices = provider.voices;
+  if (!voices?.length || voices.some(v => v.name === speech.voice)) return speech;
+  return { ...speech, voice: voices[0].name };
+};
@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { scheduleRequest } from './scheduler';
+
+const TTS_LIMIT = { model: 'tts', maxConcurrent: 1, requestsPerMinute: 3 };
+
+describe('scheduleRequest', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('keeps the last request of a minute for interactive work', async () => {
+    const started: string[] = [];
+    const job = (name: string) => async () => { started.push(name); return name; };
+
+    const prefetches = [1, 2, 3].map(i => scheduleRequest('reserve', TTS_LIMIT, job(`prefetch ${i}`), { priority: 'background' }));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['prefetch 1', 'prefetch 2']);
+
+    await expect(scheduleRequest('reserve', TTS_LIMIT, job('click'), { priority: 'interactive' })).resolves.toBe('click');
+    expect(started).toEqual(['prefetch 1', 'prefetch 2', 'click']);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await Promise.all(prefetches);
+    expect(started).toEqual(['prefetch 1', 'prefetch 2', 'click', 'prefetch 3']);
+  });
+
+  it('starts a queued prefetch once an interactive caller joins it', async () => {
+    const started: string[] = [];
+    const job = (name: string) => async () => { started.push(name); return name; };
+
+    [1, 2].forEach(i => scheduleRequest('join', TTS_LIMIT, job(`prefetch ${i}`), { priority: 'background' }));
+    scheduleRequest('join', TTS_LIMIT, job('prefetch 3'), { priority: 'background', dedupeKey: 'idiom' });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started).toEqual(['prefetch 1', 'prefetch 2']);
+
+    await expect(scheduleRequest('join', TTS_LIMIT, job('click'), { priority: 'interactive', dedupeKey: 'idiom' })).resolves.toBe('prefetch 3');
+  });
+});
@@ -0,0 +1,191 @@
+// Shared queue for every AI request. Requests are grouped into lanes (one per
+// provider model) that enforce concurrency and requests-per-minute limits,
+// retry transient failures with jittered backoff and pause on 429s. Priority orders
+// the queue, and the last request of each minute is kept for interactive work so a
+// click never waits out a window that prefetching used up.
+// Failures are rejected as typed AiErrors (see services/errors).
+
+import { RateLimitError, toAiError } from "../errors";
+
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+export interface RateLimit {
+  model: string; // capabilities that share a model share its lane
+  maxConcurrent: number;
+  requestsPerMinute: number;
+}
+
+export interface RequestOptions {
+  priority?: RequestPriority;
+  // Identical requests with the same key share one in-flight call
+  dedupeKey?: string;
+}
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = { interactive: 0, normal: 1, background: 2 };
+
+const WINDOW_MS = 60_000;
+const INTERACTIVE_RESERVED_SLOTS = 1;
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+
+export const DEFAULT_RATE_LIMIT: RateLimit = { model: 'default', maxConcurrent: 2, requestsPerMinute: 30 };
+
+interface Job {
+  run: () => Promise<unknown>;
+  priority: RequestPriority;
+  order: number; // FIFO within a priority, kept across retries
+  attempt: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Lane {
+  limit: RateLimit;
+  queue: Job[];
+  active: number;
+  startedAt: number[]; // request start times inside the last minute
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const lanes = new Map<string, Lane>();
+const inFlight = new Map<string, { promise: Promise<unknown>; job: Job }>();
+let nextOrder = 0;
+
+const getLane = (key: string, limit: RateLimit): Lane => {
+  let lane = lanes.get(key);
+  if (!lane) {
+    lane = { limit, queue: [], active: 0, startedAt: [], pausedUntil: 0, timer: null };
+    lanes.set(key, lane);
+  }
+  return lane;
+};
+
+// "Equal jitter": half the backoff is fixed, half random, so retries from parallel callers spread out
+const backoffMs = (attempt: number) => {
+  const base = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return base / 2 + Math.random() * base / 2;
+};
+
+const nextJobIndex = (lane: Lane): number => {
+  let best = 0;
+  lane.queue.forEach((job, i) => {
+    const current = lane.queue[best];
+    if (PRIORITY_ORDER[job.priority] < PRIORITY_ORDER[current.priority] ||
+        (job.priority === current.priority && job.order < current.order)) {
+      best = i;
+    }
+  });
+  return best;
+};
+
+// Requests per minute `job` may start into; lanes allowing a single request keep no reserve
+const requestsAllowed = (limit: RateLimit, job: Job) =>
+  job.priority === 'interactive' || limit.requestsPerMinute <= INTERACTIVE_RESERVED_SLOTS
+    ? limit.requestsPerMinute
+    : limit.requestsPerMinute - INTERACTIVE_RESERVED_SLOTS;
+
+const wakeLaterAt = (lane: Lane, at: number) => {
+  if (lane.timer) return;
+  lane.timer = setTimeout(() => {
+    lane.timer = null;
+    pump(lane);
+  }, Math.max(0, at - Date.now()));
+};
+
+const pump = (lane: Lane) => {
+  while (lane.queue.length > 0 && lane.active < lane.limit.maxConcurrent) {
+    const now = Date.now();
+    if (now < lane.pausedUntil) {
+      wakeLaterAt(lane, lane.pausedUntil);
+      return;
+    }
+    lane.startedAt = lane.startedAt.filter(t => now - t < WINDOW_MS);
+    const index = nextJobIndex(lane);
+    const allowed = requestsAllowed(lane.limit, lane.queue[index]);
+    if (lane.startedAt.length >= allowed) {
+      // An interactive job queued meanwhile pumps the lane itself
+      wakeLaterAt(lane, lane.startedAt[lane.startedAt.length - allowed] + WINDOW_MS);
+      return;
+    }
+    start(lane, lane.queue.splice(index, 1)[0]);
+  }
+};
+
+const start = (lane: Lane, job: Job) => {
+  lane.active++;
+  lane.startedAt.push(Date.now());
+
+  job.run()
+    .then(job.resolve, (rawError) => {
+      const error = toAiError(rawError);
+      if (!error.retryable || job.attempt >= MAX_ATTEMPTS - 1) {
+        job.reject(error);
+        return;
+      }
+      const delay = error.retryAfterMs !== undefined ? error.retryAfterMs + Math.random() * BASE_BACKOFF_MS : backoffMs(job.attempt);
+      job.attempt++;
+      console.warn(`API call failed (attempt ${job.attempt}/${MAX_ATTEMPTS}, ${error.kind}). Retrying in ${Math.round(delay)}ms...`, rawError);
+
+      if (error instanceof RateLimitError) {
+        // The quota is per model, so everything queued on this lane waits too
+        lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + delay);
+        lane.queue.push(job);
+      } else {
+        // Other failures are specific to this call, so only it backs off and its slot is freed meanwhile
+        setTimeout(() => {
+          lane.queue.push(job);
+          pump(lane);
+        }, delay);
+      }
+    })
+    .finally(() => {
+      lane.active--;
+      pump(lane);
+    });
+};
+
+/**
+ * Queues `fn` on the lane `laneKey`. Resolves with its result, or rejects with an AiError once
+ * retries are exhausted or the failure is not retryable.
+ */
+export const scheduleRequest = <T>(
+  laneKey: string,
+  limit: RateLimit,
+  fn: () => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const { priority = 'normal', dedupeKey } = options;
+  const flightKey = dedupeKey ? `${laneKey}|${dedupeKey}` : null;
+
+  if (flightKey) {
+    const existing = inFlight.get(flightKey);
+    if (existing) {
+      // A user waiting on a background prefetch should not wait behind other background work
+      if (PRIORITY_ORDER[priority] < PRIORITY_ORDER[existing.job.priority]) {
+        existing.job.priority = priority;
+        // Interactive jobs may use the reserved slot, so a still-queued one may start now
+        const lane = lanes.get(laneKey);
+        if (lane) pump(lane);
+      }
+      return existing.promise as Promise<T>;
+    }
+  }
+
+  const lane = getLane(laneKey, limit);
+  let job!: Job;
+  const promise = new Promise<T>((resolve, reject) => {
+    job = { run: fn, priority, order: nextOrder++, attempt: 0, resolve: resolve as (value: unknown) => void, reject };
+  });
+
+  if (flightKey) {
+    inFlight.set(flightKey, { promise, job });
+    const clear = () => inFlight.delete(flightKey);
+    promise.then(clear, clear);
+  }
+
+  lane.queue.push(job);
+  pump(lane);
+  return promise;
+};
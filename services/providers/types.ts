@@ -0,0 +1,33 @@
+import { LanguageSettings, PronunciationScore, SentenceExplanation, SpeechOptions, TranscriptionResponse, VoiceOption, WordDefinition } from "../../types";
+import { RateLimit } from "./scheduler";
+
+export type AiCapability = 'transcribe' | 'enrich' | 'define' | 'explain' | 'tts' | 'score';
+
+export interface SegmentEnrichment {
+  translation: string;
+  idiomatic: string;
+}
+
+/**
+ * An AI backend. Each capability is optional; the registry only routes a job
+ * to providers that implement it and are configured.
+ */
+export interface AiProvider {
+  id: string;
+  isConfigured: () => boolean;
+  // Per-capability quotas; capabilities without one use DEFAULT_RATE_LIMIT
+  rateLimits?: Partial<Record<AiCapability, RateLimit>>;
+  // Segments are returned unmerged and relative to the start of `audio`
+  transcribe?: (audio: Blob, mimeType: string, settings: LanguageSettings) => Promise<TranscriptionResponse>;
+  // One result per input text, in order
+  enrich?: (texts: string[], settings: LanguageSettings) => Promise<SegmentEnrichment[]>;
+  define?: (word: string, contextSentence: string, settings: LanguageSettings) => Promise<WordDefinition>;
+  explain?: (sentence: string, settings: LanguageSettings) => Promise<SentenceExplanation>;
+  // Base64 24kHz 16-bit mono PCM, as played by playPcmData
+  tts?: (text: string, speech: SpeechOptions) => Promise<string>;
+  // Model used by `tts`; part of the speech cache key
+  ttsModel?: string;
+  // Prebuilt voices `tts` accepts; the first is used when a requested voice is unknown
+  voices?: VoiceOption[];
+  score?: (userAudio: Blob, referenceText: string, settings: LanguageSettings) => Promise<PronunciationScore>;
+}
@@ -0,0 +1,48 @@
+// Helpers shared by the provider implementations.
+
+import { ParseFailureError } from "../errors";
+
+/**
+ * Error for a failed HTTP response, carrying the status and any Retry-After hint for the scheduler.
+ */
+export const httpError = (label: string, response: Response): Error & { status: number; retryAfterMs?: number } => {
+  const retryAfter = response.headers.get('retry-after');
+  const seconds = retryAfter ? Number(retryAfter) : NaN;
+  const retryAfterMs = Number.isFinite(seconds)
+    ? seconds * 1000
+    : retryAfter ? Math.max(0, Date.parse(retryAfter) - Date.now()) || undefined : undefined;
+  return Object.assign(new Error(`${label} API Error: ${response.status} ${response.statusText}`), { status: response.status, retryAfterMs });
+};
+
+/**
+ * Converts a File/Blob to Base64 string (without Data URI prefix).
+ * Reads raw bytes rather than a data URL so it also runs in the API worker, which has no FileReader.
+ */
+export const fileToBase64 = async (file: File | Blob): Promise<string> =>
+  bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+
+/**
+ * Helper to parse JSON that might be wrapped in Markdown code blocks
+ */
+export const cleanAndParseJson = <T>(text: string): T => {
+    try {
+        // Remove ```json and ``` wrap if present
+        const cleanText = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+        return JSON.parse(cleanText) as T;
+    } catch (e) {
+        console.error("JSON Parse Error on text:", text);
+        throw new ParseFailureError("Failed to parse AI response", { cause: e });
+    }
+};
+
+/**
+ * Encodes raw bytes as Base64.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,132 @@
+import { ReviewCard, ReviewGrade, TranscriptionSegment, WordDefinition } from "../types";
+import { STORE_REVIEW_CARDS, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+import { INITIAL_EASE, scheduleReview } from "./srs";
+import { SegmentStartMapping } from "./transcriptEdits";
+
+// Review cards are shared by every transcript in the library.
+
+const segmentCardId = (libraryItemId: string, segment: TranscriptionSegment) =>
+  `segment:${libraryItemId}:${segment.start}`;
+
+// Repeat lookups of the same word reuse one card; "die" in English and German are two
+const wordCardId = (word: string, sourceLanguage: string) => `word:${sourceLanguage}:${word.toLowerCase()}`;
+
+const newCard = (
+  fields: Pick<ReviewCard, 'id' | 'kind' | 'libraryItemId' | 'segmentStart' | 'segmentEnd' | 'text'> & Partial<ReviewCard>
+): ReviewCard => {
+  const now = Date.now();
+  return {
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: now,
+    createdAt: now,
+    history: [],
+    ...fields,
+  };
+};
+
+export const addSegmentCard = async (libraryItemId: string, segment: TranscriptionSegment): Promise<void> => {
+  const id = segmentCardId(libraryItemId, segment);
+  if (await dbGet<ReviewCard>(STORE_REVIEW_CARDS, id)) return;
+  await dbPut(STORE_REVIEW_CARDS, newCard({
+    id,
+    kind: 'segment',
+    libraryItemId,
+    segmentStart: segment.start,
+    segmentEnd: segment.end,
+    text: segment.text,
+    translation: segment.translation,
+    idiomatic: segment.idiomatic,
+  }));
+};
+
+export const removeSegmentCard = (libraryItemId: string, segment: TranscriptionSegment) =>
+  dbDelete(STORE_REVIEW_CARDS, segmentCardId(libraryItemId, segment));
+
+export const addWordCard = async (
+  libraryItemId: string,
+  definition: WordDefinition,
+  segment: TranscriptionSegment,
+  sourceLanguage: string
+): Promise<void> => {
+  const id = wordCardId(definition.word, sourceLanguage);
+  if (await dbGet<ReviewCard>(STORE_REVIEW_CARDS, id)) return;
+  await dbPut(STORE_REVIEW_CARDS, newCard({
+    id,
+    kind: 'word',
+    libraryItemId,
+    segmentStart: segment.start,
+    segmentEnd: segment.end,
+    text: segment.text,
+    definition,
+  }));
+};
+
+/**
+ * Cards due now, oldest due date first.
+ */
+export const listDueCards = async (now = Date.now()): Promise<ReviewCard[]> => {
+  const cards = await dbGetAll<ReviewCard>(STORE_REVIEW_CARDS);
+  return cards.filter(c => c.due <= now).sort((a, b) => a.due - b.due);
+};
+
+export const gradeCard = async (card: ReviewCard, grade: ReviewGrade): Promise<ReviewCard> => {
+  const updated = scheduleReview(card, grade);
+  await dbPut(STORE_REVIEW_CARDS, updated);
+  return updated;
+};
+
+/**
+ * Follows transcript edits: cards move to the segment that now holds their content (a segment
+ * card that lands on one already carded is dropped), and every favorite gets its card, e.g.
+ * the second half of a split favorite.
+ */
+export const syncCardsWithSegments = async (
+  libraryItemId: string,
+  segments: TranscriptionSegment[],
+  segmentFor: SegmentStartMapping
+): Promise<void> => {
+  const cards = (await dbGetAll<ReviewCard>(STORE_REVIEW_CARDS)).filter(c => c.libraryItemId === libraryItemId);
+  const segmentCardIds = new Set(cards.filter(c => c.kind === 'segment').map(c => c.id));
+
+  for (const card of cards) {
+    const segment = segmentFor(card.segmentStart);
+    if (!segment) continue;
+    if (card.kind === 'word') {
+      if (segment.start !== card.segmentStart || segment.end !== card.segmentEnd) {
+        await dbPut(STORE_REVIEW_CARDS, { ...card, segmentStart: segment.start, segmentEnd: segment.end, text: segment.text });
+      }
+      continue;
+    }
+    const id = segmentCardId(libraryItemId, segment);
+    if (id !== card.id) {
+      segmentCardIds.delete(card.id);
+      await dbDelete(STORE_REVIEW_CARDS, card.id);
+      if (segmentCardIds.has(id)) continue;
+      segmentCardIds.add(id);
+    } else if (segment.end === card.segmentEnd && segment.text === card.text && segment.translation === card.translation) {
+      continue;
+    }
+    await dbPut(STORE_REVIEW_CARDS, {
+      ...card,
+      id,
+      segmentStart: segment.start,
+      segmentEnd: segment.end,
+      text: segment.text,
+      translation: segment.translation,
+      idiomatic: segment.idiomatic,
+    });
+  }
+
+  for (const segment of segments) {
+    if (segment.isFavorite && !segmentCardIds.has(segmentCardId(libraryItemId, segment))) {
+      await addSegmentCard(libraryItemId, segment);
+    }
+  }
+};
+
+export const deleteCardsForItem = async (libraryItemId: string): Promise<void> => {
+  const cards = await dbGetAll<ReviewCard>(STORE_REVIEW_CARDS);
+  await Promise.all(cards.filter(c => c.libraryItemId === libraryItemId).map(c => dbDelete(STORE_REVIEW_CARDS, c.id)));
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SequenceSettings, TranscriptionSegment } from '../types';
+import { DEFAULT_SEQUENCE_SETTINGS, clampLoopRange, getNextSequencePosition, getSequenceGapMs, getSequenceStartIndex } from './sequencePlayback';
+
+const segment = (start: number, end: number): TranscriptionSegment => ({ start, end, text: '', translation: '', idiomatic: '' });
+const segments = [segment(0, 2), segment(2, 4), segment(5, 7), segment(7, 9)];
+
+const settings = (overrides: Partial<SequenceSettings>): SequenceSettings => ({ ...DEFAULT_SEQUENCE_SETTINGS, ...overrides });
+
+describe('getNextSequencePosition', () => {
+  it('repeats each segment before moving on and stops after the last one', () => {
+    const twice = settings({ repeatCount: 2 });
+    expect(getNextSequencePosition({ index: 1, repeat: 0 }, twice, 4)).toEqual({ index: 1, repeat: 1 });
+    expect(getNextSequencePosition({ index: 1, repeat: 1 }, twice, 4)).toEqual({ index: 2, repeat: 0 });
+    expect(getNextSequencePosition({ index: 3, repeat: 1 }, twice, 4)).toBeNull();
+  });
+
+  it('wraps around to the start of a loop range', () => {
+    const looping = settings({ loopRange: { from: 1, to: 2 } });
+    expect(getNextSequencePosition({ index: 1, repeat: 0 }, looping, 4)).toEqual({ index: 2, repeat: 0 });
+    expect(getNextSequencePosition({ index: 2, repeat: 0 }, looping, 4)).toEqual({ index: 1, repeat: 0 });
+  });
+
+  it('wraps within a range that outlived segments removed by an edit', () => {
+    const stale = settings({ loopRange: { from: 1, to: 6 } });
+    expect(getNextSequencePosition({ index: 2, repeat: 0 }, stale, 3)).toEqual({ index: 1, repeat: 0 });
+  });
+});
+
+describe('clampLoopRange', () => {
+  it('keeps both ends on existing segments', () => {
+    expect(clampLoopRange({ from: 5, to: 9 }, 4)).toEqual({ from: 3, to: 3 });
+    expect(clampLoopRange({ from: 1, to: 2 }, 0)).toBeNull();
+    expect(clampLoopRange(null, 4)).toBeNull();
+  });
+});
+
+describe('getSequenceStartIndex', () => {
+  it('starts at the loop range, the segment under the playhead, or the next one', () => {
+    expect(getSequenceStartIndex(segments, 6, settings({ loopRange: { from: 1, to: 2 } }))).toBe(1);
+    expect(getSequenceStartIndex(segments, 6, DEFAULT_SEQUENCE_SETTINGS)).toBe(2);
+    expect(getSequenceStartIndex(segments, 4.5, DEFAULT_SEQUENCE_SETTINGS)).toBe(2);
+    expect(getSequenceStartIndex(segments, 20, DEFAULT_SEQUENCE_SETTINGS)).toBe(0);
+  });
+});
+
+describe('getSequenceGapMs', () => {
+  it('stretches proportional gaps with slower playback', () => {
+    expect(getSequenceGapMs(segments[0], settings({ gapMode: 'fixed', gapSeconds: 1.5 }), 0.5)).toBe(1500);
+    expect(getSequenceGapMs(segments[0], settings({ gapMode: 'proportional', gapFactor: 1 }), 0.5)).toBe(4000);
+  });
+});
@@ -0,0 +1,84 @@
+import { SequenceSettings, TranscriptionSegment } from "../types";
+
+// Pure helpers for the segment-by-segment ("Seq Play") study mode.
+
+export const DEFAULT_SEQUENCE_SETTINGS: SequenceSettings = {
+  gapMode: 'fixed',
+  gapSeconds: 2,
+  gapFactor: 1,
+  repeatCount: 1,
+  loopRange: null,
+};
+
+export interface SequencePosition {
+  index: number; // segment index
+  repeat: number; // 0-based play count of the current segment
+}
+
+/**
+ * Keeps an A-B range inside the transcript, e.g. after segments were merged away.
+ */
+export const clampLoopRange = (
+  loopRange: SequenceSettings['loopRange'],
+  segmentCount: number
+): SequenceSettings['loopRange'] => {
+  if (!loopRange || segmentCount === 0) return null;
+  const clamp = (index: number) => Math.min(Math.max(0, index), segmentCount - 1);
+  return { from: clamp(loopRange.from), to: clamp(loopRange.to) };
+};
+
+/**
+ * Picks the segment the sequence starts from: the A-B start if looping,
+ * otherwise the segment under the playhead (or the next one after it).
+ */
+export const getSequenceStartIndex = (
+  segments: TranscriptionSegment[],
+  currentTime: number,
+  settings: SequenceSettings
+): number => {
+  const loopRange = clampLoopRange(settings.loopRange, segments.length);
+  if (loopRange) return loopRange.from;
+  const containing = segments.findIndex(s => currentTime >= s.start && currentTime < s.end);
+  if (containing !== -1) return containing;
+  const upcoming = segments.findIndex(s => s.start >= currentTime);
+  return upcoming !== -1 ? upcoming : 0;
+};
+
+/**
+ * Returns where to go after the current play finishes, or null when the sequence is done.
+ */
+export const getNextSequencePosition = (
+  position: SequencePosition,
+  settings: SequenceSettings,
+  segmentCount: number
+): SequencePosition | null => {
+  if (position.repeat + 1 < settings.repeatCount) {
+    return { index: position.index, repeat: position.repeat + 1 };
+  }
+
+  const loopRange = clampLoopRange(settings.loopRange, segmentCount);
+  const lastIndex = loopRange ? loopRange.to : segmentCount - 1;
+  if (position.index < lastIndex) {
+    return { index: position.index + 1, repeat: 0 };
+  }
+  if (loopRange) {
+    return { index: loopRange.from, repeat: 0 };
+  }
+  return null;
+};
+
+/**
+ * Pause after a segment in milliseconds. Proportional gaps follow the time the
+ * segment actually took to play, so they stretch at slower playback rates.
+ */
+export const getSequenceGapMs = (
+  segment: TranscriptionSegment,
+  settings: SequenceSettings,
+  playbackRate: number
+): number => {
+  if (settings.gapMode === 'fixed') {
+    return settings.gapSeconds * 1000;
+  }
+  const playedSeconds = (segment.end - segment.start) / playbackRate;
+  return Math.max(0, playedSeconds * settings.gapFactor * 1000);
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewCard, ReviewGrade } from '../types';
+import { INITIAL_EASE, previewInterval, scheduleReview } from './srs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const newCard = (): ReviewCard => ({
+  id: 'segment:item:0', kind: 'segment', libraryItemId: 'item', segmentStart: 0, segmentEnd: 2, text: 'one two',
+  ease: INITIAL_EASE, interval: 0, repetitions: 0, due: 0, createdAt: 0, history: [],
+});
+
+const answer = (card: ReviewCard, grades: ReviewGrade[]) => grades.reduce((c, grade) => scheduleReview(c, grade, 0), card);
+
+describe('scheduleReview', () => {
+  it('steps good answers through 1, 6 and then ease-multiplied days', () => {
+    expect(answer(newCard(), ['good']).interval).toBe(1);
+    expect(answer(newCard(), ['good', 'good']).interval).toBe(6);
+    const third = answer(newCard(), ['good', 'good', 'good']);
+    expect(third).toMatchObject({ interval: 15, repetitions: 3, ease: 2.5, due: 15 * DAY_MS });
+    expect(third.history.map(h => h.interval)).toEqual([1, 6, 15]);
+  });
+
+  it('starts easy cards further out and lowers the ease on hard ones', () => {
+    const easy = answer(newCard(), ['easy']);
+    expect(easy.interval).toBe(4);
+    expect(easy.ease).toBeCloseTo(2.6);
+    const hard = answer(newCard(), ['good', 'hard']);
+    expect(hard.interval).toBe(3);
+    expect(hard.ease).toBeCloseTo(2.36);
+  });
+
+  it('sends a lapsed card back to the start within minutes', () => {
+    const lapsed = scheduleReview(answer(newCard(), ['good', 'good', 'good']), 'again', 1000);
+    expect(lapsed).toMatchObject({ interval: 0, repetitions: 0, due: 1000 + 10 * 60 * 1000 });
+    expect(lapsed.ease).toBeCloseTo(1.96);
+    expect(answer(lapsed, ['good']).interval).toBe(1);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    expect(answer(newCard(), ['again', 'again', 'again', 'again']).ease).toBe(1.3);
+  });
+
+  it('leaves the answered card unchanged', () => {
+    const card = newCard();
+    scheduleReview(card, 'good', 0);
+    expect(card).toEqual(newCard());
+  });
+});
+
+describe('previewInterval', () => {
+  it('labels relearning in minutes and reviews in days', () => {
+    expect(previewInterval(newCard(), 'again')).toBe('10m');
+    expect(previewInterval(answer(newCard(), ['good']), 'good')).toBe('6d');
+  });
+});
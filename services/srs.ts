@@ -0,0 +1,63 @@
+import { ReviewCard, ReviewGrade } from "../types";
+
+// SM-2 style spaced-repetition scheduling.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+export const INITIAL_EASE = 2.5;
+
+// SM-2 response quality (0-5) for each grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Computes the scheduling state after answering a card. Does not mutate the input.
+ */
+export const scheduleReview = (card: ReviewCard, grade: ReviewGrade, now = Date.now()): ReviewCard => {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let repetitions: number;
+  let interval: number;
+  let due: number;
+
+  if (quality < 3) {
+    // Lapse: start over and show the card again later in this session
+    repetitions = 0;
+    interval = 0;
+    due = now + RELEARN_DELAY_MS;
+  } else {
+    repetitions = card.repetitions + 1;
+    if (repetitions === 1) {
+      interval = grade === 'easy' ? 4 : 1;
+    } else if (repetitions === 2) {
+      interval = grade === 'hard' ? 3 : 6;
+    } else {
+      const factor = grade === 'hard' ? 1.2 : grade === 'easy' ? ease * 1.3 : ease;
+      interval = Math.max(card.interval + 1, Math.round(card.interval * factor));
+    }
+    due = now + interval * DAY_MS;
+  }
+
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    due,
+    history: [...card.history, { reviewedAt: now, grade, interval, ease }],
+  };
+};
+
+/**
+ * Short label for the interval a grade would schedule, e.g. "10m" or "6d".
+ */
+export const previewInterval = (card: ReviewCard, grade: ReviewGrade): string => {
+  const next = scheduleReview(card, grade, 0);
+  return next.interval === 0 ? `${RELEARN_DELAY_MS / 60000}m` : `${next.interval}d`;
+};
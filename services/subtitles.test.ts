@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionSegment } from '../types';
+import { exportSubtitles, parseSrt, parseVtt } from './subtitles';
+import greetingsSrt from './__fixtures__/subtitles/greetings.srt?raw';
+import greetingsVtt from './__fixtures__/subtitles/greetings.vtt?raw';
+
+const cues = (segments: TranscriptionSegment[]) => segments.map(({ start, end, text }) => ({ start, end, text }));
+
+const greetings = [
+  { start: 1, end: 3.5, text: 'Guten Morgen!' },
+  { start: 4.25, end: 62, text: 'Wie geht es dir heute?' },
+];
+
+describe('parseSrt', () => {
+  it('reads CRLF cues, strips markup and joins wrapped lines', () => {
+    // The third cue is only empty tags, so it is dropped
+    expect(cues(parseSrt(greetingsSrt))).toEqual(greetings);
+  });
+});
+
+describe('parseVtt', () => {
+  it('skips headers, NOTE and STYLE blocks, cue ids and cue settings', () => {
+    expect(cues(parseVtt(greetingsVtt))).toEqual(greetings);
+  });
+
+  it('refuses files without the WEBVTT header', () => {
+    expect(() => parseVtt(greetingsSrt)).toThrow(/WEBVTT/);
+  });
+});
+
+describe('exportSubtitles', () => {
+  const segments: TranscriptionSegment[] = [
+    { start: 0.5, end: 2, text: 'Guten Morgen!', translation: 'Good morning!', idiomatic: 'Morning!' },
+    { start: 3661.007, end: 3663, text: 'Bis {bald}', translation: 'See you soon', idiomatic: '' },
+  ];
+  const textOnly = { includeTranslation: false, includeIdiomatic: false };
+
+  it('round-trips SRT and WebVTT through the parsers', () => {
+    expect(cues(parseSrt(exportSubtitles(segments, 'srt', textOnly)))).toEqual(cues(segments));
+    expect(cues(parseVtt(exportSubtitles(segments, 'vtt', textOnly)))).toEqual(cues(segments));
+  });
+
+  it('writes SRT timestamps with comma milliseconds and extra lines under the text', () => {
+    const srt = exportSubtitles(segments, 'srt', { includeTranslation: true, includeIdiomatic: true });
+    expect(srt).toContain('1\n00:00:00,500 --> 00:00:02,000\nGuten Morgen!\nGood morning!\nMorning!\n\n2\n01:01:01,007 --> 01:01:03,000\nBis {bald}\nSee you soon\n');
+  });
+
+  it('puts ASS extras in their own styles and drops override braces from the text', () => {
+    const ass = exportSubtitles(segments, 'ass', { includeTranslation: true, includeIdiomatic: false });
+    expect(ass).toContain('Dialogue: 0,0:00:00.50,0:00:02.00,Default,,0,0,0,,Guten Morgen!\\N{\\rTranslation}Good morning!\n');
+    expect(ass).toContain(',Bis bald\\N{\\rTranslation}See you soon\n');
+  });
+});
@@ -0,0 +1,186 @@
+import { LanguageSettings, TranscriptionResponse, TranscriptionSegment } from "../types";
+import { getSourceLocale } from "./languages";
+import { countWords } from "./tokenizer";
+
+// SRT / WebVTT import and SRT / WebVTT / ASS export.
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface SubtitleExportOptions {
+  includeTranslation: boolean;
+  includeIdiomatic: boolean;
+}
+
+export const SUBTITLE_FILE_PATTERN = /\.(srt|vtt)$/i;
+
+/**
+ * Parses "01:02:03,456", "01:02:03.456" or "02:03.456" into seconds.
+ */
+const parseTimestamp = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  if (parts.some(isNaN)) throw new Error(`Invalid subtitle timestamp: ${value}`);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+// Drops formatting such as <i>, <c.yellow>, <00:01.000> and {\an8}
+const stripMarkup = (text: string) => text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+
+/**
+ * Shared cue parser: SRT and WebVTT only differ in headers and timestamp separators.
+ */
+const parseCues = (content: string): TranscriptionSegment[] => {
+  const blocks = content.replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const segments: TranscriptionSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue; // header, NOTE, STYLE or stray cue number
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->');
+    const text = lines.slice(timingIndex + 1).map(stripMarkup).filter(Boolean).join(' ');
+    if (!text) continue;
+
+    segments.push({
+      start: parseTimestamp(startRaw),
+      // VTT cue settings ("line:0 align:start") follow the end time
+      end: parseTimestamp(endRaw.trim().split(/\s+/)[0]),
+      text,
+      translation: '',
+      idiomatic: '',
+    });
+  }
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+export const parseSrt = (content: string) => parseCues(content);
+
+export const parseVtt = (content: string) => {
+  if (!content.trimStart().startsWith('WEBVTT')) {
+    throw new Error("Not a WebVTT file (missing WEBVTT header).");
+  }
+  return parseCues(content);
+};
+
+/**
+ * Parses a subtitle file, picking the format from its extension.
+ */
+export const parseSubtitleFile = async (file: File): Promise<TranscriptionSegment[]> => {
+  const content = await file.text();
+  const segments = /\.vtt$/i.test(file.name) ? parseVtt(content) : parseSrt(content);
+  if (segments.length === 0) {
+    throw new Error(`No subtitles found in ${file.name}.`);
+  }
+  return segments;
+};
+
+/**
+ * Wraps imported segments in a transcript. The level is left blank since no model has heard the audio.
+ */
+export const buildSubtitleTranscript = (segments: TranscriptionSegment[], settings: LanguageSettings): TranscriptionResponse => {
+  const wordCount = segments.reduce((sum, s) => sum + countWords(s.text), 0);
+  const minutes = (segments[segments.length - 1]?.end || 0) / 60;
+  return {
+    language: getSourceLocale(settings),
+    segments,
+    languageSettings: settings,
+    meta: {
+      wordCount,
+      estimatedLevel: '',
+      speed: minutes > 0 ? `${Math.round(wordCount / minutes)} wpm` : '',
+    },
+  };
+};
+
+// --- Export ---
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const splitTime = (seconds: number) => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  return {
+    h: Math.floor(totalMs / 3600000),
+    m: Math.floor(totalMs / 60000) % 60,
+    s: Math.floor(totalMs / 1000) % 60,
+    ms: totalMs % 1000,
+  };
+};
+
+const formatSrtTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${pad(h)}:${pad(m)}:${pad(s)},${pad(ms, 3)}`;
+};
+
+const formatVttTime = (seconds: number) => formatSrtTime(seconds).replace(',', '.');
+
+const formatAssTime = (seconds: number) => {
+  const { h, m, s, ms } = splitTime(seconds);
+  return `${h}:${pad(m)}:${pad(s)}.${pad(Math.floor(ms / 10))}`;
+};
+
+const cueLines = (segment: TranscriptionSegment, options: SubtitleExportOptions) => {
+  const lines = [segment.text];
+  if (options.includeTranslation && segment.translation) lines.push(segment.translation);
+  if (options.includeIdiomatic && segment.idiomatic) lines.push(segment.idiomatic);
+  return lines;
+};
+
+export const toSrt = (segments: TranscriptionSegment[], options: SubtitleExportOptions): string =>
+  segments
+    .map((segment, i) => [
+      String(i + 1),
+      `${formatSrtTime(segment.start)} --> ${formatSrtTime(segment.end)}`,
+      ...cueLines(segment, options),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+export const toVtt = (segments: TranscriptionSegment[], options: SubtitleExportOptions): string =>
+  'WEBVTT\n\n' + segments
+    .map(segment => [
+      `${formatVttTime(segment.start)} --> ${formatVttTime(segment.end)}`,
+      ...cueLines(segment, options),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+
+/**
+ * ASS keeps each extra line in its own style so players can size and colour them separately.
+ */
+export const toAss = (segments: TranscriptionSegment[], options: SubtitleExportOptions): string => {
+  const escape = (text: string) => text.replace(/\r?\n/g, ' ').replace(/[{}]/g, '');
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    'PlayResX: 1280',
+    'PlayResY: 720',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    'Style: Default,Arial,44,&H00FFFFFF,&H000000FF,&H00000000,&H64000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,40,1',
+    'Style: Translation,Arial,36,&H00E0E0E0,&H000000FF,&H00000000,&H64000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,40,1',
+    'Style: Idiomatic,Arial,36,&H00FFD27F,&H000000FF,&H00000000,&H64000000,0,1,0,0,100,100,0,0,1,2,1,2,40,40,40,1',
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = segments.map(segment => {
+    let text = escape(segment.text);
+    if (options.includeTranslation && segment.translation) text += `\\N{\\rTranslation}${escape(segment.translation)}`;
+    if (options.includeIdiomatic && segment.idiomatic) text += `\\N{\\rIdiomatic}${escape(segment.idiomatic)}`;
+    return `Dialogue: 0,${formatAssTime(segment.start)},${formatAssTime(segment.end)},Default,,0,0,0,,${text}`;
+  });
+
+  return [...header, ...events].join('\n') + '\n';
+};
+
+export const exportSubtitles = (
+  segments: TranscriptionSegment[],
+  format: SubtitleFormat,
+  options: SubtitleExportOptions
+): string => {
+  switch (format) {
+    case 'srt': return toSrt(segments, options);
+    case 'vtt': return toVtt(segments, options);
+    case 'ass': return toAss(segments, options);
+  }
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { compareDictation } from './textDiff';
+
+describe('compareDictation', () => {
+  it('marks a different word as one wrong entry', () => {
+    const result = compareDictation('the cat sat down', 'the dog sat down');
+    expect(result.entries.map(e => e.kind)).toEqual(['correct', 'wrong', 'correct', 'correct']);
+    expect(result.entries[1]).toMatchObject({ expected: 'cat', actual: 'dog' });
+    expect(result.accuracy).toBe(75);
+  });
+
+  it('scores a wrong word like a missed one', () => {
+    expect(compareDictation('the cat sat down', 'the sat down').accuracy).toBe(75);
+  });
+
+  it('gives misspellings half credit and charges extra words half a word', () => {
+    expect(compareDictation('the cat sat down', 'the catt sat down').accuracy).toBe(88);
+    expect(compareDictation('the cat sat down', 'the cat sat right down').accuracy).toBe(88);
+  });
+});
+
+describe('compareDictation in Japanese', () => {
+  it('compares word by word rather than the whole line', () => {
+    expect(compareDictation('今日はいい天気です。', '今日はいい天気です').accuracy).toBe(100);
+    const result = compareDictation('今日はいい天気です。', '今日はわるい天気です');
+    expect(result.entries.filter(e => e.kind === 'correct').length).toBeGreaterThan(2);
+    expect(result.accuracy).toBeGreaterThan(50);
+  });
+});
@@ -0,0 +1,131 @@
+import { CharDiff, DictationResult, WordDiffEntry } from "../types";
+import { splitWords } from "./tokenizer";
+
+// Word- and character-level comparison of typed dictation against the reference text.
+
+// Typed words at least this similar to the reference count as misspellings rather than wrong words
+const MISSPELLING_SIMILARITY = 0.5;
+
+/**
+ * Lowercases and strips punctuation, so "Don't," matches "dont".
+ */
+export const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const tokenize = (text: string) => splitWords(text).filter(word => normalizeWord(word) !== '');
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+/**
+ * Character diff of a typed word against the expected one (LCS based).
+ */
+export const diffChars = (expected: string, actual: string): CharDiff[] => {
+  const lcs: number[][] = Array.from({ length: expected.length + 1 }, () => new Array(actual.length + 1).fill(0));
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i].toLowerCase() === actual[j].toLowerCase()
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: CharDiff[] = [];
+  const push = (type: CharDiff['type'], char: string) => {
+    const last = result[result.length - 1];
+    if (last && last.type === type) last.text += char;
+    else result.push({ type, text: char });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i].toLowerCase() === actual[j].toLowerCase()) {
+      push('same', expected[i]);
+      i++;
+      j++;
+    } else if (j < actual.length && (i >= expected.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      push('added', actual[j++]);
+    } else {
+      push('removed', expected[i++]);
+    }
+  }
+  return result;
+};
+
+/**
+ * Aligns typed words with the reference (edit distance over words, where near-matches
+ * are cheap substitutions) and scores the result.
+ */
+export const compareDictation = (reference: string, typed: string): DictationResult => {
+  const expected = tokenize(reference);
+  const actual = tokenize(typed);
+  const expectedNorm = expected.map(normalizeWord);
+  const actualNorm = actual.map(normalizeWord);
+
+  const substitutionCost = (i: number, j: number) => {
+    if (expectedNorm[i] === actualNorm[j]) return 0;
+    return similarity(expectedNorm[i], actualNorm[j]) >= MISSPELLING_SIMILARITY ? 1 : 2;
+  };
+
+  // cost[i][j]: cheapest alignment of expected[i..] with actual[j..]
+  const cost: number[][] = Array.from({ length: expected.length + 1 }, () => new Array(actual.length + 1).fill(0));
+  for (let i = expected.length; i >= 0; i--) {
+    for (let j = actual.length; j >= 0; j--) {
+      if (i === expected.length) cost[i][j] = actual.length - j;
+      else if (j === actual.length) cost[i][j] = expected.length - i;
+      else cost[i][j] = Math.min(
+        cost[i + 1][j + 1] + substitutionCost(i, j),
+        cost[i + 1][j] + 1,
+        cost[i][j + 1] + 1
+      );
+    }
+  }
+
+  const entries: WordDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && cost[i][j] === cost[i + 1][j + 1] + substitutionCost(i, j)) {
+      const sub = substitutionCost(i, j);
+      if (sub === 0) {
+        entries.push({ kind: 'correct', expected: expected[i], actual: actual[j] });
+      } else if (sub === 1) {
+        entries.push({ kind: 'misspelled', expected: expected[i], actual: actual[j], chars: diffChars(expectedNorm[i], actualNorm[j]) });
+      } else {
+        entries.push({ kind: 'wrong', expected: expected[i], actual: actual[j] });
+      }
+      i++;
+      j++;
+    } else if (i < expected.length && (j >= actual.length || cost[i][j] === cost[i + 1][j] + 1)) {
+      entries.push({ kind: 'missed', expected: expected[i++] });
+    } else {
+      entries.push({ kind: 'extra', actual: actual[j++] });
+    }
+  }
+
+  // Per reference word: correct earns 1, misspelled 0.5, wrong or missed 0; each extra word costs 0.5
+  const correct = entries.filter(e => e.kind === 'correct').length;
+  const misspelled = entries.filter(e => e.kind === 'misspelled').length;
+  const extra = entries.filter(e => e.kind === 'extra').length;
+  const accuracy = expected.length === 0
+    ? 100
+    : Math.max(0, Math.round(((correct + misspelled * 0.5 - extra * 0.5) / expected.length) * 100));
+
+  return { entries, accuracy };
+};
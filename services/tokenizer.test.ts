@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { countWords, joinText, splitWords, wordSpans } from './tokenizer';
+
+describe('splitWords', () => {
+  it('splits spaced scripts on whitespace, keeping punctuation and hyphens', () => {
+    expect(splitWords("Don't  forget the e-mail, please.")).toEqual(["Don't", 'forget', 'the', 'e-mail,', 'please.']);
+  });
+
+  it('splits Japanese into words without spaces', () => {
+    const words = splitWords('今日はいい天気ですね。');
+    expect(words.length).toBeGreaterThan(3);
+    expect(words.join('')).toBe('今日はいい天気ですね。');
+    expect(words[words.length - 1].endsWith('。')).toBe(true);
+  });
+
+  it('splits mixed runs and keeps offsets into the text', () => {
+    const text = '私は Apple が好き';
+    const spans = wordSpans(text);
+    expect(spans.map(s => s.text)).toContain('Apple');
+    spans.forEach(span => expect(text.slice(span.start, span.end)).toBe(span.text));
+  });
+
+  it('counts words', () => {
+    expect(countWords('  ')).toBe(0);
+    expect(countWords('one two three')).toBe(3);
+  });
+});
+
+describe('joinText', () => {
+  it('adds a space only between spaced scripts', () => {
+    expect(joinText('Hello', 'world')).toBe('Hello world');
+    expect(joinText('今日は。', '晴れです')).toBe('今日は。晴れです');
+    expect(joinText('', 'x')).toBe('x');
+  });
+});
@@ -0,0 +1,70 @@
+// Word splitting for every language the app handles. Spaces separate words in most scripts;
+// Japanese, Chinese, Thai and similar scripts don't use them, so runs of those are split with
+// Intl.Segmenter, whose dictionary-based word rules pick the language from the script.
+
+export interface WordSpan {
+  text: string;
+  start: number; // offsets into the source text
+  end: number;
+}
+
+const UNSPACED_SCRIPT = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}\\u3000-\\u303f\\uff00-\\uffef';
+const HAS_UNSPACED = new RegExp(`[${UNSPACED_SCRIPT}]`, 'u');
+const ENDS_UNSPACED = new RegExp(`[${UNSPACED_SCRIPT}]$`, 'u');
+const STARTS_UNSPACED = new RegExp(`^[${UNSPACED_SCRIPT}]`, 'u');
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'word' })
+  : null;
+
+// Segments a whitespace-free run. Punctuation joins the word before it (or the first word).
+const segmentRun = (run: string, offset: number): WordSpan[] => {
+  if (!segmenter) return [{ text: run, start: offset, end: offset + run.length }];
+  const spans: WordSpan[] = [];
+  let leading = -1;
+  for (const { segment, index, isWordLike } of segmenter.segment(run)) {
+    const start = offset + index;
+    const end = start + segment.length;
+    const last = spans[spans.length - 1];
+    if (isWordLike) {
+      spans.push({ text: '', start: leading >= 0 ? leading : start, end });
+      leading = -1;
+    } else if (last) {
+      last.end = end;
+    } else if (leading < 0) {
+      leading = start;
+    }
+  }
+  if (spans.length === 0) return [{ text: run, start: offset, end: offset + run.length }];
+  spans[spans.length - 1].end = offset + run.length;
+  return spans;
+};
+
+/**
+ * Words of `text` with their offsets, punctuation attached.
+ */
+export const wordSpans = (text: string): WordSpan[] => {
+  const spans: WordSpan[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const run = match[0];
+    const offset = match.index!;
+    const runSpans = HAS_UNSPACED.test(run) ? segmentRun(run, offset) : [{ text: run, start: offset, end: offset + run.length }];
+    runSpans.forEach(span => spans.push({ ...span, text: text.slice(span.start, span.end) }));
+  }
+  return spans;
+};
+
+/**
+ * Splits text into display words. Word indices elsewhere (notes, timings, dictation) refer to this split.
+ */
+export const splitWords = (text: string) => wordSpans(text).map(span => span.text);
+
+export const countWords = (text: string) => wordSpans(text).length;
+
+/**
+ * Joins two pieces of text, with a space unless both sides are in a script written without spaces.
+ */
+export const joinText = (a: string, b: string) => {
+  if (!a || !b) return a + b;
+  return ENDS_UNSPACED.test(a) && STARTS_UNSPACED.test(b) ? a + b : `${a} ${b}`;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SegmentNote, TranscriptionSegment } from '../types';
+import { mapSegmentStarts, mergeWithNext, nudgeSegmentEdge, reanchorNotes, splitSegment } from './transcriptEdits';
+
+const segment = (start: number, end: number, text: string): TranscriptionSegment =>
+  ({ start, end, text, translation: '', idiomatic: '' });
+
+const segments = [segment(0, 2, 'one two'), segment(2, 4, 'three four'), segment(4, 6, 'five six')];
+
+describe('mapSegmentStarts', () => {
+  it('keeps the first half of a split at the old start', () => {
+    const after = splitSegment(segments, 1, 1, 3);
+    const segmentFor = mapSegmentStarts(segments, after);
+    expect(segmentFor(2)?.start).toBe(2);
+    expect(segmentFor(4)?.start).toBe(4);
+  });
+
+  it('sends the second segment of a merge to the merged one', () => {
+    const after = mergeWithNext(segments, 0);
+    expect(mapSegmentStarts(segments, after)(2)?.start).toBe(0);
+  });
+
+  it('follows a start nudged past the midpoint of a gap', () => {
+    const before = [segment(1.5, 2, 'one'), segment(2, 4, 'two')];
+    const after = nudgeSegmentEdge(before, 1, 'start', 0.6);
+    expect(mapSegmentStarts(before, after)(2)?.start).toBe(2.6);
+  });
+
+  it('places starts of no old segment by time', () => {
+    const segmentFor = mapSegmentStarts(segments, segments);
+    expect(segmentFor(3.5)?.start).toBe(2);
+    expect(segmentFor(9)?.start).toBe(4);
+    expect(mapSegmentStarts(segments, [])(2)).toBeUndefined();
+  });
+});
+
+describe('reanchorNotes', () => {
+  const note: SegmentNote = { id: 'n', segmentStart: 2, quote: 'four', text: 'note', wordRange: { start: 1, end: 1 }, createdAt: 0, updatedAt: 0 };
+
+  it('keeps the word range when a nudge leaves the text alone', () => {
+    const after = nudgeSegmentEdge(segments, 1, 'start', 0.1);
+    const [moved] = reanchorNotes([note], segments, mapSegmentStarts(segments, after));
+    expect(moved).toMatchObject({ segmentStart: 2.1, wordRange: { start: 1, end: 1 } });
+  });
+
+  it('drops the word range when the note lands in a merged segment', () => {
+    const after = mergeWithNext(segments, 0);
+    const [moved] = reanchorNotes([note], segments, mapSegmentStarts(segments, after));
+    expect(moved.segmentStart).toBe(0);
+    expect(moved.wordRange).toBeUndefined();
+  });
+});
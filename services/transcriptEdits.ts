@@ -0,0 +1,146 @@
+import { SegmentNote, TranscriptionSegment } from "../types";
+import { getWordTimings } from "./wordAlignment";
+import { joinText, splitWords, wordSpans } from "./tokenizer";
+
+// Pure edit operations for the transcript editor. Each returns a new segment array;
+// segments whose text changes are flagged `isEdited` until their translation is regenerated,
+// and lose their cached explanation.
+
+export const MIN_SEGMENT_SECONDS = 0.2;
+
+const replaceAt = (segments: TranscriptionSegment[], index: number, ...replacements: TranscriptionSegment[]) =>
+  [...segments.slice(0, index), ...replacements, ...segments.slice(index + 1)];
+
+export const updateSegmentText = (segments: TranscriptionSegment[], index: number, text: string): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean || clean === segment.text) return segments;
+  // Word timings follow the old words; the editor re-estimates them
+  return replaceAt(segments, index, { ...segment, text: clean, words: undefined, explanation: undefined, isEdited: true });
+};
+
+/**
+ * Default split time before `wordIndex`: the word's stored start, or an estimate from word lengths.
+ */
+export const estimateSplitTime = (segment: TranscriptionSegment, wordIndex: number) =>
+  getWordTimings(segment)[wordIndex]?.start ?? (segment.start + segment.end) / 2;
+
+/**
+ * Splits a segment before `wordIndex` at `time`. Both halves need new translations.
+ */
+export const splitSegment = (segments: TranscriptionSegment[], index: number, wordIndex: number, time: number): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const words = wordSpans(segment.text);
+  if (wordIndex <= 0 || wordIndex >= words.length) return segments;
+  // Sliced rather than re-joined, so unspaced scripts don't gain spaces
+  const splitAt = words[wordIndex].start;
+  const at = Math.min(segment.end - MIN_SEGMENT_SECONDS, Math.max(segment.start + MIN_SEGMENT_SECONDS, time));
+  const timings = segment.words?.length === words.length ? segment.words : undefined;
+
+  const first: TranscriptionSegment = {
+    ...segment,
+    end: at,
+    text: segment.text.slice(0, splitAt).trim(),
+    translation: '',
+    idiomatic: '',
+    words: timings?.slice(0, wordIndex),
+    explanation: undefined,
+    isEdited: true,
+  };
+  const second: TranscriptionSegment = {
+    ...segment,
+    start: at,
+    text: segment.text.slice(splitAt).trim(),
+    translation: '',
+    idiomatic: '',
+    words: timings?.slice(wordIndex),
+    explanation: undefined,
+    isEdited: true,
+  };
+  return replaceAt(segments, index, first, second);
+};
+
+/**
+ * Joins a segment with the one after it, the same way mergeShortSegments does.
+ */
+export const mergeWithNext = (segments: TranscriptionSegment[], index: number): TranscriptionSegment[] => {
+  const current = segments[index];
+  const next = segments[index + 1];
+  if (!next) return segments;
+  const merged: TranscriptionSegment = {
+    ...current,
+    end: next.end,
+    text: joinText(current.text, next.text),
+    translation: joinText(current.translation, next.translation),
+    idiomatic: joinText(current.idiomatic, next.idiomatic),
+    isFavorite: current.isFavorite || next.isFavorite,
+    words: current.words && next.words ? [...current.words, ...next.words] : undefined,
+    explanation: undefined,
+    isEdited: true,
+  };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+/**
+ * Moves one edge of a segment by `delta` seconds. An edge pushed into a neighbor moves the
+ * neighbor's shared edge along, so segments never overlap or swap order.
+ */
+export const nudgeSegmentEdge = (segments: TranscriptionSegment[], index: number, edge: 'start' | 'end', delta: number): TranscriptionSegment[] => {
+  const result = [...segments];
+  const segment = { ...result[index] };
+  const prev = result[index - 1];
+  const next = result[index + 1];
+
+  if (edge === 'start') {
+    const min = prev ? prev.start + MIN_SEGMENT_SECONDS : 0;
+    segment.start = Math.min(segment.end - MIN_SEGMENT_SECONDS, Math.max(min, segment.start + delta));
+    if (prev && prev.end > segment.start) result[index - 1] = { ...prev, end: segment.start };
+  } else {
+    const max = next ? next.end - MIN_SEGMENT_SECONDS : Infinity;
+    segment.end = Math.max(segment.start + MIN_SEGMENT_SECONDS, Math.min(max, segment.end + delta));
+    if (next && next.start < segment.end) result[index + 1] = { ...next, start: segment.end };
+  }
+  result[index] = segment;
+  return result;
+};
+
+const overlap = (a: TranscriptionSegment, b: TranscriptionSegment) =>
+  Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+/**
+ * Maps a segment start from before an edit to the segment holding that content afterwards,
+ * for records keyed by segment start (notes, review cards, practice attempts). Each old
+ * segment goes to the new one with the same start, else the one it overlaps most; starts
+ * that match no old segment go to the segment covering them, else the nearest.
+ */
+export const mapSegmentStarts = (before: TranscriptionSegment[], after: TranscriptionSegment[]) => {
+  const moved = new Map<number, TranscriptionSegment>();
+  before.forEach(old => {
+    const target = after.find(s => s.start === old.start)
+      || after.reduce<TranscriptionSegment | undefined>((best, s) => overlap(old, s) > (best ? overlap(old, best) : 0) ? s : best, undefined);
+    if (target) moved.set(old.start, target);
+  });
+  return (start: number): TranscriptionSegment | undefined =>
+    moved.get(start)
+      || after.find(s => start >= s.start && start < s.end)
+      || after.reduce<TranscriptionSegment | undefined>((best, s) => !best || Math.abs(s.start - start) < Math.abs(best.start - start) ? s : best, undefined);
+};
+
+export type SegmentStartMapping = ReturnType<typeof mapSegmentStarts>;
+
+/**
+ * Keeps notes attached after edits move segment starts: a note whose segment is gone moves
+ * to the segment that now holds its content. Word ranges survive while the words they point
+ * at are unchanged; others are dropped once they no longer fit or the note moved.
+ */
+export const reanchorNotes = (notes: SegmentNote[], before: TranscriptionSegment[], segmentFor: SegmentStartMapping): SegmentNote[] =>
+  notes.map(note => {
+    const segment = segmentFor(note.segmentStart);
+    if (!segment) return note;
+    const moved = segment.start !== note.segmentStart;
+    const sameText = before.find(s => s.start === note.segmentStart)?.text === segment.text;
+    const fits = !!note.wordRange && note.wordRange.end < splitWords(segment.text).length;
+    const wordRange = note.wordRange && (sameText || (!moved && fits)) ? note.wordRange : undefined;
+    if (!moved && wordRange === note.wordRange) return note;
+    return { ...note, segmentStart: segment.start, wordRange };
+  });
@@ -0,0 +1,51 @@
+import { STORE_TTS_AUDIO, STORE_TTS_CACHE, dbDelete, dbGet, dbGetAll, dbPut } from "./db";
+
+// Persistent cache of synthesized speech, so each sentence is generated once per voice.
+// Audio lives in a separate store from the bookkeeping so eviction never loads it.
+
+const MAX_CACHE_CHARS = 50 * 1024 * 1024; // base64 characters, roughly 37 MB of PCM
+
+interface TtsCacheEntry {
+  key: string;
+  size: number; // base64 characters
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Cache key for `text` spoken by `voiceId` (provider, model and speaker).
+ */
+export const speechCacheKey = (voiceId: string, text: string) => `${voiceId}|${text}`;
+
+export const getCachedSpeech = async (key: string): Promise<string | undefined> => {
+  const audio = await dbGet<string>(STORE_TTS_AUDIO, key);
+  if (audio === undefined) return undefined;
+
+  const entry = await dbGet<TtsCacheEntry>(STORE_TTS_CACHE, key);
+  if (entry) {
+    dbPut(STORE_TTS_CACHE, { ...entry, lastUsedAt: Date.now() }).catch(e => console.error("Failed to touch speech cache entry", e));
+  }
+  return audio;
+};
+
+/**
+ * Drops least recently used clips until the cache fits MAX_CACHE_CHARS.
+ */
+const evictLeastRecentlyUsed = async () => {
+  const entries = await dbGetAll<TtsCacheEntry>(STORE_TTS_CACHE);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  if (total <= MAX_CACHE_CHARS) return;
+
+  for (const entry of entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (total <= MAX_CACHE_CHARS) break;
+    await Promise.all([dbDelete(STORE_TTS_AUDIO, entry.key), dbDelete(STORE_TTS_CACHE, entry.key)]);
+    total -= entry.size;
+  }
+};
+
+export const cacheSpeech = async (key: string, audio: string): Promise<void> => {
+  const now = Date.now();
+  await dbPut(STORE_TTS_AUDIO, audio, key);
+  await dbPut(STORE_TTS_CACHE, { key, size: audio.length, createdAt: now, lastUsedAt: now });
+  await evictLeastRecentlyUsed();
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { VocabularyEntry } from '../types';
+import { csvField, exportVocabulary, filterVocabulary } from './vocabulary';
+
+const entry = (word: string, fields: Partial<VocabularyEntry> = {}): VocabularyEntry => ({
+  id: `de:${word.toLowerCase()}`, word, sourceLanguage: 'de', definition: `meaning of ${word}`, example: '',
+  sources: [], lookupCount: 1, firstLookedUpAt: 0, lastLookedUpAt: new Date(2024, 2, 5, 12).getTime(), ...fields,
+});
+
+describe('csvField', () => {
+  it('leaves plain text alone and quotes commas, quotes and line breaks', () => {
+    expect(csvField('Haus')).toBe('Haus');
+    expect(csvField('house, home')).toBe('"house, home"');
+    expect(csvField('the "right" one')).toBe('"the ""right"" one"');
+    expect(csvField('line one\nline two')).toBe('"line one\nline two"');
+    expect(csvField('ends with\r')).toBe('"ends with\r"');
+  });
+});
+
+describe('exportVocabulary', () => {
+  const haus = entry('Haus', {
+    phonetic: 'haʊs',
+    definition: 'house, "home"',
+    example: 'Das Haus ist alt.',
+    sources: [
+      { libraryItemId: 'item', itemName: 'Episode 1', segmentStart: 75, sentence: 'Wir gehen nach Hause.\nJetzt.', lookedUpAt: 0 },
+      { libraryItemId: 'old', itemName: 'Episode 0', segmentStart: 5, sentence: 'Older', lookedUpAt: 0 },
+    ],
+    lookupCount: 3,
+    learnedAt: 1,
+  });
+
+  it('writes a CRLF CSV with a header and the most recent source', () => {
+    const [header, row, end] = exportVocabulary([haus], 'csv').split('\r\n');
+    expect(header).toBe('Word,Phonetic,Definition,Example,Sentence,Source,Lookups,Learned,Last looked up,Language');
+    expect(row).toBe('Haus,haʊs,"house, ""home""",Das Haus ist alt.,"Wir gehen nach Hause.\nJetzt.",Episode 1 @ 1:15,3,yes,2024-03-05,de');
+    expect(end).toBe('');
+  });
+
+  it('flattens tabs and line breaks in TSV instead of quoting', () => {
+    const [, row] = exportVocabulary([entry('Tür', { example: 'a\tb' })], 'tsv').split('\r\n');
+    expect(row).toBe('Tür\t\tmeaning of Tür\ta b\t\t\t1\tno\t2024-03-05\tde');
+  });
+});
+
+describe('filterVocabulary', () => {
+  it('matches source sentences and sorts by lookups', () => {
+    const entries = [
+      entry('Haus', { lookupCount: 1, sources: [{ libraryItemId: 'item', itemName: 'E', segmentStart: 0, sentence: 'Ein Garten', lookedUpAt: 0 }] }),
+      entry('Garten', { lookupCount: 4 }),
+      entry('Tür'),
+    ];
+    expect(filterVocabulary(entries, ' garten ', 'frequency').map(e => e.word)).toEqual(['Garten', 'Haus']);
+    expect(filterVocabulary(entries, '', 'alphabetical').map(e => e.word)).toEqual(['Garten', 'Haus', 'Tür']);
+  });
+});
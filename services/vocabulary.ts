@@ -0,0 +1,125 @@
+import { TranscriptionSegment, VocabularyEntry, WordDefinition } from "../types";
+import { STORE_VOCABULARY, dbDelete, dbGetAll, dbPut, dbUpdate } from "./db";
+import { formatTime } from "./formatUtils";
+import { toDayKey } from "./practiceStats";
+
+// Notebook of looked-up words, shared by every transcript in the library.
+
+const MAX_SOURCES = 10;
+
+export type VocabularySort = 'recent' | 'frequency' | 'alphabetical';
+export type VocabularyExportFormat = 'csv' | 'tsv';
+
+// The same spelling in two languages ("die" in English and German) is two words
+const entryId = (word: string, sourceLanguage: string) => `${sourceLanguage}:${word.toLowerCase()}`;
+
+/**
+ * Saves a lookup. Repeat lookups of a word in the same language merge into one entry and keep
+ * the latest definition.
+ */
+export const saveLookup = async (
+  definition: WordDefinition,
+  segment: TranscriptionSegment,
+  libraryItemId: string,
+  itemName: string,
+  sourceLanguage: string
+): Promise<VocabularyEntry> => {
+  const id = entryId(definition.word, sourceLanguage);
+  const now = Date.now();
+  const source = { libraryItemId, itemName, segmentStart: segment.start, sentence: segment.text, lookedUpAt: now };
+
+  // One transaction, so two quick lookups of the same word both count
+  const saved = await dbUpdate<VocabularyEntry>(STORE_VOCABULARY, id, existing => {
+    // The same sentence looked up again only moves to the front
+    const otherSources = (existing?.sources || []).filter(s => s.libraryItemId !== libraryItemId || s.segmentStart !== segment.start);
+    return {
+      id,
+      word: definition.word,
+      sourceLanguage,
+      phonetic: definition.phonetic || existing?.phonetic,
+      definition: definition.definition,
+      example: definition.example,
+      sources: [source, ...otherSources].slice(0, MAX_SOURCES),
+      lookupCount: (existing?.lookupCount || 0) + 1,
+      firstLookedUpAt: existing?.firstLookedUpAt || now,
+      lastLookedUpAt: now,
+      learnedAt: existing?.learnedAt,
+    };
+  });
+  return saved!;
+};
+
+export const listVocabulary = () => dbGetAll<VocabularyEntry>(STORE_VOCABULARY);
+
+export const setLearned = async (entry: VocabularyEntry, learned: boolean): Promise<VocabularyEntry> => {
+  const updated = { ...entry, learnedAt: learned ? Date.now() : undefined };
+  await dbPut(STORE_VOCABULARY, updated);
+  return updated;
+};
+
+export const deleteVocabularyEntry = (id: string) => dbDelete(STORE_VOCABULARY, id);
+
+/**
+ * Drops links to a deleted item. The words themselves stay in the notebook.
+ */
+export const removeVocabularySourcesForItem = async (libraryItemId: string): Promise<void> => {
+  const entries = await listVocabulary();
+  await Promise.all(entries
+    .filter(e => e.sources.some(s => s.libraryItemId === libraryItemId))
+    .map(e => dbPut(STORE_VOCABULARY, { ...e, sources: e.sources.filter(s => s.libraryItemId !== libraryItemId) })));
+};
+
+/**
+ * Matches the query against the word, definition and source sentences, then sorts.
+ */
+export const filterVocabulary = (entries: VocabularyEntry[], query: string, sort: VocabularySort): VocabularyEntry[] => {
+  const needle = query.trim().toLowerCase();
+  const matches = needle
+    ? entries.filter(e =>
+        e.word.toLowerCase().includes(needle) ||
+        e.definition.toLowerCase().includes(needle) ||
+        e.sources.some(s => s.sentence.toLowerCase().includes(needle)))
+    : entries;
+
+  return [...matches].sort((a, b) => {
+    switch (sort) {
+      case 'frequency':
+        return b.lookupCount - a.lookupCount || b.lastLookedUpAt - a.lastLookedUpAt;
+      case 'alphabetical':
+        return a.word.localeCompare(b.word, undefined, { sensitivity: 'base' });
+      default:
+        return b.lastLookedUpAt - a.lastLookedUpAt;
+    }
+  });
+};
+
+const EXPORT_COLUMNS = ['Word', 'Phonetic', 'Definition', 'Example', 'Sentence', 'Source', 'Lookups', 'Learned', 'Last looked up', 'Language'];
+
+export const csvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// TSV has no quoting, so separators inside fields become spaces
+const tsvField = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+/**
+ * Serializes entries as CSV or TSV with a header row, using each word's most recent source.
+ */
+export const exportVocabulary = (entries: VocabularyEntry[], format: VocabularyExportFormat): string => {
+  const field = format === 'csv' ? csvField : tsvField;
+  const separator = format === 'csv' ? ',' : '\t';
+  const rows = entries.map(e => {
+    const source = e.sources[0];
+    return [
+      e.word,
+      e.phonetic || '',
+      e.definition,
+      e.example,
+      source?.sentence || '',
+      source ? `${source.itemName} @ ${formatTime(source.segmentStart)}` : '',
+      String(e.lookupCount),
+      e.learnedAt ? 'yes' : 'no',
+      toDayKey(e.lastLookedUpAt),
+      e.sourceLanguage,
+    ];
+  });
+  return [EXPORT_COLUMNS, ...rows].map(row => row.map(field).join(separator)).join('\r\n') + '\r\n';
+};
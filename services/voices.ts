@@ -0,0 +1,53 @@
+import { LanguageSettings, SpeechOptions, TranscriptionResponse, VoiceSettings } from "../types";
+import { DEFAULT_LANGUAGE_SETTINGS, getSourceLanguage } from "./languages";
+
+// TTS voice preferences: a default for every transcript, optionally overridden per transcript.
+
+// The voice every clip used before voices were configurable
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voice: 'Kore',
+  compareVoice: 'Puck',
+  rate: 'normal',
+};
+
+const STORAGE_KEY = 'voiceSettings';
+
+export const loadDefaultVoiceSettings = (): VoiceSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return { ...DEFAULT_VOICE_SETTINGS, ...(JSON.parse(saved) as Partial<VoiceSettings>) };
+  } catch (e) {
+    console.error("Failed to read voice settings", e);
+  }
+  return DEFAULT_VOICE_SETTINGS;
+};
+
+export const saveDefaultVoiceSettings = (settings: VoiceSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save voice settings", e);
+  }
+};
+
+export const getTranscriptVoiceSettings = (
+  transcript: TranscriptionResponse | null | undefined,
+  defaults: VoiceSettings
+): VoiceSettings => transcript?.voiceSettings || defaults;
+
+/**
+ * Resolves settings into per-request TTS options. Pass `voice` to swap the speaker,
+ * e.g. for the B side of an A/B comparison.
+ */
+export const getSpeechOptions = (
+  settings: VoiceSettings,
+  languageSettings: LanguageSettings,
+  voice = settings.voice
+): SpeechOptions => {
+  const variety = settings.accent
+    ? getSourceLanguage(languageSettings.sourceLanguage).varieties.find(v => v.code === settings.accent)
+    : undefined;
+  return { voice, rate: settings.rate, accent: variety?.name };
+};
+
+export const DEFAULT_SPEECH_OPTIONS = getSpeechOptions(DEFAULT_VOICE_SETTINGS, DEFAULT_LANGUAGE_SETTINGS);
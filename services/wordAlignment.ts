@@ -0,0 +1,123 @@
+import { TranscriptionResponse, TranscriptionSegment, WordTiming } from "../types";
+import { decodeAudioBlob } from "./audioUtils";
+import { splitWords } from "./tokenizer";
+
+// Word-level timing: validates model-provided timings and estimates missing ones.
+
+const FRAME_SECONDS = 0.01;
+const SNAP_WINDOW_SECONDS = 0.12; // how far a boundary may move towards a quieter spot
+
+// Rough speaking weight: longer words take longer, every word has some minimum length
+const wordWeight = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, '').length + 2;
+
+/**
+ * Distributes the segment duration over its words, proportional to word length.
+ */
+export const estimateWordTimings = (segment: TranscriptionSegment): WordTiming[] => {
+  const words = splitWords(segment.text);
+  const weights = words.map(wordWeight);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const duration = segment.end - segment.start;
+
+  let cursor = segment.start;
+  return words.map((text, i) => {
+    const start = cursor;
+    cursor += (weights[i] / totalWeight) * duration;
+    return { text, start, end: i === words.length - 1 ? segment.end : cursor };
+  });
+};
+
+/**
+ * Refines estimated boundaries by moving each one to the quietest nearby frame,
+ * which is where word gaps usually are. A lightweight stand-in for forced alignment.
+ */
+const snapToSilence = (timings: WordTiming[], samples: Float32Array, sampleRate: number): WordTiming[] => {
+  const frame = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const energyAt = (time: number) => {
+    const start = Math.max(0, Math.floor(time * sampleRate));
+    const end = Math.min(samples.length, start + frame);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    return end > start ? sum / (end - start) : Infinity;
+  };
+
+  const result = timings.map(t => ({ ...t }));
+  for (let i = 1; i < result.length; i++) {
+    const boundary = result[i].start;
+    // Keep every word at least one frame long
+    const min = Math.max(result[i - 1].start + FRAME_SECONDS, boundary - SNAP_WINDOW_SECONDS);
+    const max = Math.min(result[i].end - FRAME_SECONDS, boundary + SNAP_WINDOW_SECONDS);
+
+    let best = boundary;
+    let bestEnergy = energyAt(boundary);
+    for (let t = min; t <= max; t += FRAME_SECONDS) {
+      const energy = energyAt(t);
+      if (energy < bestEnergy) {
+        bestEnergy = energy;
+        best = t;
+      }
+    }
+    result[i - 1].end = best;
+    result[i].start = best;
+  }
+  return result;
+};
+
+/**
+ * Timings for every display word of a segment: the stored ones when they match the text,
+ * otherwise an estimate.
+ */
+export const getWordTimings = (segment: TranscriptionSegment): WordTiming[] => {
+  const words = splitWords(segment.text);
+  if (segment.words && segment.words.length === words.length) {
+    return segment.words.map((w, i) => ({ ...w, text: words[i] }));
+  }
+  return estimateWordTimings(segment);
+};
+
+/**
+ * Fills in `words` for segments that lack usable timings, aligning against the audio when available.
+ */
+export const addWordTimings = (
+  segments: TranscriptionSegment[],
+  audio?: { samples: Float32Array; sampleRate: number }
+): TranscriptionSegment[] => {
+  return segments.map(segment => {
+    if (segment.words && segment.words.length === splitWords(segment.text).length) return segment;
+    const estimated = estimateWordTimings(segment);
+    return { ...segment, words: audio ? snapToSilence(estimated, audio.samples, audio.sampleRate) : estimated };
+  });
+};
+
+/**
+ * Word timings for audio that has no transcript timings, such as synthesized speech.
+ */
+export const alignTextToBuffer = (text: string, buffer: AudioBuffer): WordTiming[] => {
+  const segment = { start: 0, end: buffer.duration, text, translation: '', idiomatic: '' };
+  return snapToSilence(estimateWordTimings(segment), buffer.getChannelData(0), buffer.sampleRate);
+};
+
+export const needsWordTimings = (segments: TranscriptionSegment[]) =>
+  segments.some(s => !s.words || s.words.length !== splitWords(s.text).length);
+
+/**
+ * Index of the word being spoken at `time`, or -1.
+ */
+export const findActiveWordIndex = (timings: WordTiming[], time: number) =>
+  timings.findIndex(w => time >= w.start && time < w.end);
+
+/**
+ * Decodes the source audio and fills missing word timings for a whole transcript.
+ * Falls back to plain estimates if the audio cannot be decoded.
+ */
+export const alignTranscriptWords = async (transcript: TranscriptionResponse, audioFile: Blob): Promise<TranscriptionResponse> => {
+  if (!needsWordTimings(transcript.segments)) return transcript;
+  try {
+    const buffer = await decodeAudioBlob(audioFile);
+    const audio = { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate };
+    return { ...transcript, segments: addWordTimings(transcript.segments, audio) };
+  } catch (e) {
+    console.warn("Could not decode audio for word alignment, using estimates", e);
+    return { ...transcript, segments: addWordTimings(transcript.segments) };
+  }
+};
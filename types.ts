@@ -1,15 +1,67 @@
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
 export interface TranscriptionSegment {
   start: number;
   end: number;
   text: string;
-  translation: string; // Chinese translation
-  idiomatic: string;   // American idiomatic expression
+  translation: string; // in LanguageSettings.translationLanguage
+  idiomatic: string;   // native-speaker phrasing in LanguageSettings.idiomVariety
   isFavorite?: boolean; // New field for Favorites feature
+  words?: WordTiming[]; // one entry per space-separated word of `text`
+  isEdited?: boolean; // text or boundaries changed by the user since translation/idiomatic were generated
+  explanation?: SentenceExplanation; // generated on demand, cleared when the text changes
+}
+
+export interface SegmentNote {
+  id: string;
+  segmentStart: number; // anchors the note to the segment starting at this time
+  wordRange?: { start: number; end: number }; // inclusive word indices within the segment
+  quote: string; // annotated text, kept so the note still reads well on its own
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LanguageSettings {
+  sourceLanguage: string; // language spoken in the audio, e.g. 'en', 'es', 'ja'
+  translationLanguage: string; // learner's language for `translation`, e.g. 'zh-CN'
+  idiomVariety: string; // regional variety of the source language for `idiomatic`, e.g. 'US', 'GB', 'AU'
+}
+
+export type SpeechRate = 'slow' | 'normal';
+
+export interface VoiceSettings {
+  voice: string; // prebuilt TTS voice, e.g. 'Kore'
+  compareVoice: string; // second voice for A/B listening
+  rate: SpeechRate;
+  accent?: string; // variety code of the source language, e.g. 'GB'; omitted = the voice's own accent
+}
+
+export interface VoiceOption {
+  name: string; // id sent to the provider
+  description: string; // short character note shown in the picker, e.g. 'Firm'
+}
+
+/**
+ * Resolved per-request TTS options, as passed to providers.
+ */
+export interface SpeechOptions {
+  voice: string;
+  rate: SpeechRate;
+  accent?: string; // variety name used in style prompts, e.g. 'British English'
 }
 
 export interface TranscriptionResponse {
   language: string;
   segments: TranscriptionSegment[];
+  notes?: SegmentNote[];
+  languageSettings?: LanguageSettings; // absent on transcripts made before languages were configurable
+  voiceSettings?: VoiceSettings; // overrides the default voice for this transcript
+
   meta: {
     wordCount: number;
     estimatedLevel: string; // e.g., 'B2', 'C1'
@@ -17,11 +69,23 @@ export interface TranscriptionResponse {
   }
 }
 
+export interface TranscriptionProgress {
+  stage: 'extract' | 'transcribe' | 'enrich'; // extract: pulling the audio out of a video; enrich: filling translations for imported subtitles
+  completedChunks: number;
+  totalChunks: number;
+  partial: TranscriptionResponse | null; // everything transcribed so far, in global time
+}
+
 export enum AppState {
   IDLE = 'IDLE',
   PROCESSING = 'PROCESSING',
   READY = 'READY',
   SHADOWING = 'SHADOWING', // New mode for speaking practice
+  REVIEW = 'REVIEW', // Spaced-repetition review across the library
+  DICTATION = 'DICTATION', // Listen and type what you hear
+  PROGRESS = 'PROGRESS', // Practice history dashboard
+  VOCABULARY = 'VOCABULARY', // Notebook of looked-up words
+  PODCASTS = 'PODCASTS', // Import episodes from podcast feeds
   ERROR = 'ERROR'
 }
 
@@ -31,6 +95,13 @@ export interface AudioFileMetadata {
   type: string;
   url: string;
   originalFile: File;
+  isVideo?: boolean; // shown in the transcript's video pane; the audio player still drives playback
+}
+
+// What the audio player is doing, mirrored by the video pane
+export interface PlaybackState {
+  playing: boolean;
+  rate: number;
 }
 
 export interface WordDefinition {
@@ -40,8 +111,246 @@ export interface WordDefinition {
   phonetic?: string;
 }
 
+export interface SentenceExpression {
+  phrase: string; // as it appears in the sentence
+  type: 'phrasal-verb' | 'collocation' | 'idiom';
+  meaning: string;
+}
+
+export interface GrammarPoint {
+  structure: string; // e.g. "present perfect continuous", "relative clause"
+  excerpt: string; // the part of the sentence it applies to
+  explanation: string;
+}
+
+export interface ConnectedSpeechNote {
+  excerpt: string; // as written, e.g. "going to"
+  heardAs: string; // as it is usually said, e.g. "gonna"
+  phenomenon: 'reduction' | 'linking' | 'elision' | 'assimilation' | 'weak-form';
+  explanation: string;
+}
+
+/**
+ * Grammar and usage breakdown of one segment, shown in its "Explain" panel.
+ */
+export interface SentenceExplanation {
+  expressions: SentenceExpression[];
+  grammar: GrammarPoint[];
+  connectedSpeech: ConnectedSpeechNote[];
+}
+
+export interface WordPronunciation {
+  word: string;
+  status: 'correct' | 'mispronounced' | 'omitted' | 'inserted'; // 'inserted': spoken but not in the reference
+  phonemeNote?: string; // e.g. "/θ/ sounded like /s/"
+  stressNote?: string; // stress or intonation remark
+}
+
 export interface PronunciationScore {
   score: number; // 0-100
   feedback: string;
   accuracy: 'good' | 'average' | 'poor';
-}
\ No newline at end of file
+  words?: WordPronunciation[]; // reference words in order, with inserted words where they were spoken
+}
+
+export interface ProsodyFeatures {
+  hopSeconds: number; // time between frames
+  pitch: number[]; // Hz per frame, 0 when unvoiced
+  energy: number[]; // dB per frame relative to the loudest frame (<= 0)
+  pauses: { start: number; end: number }[]; // seconds; silences inside the speech only
+  speechStart: number; // seconds, leading silence excluded
+  speechEnd: number;
+}
+
+export interface ProsodyComparison {
+  pitchScore: number | null; // 0-100 intonation shape similarity; null when too little voiced speech
+  rhythmScore: number; // 0-100 loudness envelope similarity
+  pauseScore: number | null; // 0-100 share of the original's pauses reproduced; null when the original has none
+  tempoRatio: number; // take speech length / original speech length
+  overlay: {
+    hopSeconds: number;
+    // Per frame of the take; the original is warped onto the take's timeline
+    referencePitch: (number | null)[]; // semitones from the speaker's median, null when unvoiced
+    userPitch: (number | null)[];
+    referenceEnergy: number[]; // 0-1
+    userEnergy: number[];
+    referencePauses: { start: number; end: number }[]; // seconds on the take's timeline
+    userPauses: { start: number; end: number }[];
+  };
+}
+
+export interface PracticeState {
+  lastPosition: number; // seconds, restored when the item is reopened
+  shadowingIndex: number; // last segment visited in shadowing mode
+}
+
+export interface LibraryItem {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  duration: number; // seconds
+  transcription: TranscriptionResponse;
+  practice: PracticeState;
+  createdAt: number;
+  lastOpenedAt: number;
+}
+
+export interface SequenceSettings {
+  gapMode: 'fixed' | 'proportional';
+  gapSeconds: number; // pause after each segment in 'fixed' mode
+  gapFactor: number; // pause as a multiple of the segment length in 'proportional' mode
+  repeatCount: number; // plays of each segment before moving on
+  loopRange: { from: number; to: number } | null; // inclusive segment indices for A-B looping
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewLogEntry {
+  reviewedAt: number;
+  grade: ReviewGrade;
+  interval: number; // days until the next review, as scheduled by this grade
+  ease: number;
+}
+
+export interface ReviewCard {
+  id: string;
+  kind: 'segment' | 'word';
+  libraryItemId: string;
+  segmentStart: number;
+  segmentEnd: number;
+  text: string; // segment text, or the context sentence for word cards
+  translation?: string;
+  idiomatic?: string;
+  definition?: WordDefinition; // word cards only
+  // SM-2 scheduling state
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  due: number; // timestamp
+  createdAt: number;
+  history: ReviewLogEntry[];
+}
+
+export interface VocabularySource {
+  libraryItemId: string;
+  itemName: string;
+  segmentStart: number; // where the word was heard
+  sentence: string;
+  lookedUpAt: number;
+}
+
+export interface VocabularyEntry {
+  id: string; // source language and lowercase word, so repeat lookups merge
+  word: string;
+  sourceLanguage: string; // e.g. 'de'
+  phonetic?: string;
+  definition: string;
+  example: string;
+  sources: VocabularySource[]; // most recent first
+  lookupCount: number;
+  firstLookedUpAt: number;
+  lastLookedUpAt: number;
+  learnedAt?: number;
+}
+
+export type PracticeMode = 'shadowing' | 'idiom' | 'dictation';
+
+export interface PracticeAttempt {
+  id: string;
+  libraryItemId: string;
+  itemName: string; // kept so the dashboard can label attempts without loading every item
+  segmentStart: number; // identifies the segment within the item
+  segmentEnd: number;
+  text: string; // what was practiced: the segment, or its idiomatic line in 'idiom' mode
+  mode: PracticeMode;
+  score: number; // 0-100: pronunciation score, or dictation accuracy
+  createdAt: number;
+}
+
+export interface ListeningLogEntry {
+  id: string; // `${day}:${libraryItemId}`
+  day: string; // local date, YYYY-MM-DD
+  libraryItemId: string;
+  seconds: number;
+}
+
+export interface SegmentProgress {
+  key: string; // item, segment and mode
+  libraryItemId: string;
+  itemName: string;
+  segmentStart: number;
+  text: string;
+  mode: PracticeMode;
+  best: number;
+  latest: number;
+  attempts: number;
+  lastAttemptAt: number;
+}
+
+export interface PracticeStats {
+  daily: { day: string; average: number; attempts: number }[]; // days with attempts, oldest first
+  segments: SegmentProgress[]; // most recently practiced first
+  weakest: SegmentProgress[];
+  totalMinutes: number;
+  weekMinutes: number; // last 7 days including today
+  currentStreak: number; // consecutive active days ending today (or yesterday)
+  longestStreak: number;
+  attemptCount: number;
+}
+
+export interface CharDiff {
+  type: 'same' | 'added' | 'removed'; // relative to the reference word
+  text: string;
+}
+
+export interface WordDiffEntry {
+  kind: 'correct' | 'misspelled' | 'wrong' | 'missed' | 'extra'; // 'wrong': a different word typed in its place
+  expected?: string; // reference word (absent for 'extra')
+  actual?: string; // typed word (absent for 'missed')
+  chars?: CharDiff[]; // only for 'misspelled'
+}
+
+export interface DictationResult {
+  entries: WordDiffEntry[];
+  accuracy: number; // 0-100
+}
+
+export interface PodcastChapter {
+  start: number; // seconds
+  title: string;
+  url?: string;
+}
+
+export interface PodcastTranscriptLink {
+  url: string;
+  type: string; // MIME type, e.g. "text/vtt" or "application/x-subrip"
+  language?: string;
+}
+
+export interface PodcastEpisode {
+  id: string; // guid, or the audio URL when the feed has none
+  title: string;
+  publishedAt?: number; // timestamp
+  duration?: number; // seconds
+  audioUrl?: string;
+  audioType?: string;
+  description?: string;
+  transcripts: PodcastTranscriptLink[];
+  chapters?: PodcastChapter[]; // inline Podlove Simple Chapters
+  chaptersUrl?: string; // Podcasting 2.0 JSON chapters, fetched on demand
+}
+
+export interface PodcastFeed {
+  url?: string; // where it was fetched from, or its self link
+  title: string;
+  description?: string;
+  imageUrl?: string;
+  episodes: PodcastEpisode[];
+}
+
+// A subscription, as kept in localStorage or listed in an OPML file
+export interface SavedFeed {
+  url: string;
+  title: string;
+}
@@ -1,8 +1,12 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
   const env = loadEnv(mode, '.', '');
+  const isBuild = command === 'build';
+  // Keys are secrets of the API worker (functions/). Only the dev server may inline them to call
+  // providers straight from the browser; no `vite build`, whatever its mode, contains them.
+  const clientSecret = (value: string | undefined) => JSON.stringify(isBuild ? '' : value || '');
   
   return {
     // base: './' helps locate assets if deployed to a subdirectory or uncertain path
@@ -10,10 +14,26 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       // Safely define env vars individually instead of overwriting the entire process.env object
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || ''),
-      'process.env.DEEPSEEK_API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY || ''),
+      'process.env.API_KEY': clientSecret(env.API_KEY),
+      'process.env.DEEPSEEK_API_KEY': clientSecret(env.DEEPSEEK_API_KEY),
+      'process.env.OPENAI_API_KEY': clientSecret(env.OPENAI_API_KEY),
+      'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL || ''),
+      'process.env.OPENAI_CHAT_MODEL': JSON.stringify(env.OPENAI_CHAT_MODEL || ''),
+      'process.env.OPENAI_TRANSCRIBE_MODEL': JSON.stringify(env.OPENAI_TRANSCRIBE_MODEL || ''),
+      'process.env.OPENAI_TTS_MODEL': JSON.stringify(env.OPENAI_TTS_MODEL || ''),
+      'process.env.AI_PROVIDERS': JSON.stringify(env.AI_PROVIDERS || ''),
+      // Built bundles talk to the same-origin Pages Functions unless told otherwise
+      'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL || (isBuild ? '/api' : '')),
+      // Prefix (or template with {url}) for fetching podcast feeds; defaults to the API worker's /fetch
+      'process.env.FEED_PROXY_URL': JSON.stringify(env.FEED_PROXY_URL || ''),
       'process.env.NODE_ENV': JSON.stringify(mode),
     },
+    server: {
+      // With API_PROXY_URL=/api, `npm run dev:api` serves the worker on 8788
+      proxy: {
+        '/api': 'http://127.0.0.1:8788',
+      },
+    },
     build: {
       outDir: 'dist',
       sourcemap: true,